@@ -0,0 +1,94 @@
+import {Firestore, Timestamp} from "firebase-admin/firestore";
+import {buildCalendar, picnicEvent, type CalendarPicnic} from "./shared/ics.js";
+
+/**
+ * iCalendar (RFC 5545) feed of a user's picnics, built with the same event
+ * writer as the single picnic export in the app.
+ */
+
+// Keep in sync with DEFAULT_PICNIC_DURATION_MS in src/firebase/picnics.ts
+const DEFAULT_PICNIC_DURATION_MS = 3 * 60 * 60 * 1000;
+
+// Picnics that finished longer ago than this drop out of the feed
+const FEED_HISTORY_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Older documents stored dates as ISO strings
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+// Reads a picnic document the way src/firebase/picnics.ts does, null for picnics started on the spot
+const calendarPicnic = (
+  picnicId: string,
+  data: FirebaseFirestore.DocumentData,
+  now: Date
+): CalendarPicnic | null => {
+  const start = toDate(data.date);
+  if (!start) return null;
+
+  return {
+    id: picnicId,
+    name: data.name ?? "",
+    description: data.description ?? "",
+    restaurantName: data.restaurantName ?? "",
+    hostId: data.hostId ?? data.createdBy,
+    hostName: data.hostName ?? "",
+    status: data.status ?? "planning",
+    location: data.location ?? {name: data.restaurantName ?? "", address: ""},
+    start,
+    end: toDate(data.endDate) ?? new Date(start.getTime() + DEFAULT_PICNIC_DURATION_MS),
+    updatedAt: toDate(data.updatedAt) ?? now,
+  };
+};
+
+/**
+ * Build the calendar for the user a feed token belongs to, or null if the
+ * token isn't valid. Cancelled picnics stay in the feed marked as cancelled so
+ * subscribed calendars take them off.
+ */
+export const buildUserFeed = async (
+  db: Firestore,
+  token: string,
+  appUrl: string,
+  now: Date = new Date()
+): Promise<string | null> => {
+  const feed = await db.collection("calendarFeeds").doc(token).get();
+  const userId = feed.get("userId");
+  if (typeof userId !== "string") return null;
+
+  const [joined, invited] = await Promise.all([
+    db.collection("picnics").where("participantIds", "array-contains", userId).get(),
+    db.collection("picnics").where("invitedUsers", "array-contains", userId).get(),
+  ]);
+
+  const picnics = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+  [...joined.docs, ...invited.docs].forEach((picnic) => picnics.set(picnic.id, picnic));
+
+  const recent = Array.from(picnics.values()).filter((picnic) => {
+    const start = toDate(picnic.get("date"));
+    return start && !picnic.get("archived") && now.getTime() - start.getTime() < FEED_HISTORY_MS;
+  });
+
+  const events = await Promise.all(recent.map(async (picnic) => {
+    const event = calendarPicnic(picnic.id, picnic.data(), now);
+    if (!event) return null;
+    const participants = await picnic.ref.collection("participants").get();
+    return picnicEvent(
+      event,
+      participants.docs.map((participant) => ({
+        id: participant.id,
+        name: participant.get("name") ?? null,
+        rsvpStatus: participant.get("rsvpStatus") ?? "going",
+      })),
+      appUrl,
+      now
+    );
+  }));
+
+  return buildCalendar(events.filter((event): event is string[] => event !== null), "Picnik");
+};
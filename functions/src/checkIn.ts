@@ -0,0 +1,93 @@
+import {FieldValue, Firestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError} from "firebase-functions/https";
+import {calculateDistance, formatDistance} from "./shared/geo.js";
+
+/**
+ * Checks people in at picnics, see src/firebase/checkIn.ts. The position comes
+ * from their device, so it's only as honest as the device, but the radius and
+ * timing are checked here where nobody can skip them. The rules don't let
+ * anyone mark themselves checked-in from the app.
+ */
+
+// Types
+export interface CheckInPosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // In metres, as reported by the device
+}
+
+// Keep in sync with CHECK_IN_EARLY_MS in src/firebase/checkIn.ts
+const CHECK_IN_EARLY_MS = 30 * 60 * 1000;
+
+// A fuzzy fix gets the benefit of the doubt, but only up to this many metres
+const MAX_ACCURACY_ALLOWANCE = 100;
+
+// Mirrors isCheckInOpen in src/firebase/checkIn.ts
+const isCheckInOpen = (picnic: FirebaseFirestore.DocumentData, now: Date): boolean => {
+  if ((picnic.checkInRadius ?? null) === null || !picnic.location?.coordinates) return false;
+  if (picnic.status === "active") return true;
+  return picnic.status === "planning" && picnic.date instanceof Timestamp &&
+    now.getTime() >= picnic.date.toMillis() - CHECK_IN_EARLY_MS;
+};
+
+/**
+ * Checks someone in at a picnic from where their device says they are, when
+ * they're within its radius, and ends any live location sharing. Keeps the
+ * picnic's lists and count in step the way writeParticipantStatus in
+ * src/firebase/participants.ts does. Returns how far away they were in km.
+ */
+export const checkInAtPicnic = async (
+  db: Firestore,
+  picnicId: string,
+  userId: string,
+  position: CheckInPosition,
+  now: Date
+): Promise<number> => {
+  const picnicRef = db.collection("picnics").doc(picnicId);
+  const participantRef = picnicRef.collection("participants").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const [picnic, participant] = await Promise.all([transaction.get(picnicRef), transaction.get(participantRef)]);
+    if (!picnic.exists) throw new HttpsError("not-found", "Picnic not found");
+    const radius: number | null = picnic.get("checkInRadius") ?? null;
+    if (radius === null) throw new HttpsError("failed-precondition", "Check-in isn't on for this picnic");
+    if (!isCheckInOpen(picnic.data()!, now)) {
+      throw new HttpsError("failed-precondition", "Check-in opens when the picnic is about to start");
+    }
+
+    const rsvpStatus = participant.get("rsvpStatus");
+    if (!participant.exists || rsvpStatus === "invited" || rsvpStatus === "declined") {
+      throw new HttpsError("failed-precondition", "Join the picnic before checking in");
+    }
+    if (rsvpStatus === "waitlisted") {
+      throw new HttpsError("failed-precondition", "You're on the waitlist, check in once a spot opens up");
+    }
+
+    const spot = picnic.get("location.coordinates");
+    const distance = calculateDistance(position.latitude, position.longitude, spot.latitude, spot.longitude);
+    const allowance = Math.min(Math.max(position.accuracy, 0), MAX_ACCURACY_ALLOWANCE);
+    if (distance * 1000 - allowance > radius) {
+      throw new HttpsError(
+        "failed-precondition",
+        `You're ${formatDistance(distance)} away. Get within ${formatDistance(radius / 1000)} to check in.`
+      );
+    }
+
+    if (rsvpStatus !== "checked-in") {
+      const timestamp = FieldValue.serverTimestamp();
+      transaction.update(participantRef, {
+        rsvpStatus: "checked-in",
+        joinedAt: participant.get("joinedAt") ?? timestamp,
+        checkedInAt: timestamp,
+        updatedAt: timestamp,
+      });
+      // They're already in participantIds. Going and checked-in count alike, maybe doesn't count
+      transaction.update(picnicRef, {
+        ...(rsvpStatus === "maybe" && {participantCount: FieldValue.increment(1)}),
+        updatedAt: timestamp,
+      });
+    }
+    transaction.delete(picnicRef.collection("presence").doc(userId));
+    return distance;
+  });
+};
@@ -8,8 +8,21 @@
  */
 
 import {setGlobalOptions} from "firebase-functions";
-import {onRequest} from "firebase-functions/https";
+import {HttpsError, onCall, onRequest} from "firebase-functions/https";
+import {onSchedule} from "firebase-functions/scheduler";
+import {onDocumentUpdated, onDocumentWritten} from "firebase-functions/firestore";
 import * as logger from "firebase-functions/logger";
+import {initializeApp} from "firebase-admin/app";
+import {getFirestore, QueryDocumentSnapshot, Timestamp} from "firebase-admin/firestore";
+import {buildUserFeed} from "./calendar.js";
+import {checkInAtPicnic} from "./checkIn.js";
+import {sendDuePotluckReminders} from "./potluck.js";
+import {deleteExpiredPresence} from "./presence.js";
+import {spawnAllSeries, spawnSeriesOccurrences} from "./series.js";
+import {hasWaitlistRoom, promoteFromWaitlist} from "./waitlist.js";
+
+initializeApp();
+const db = getFirestore();
 
 // Start writing functions
 // https://firebase.google.com/docs/functions/typescript
@@ -30,3 +43,164 @@ setGlobalOptions({ maxInstances: 10 });
 //   logger.info("Hello logs!", {structuredData: true});
 //   response.send("Hello from Firebase!");
 // });
+
+// Keep in sync with DEFAULT_PICNIC_DURATION_MS in src/firebase/picnics.ts
+const DEFAULT_PICNIC_DURATION_MS = 3 * 60 * 60 * 1000;
+
+// A page of picnics to advance, well within the 500 writes a batch allows
+const STATUS_PAGE_SIZE = 250;
+
+/**
+ * Advances every started picnic in `status`, a page at a time so a backlog
+ * never starves the picnics past the first page. Returns how many changed.
+ */
+const advanceStartedPicnics = async (status: string, now: Timestamp): Promise<number> => {
+  let updates = 0;
+  let last: QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let page = db.collection("picnics")
+      .where("status", "==", status)
+      .where("date", "<=", now)
+      .orderBy("date")
+      .limit(STATUS_PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let pageUpdates = 0;
+    for (const picnic of snapshot.docs) {
+      const date = picnic.get("date") as Timestamp;
+      const endDate = (picnic.get("endDate") as Timestamp | null) ??
+        Timestamp.fromMillis(date.toMillis() + DEFAULT_PICNIC_DURATION_MS);
+      const next = endDate.toMillis() <= now.toMillis() ? "completed" : "active";
+
+      if (next !== status) {
+        batch.update(picnic.ref, {status: next, updatedAt: now});
+        pageUpdates++;
+      }
+    }
+    if (pageUpdates > 0) {
+      await batch.commit();
+      updates += pageUpdates;
+    }
+
+    if (snapshot.size < STATUS_PAGE_SIZE) break;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+  return updates;
+};
+
+/**
+ * Moves scheduled picnics from planning to active once they start, and from
+ * active to completed once they end. Clients resolve the same transition
+ * when they read a picnic, this keeps documents right for everyone else.
+ */
+export const advancePicnicStatuses = onSchedule("every 5 minutes", async () => {
+  const now = Timestamp.now();
+  const updates = await advanceStartedPicnics("planning", now) +
+    await advanceStartedPicnics("active", now);
+  logger.info(`Advanced ${updates} picnic statuses`);
+});
+
+/**
+ * Reminds people about potluck essentials nobody is bringing, a day before
+ * the picnic. Runs here rather than in the app so it goes out even when
+ * nobody opens it.
+ */
+export const sendPotluckReminders = onSchedule("every 15 minutes", async () => {
+  const sent = await sendDuePotluckReminders(db, Timestamp.now());
+  logger.info(`Sent ${sent} potluck reminders`);
+});
+
+/**
+ * Clears shared locations once their sharing window has passed, so nobody's
+ * position is kept longer than they agreed to.
+ */
+export const clearExpiredPresence = onSchedule("every 15 minutes", async () => {
+  const deleted = await deleteExpiredPresence(db, Timestamp.now());
+  logger.info(`Deleted ${deleted} expired shared locations`);
+});
+
+/**
+ * Creates the next picnics of every recurring series as they come within
+ * reach, whether or not the host opens the app.
+ */
+export const spawnRecurringPicnics = onSchedule("every 6 hours", async () => {
+  const spawned = await spawnAllSeries(db, new Date());
+  logger.info(`Created ${spawned} recurring picnics`);
+});
+
+/**
+ * Creates a series' upcoming picnics as soon as it's set up or changed,
+ * rather than waiting for the next scheduled run.
+ */
+export const spawnSeriesOnWrite = onDocumentWritten("picnicSeries/{seriesId}", async (event) => {
+  if (!event.data?.after.exists) return;
+  const spawned = await spawnSeriesOccurrences(db, event.params.seriesId, new Date());
+  logger.info(`Created ${spawned} picnics for series ${event.params.seriesId}`);
+});
+
+/**
+ * Lets people in off a picnic's waitlist whenever a spot opens, whether someone
+ * gave theirs up or the host made room.
+ */
+export const promoteWaitlist = onDocumentUpdated("picnics/{picnicId}", async (event) => {
+  const after = event.data?.after.data();
+  if (!after || !hasWaitlistRoom(after)) return;
+
+  const promoted = await promoteFromWaitlist(db, event.params.picnicId);
+  if (promoted > 0) logger.info(`Promoted ${promoted} people off the waitlist of ${event.params.picnicId}`);
+});
+
+/**
+ * Checks the caller in at a picnic from their device's position, see
+ * src/firebase/checkIn.ts. Resolves to how far away they were in km.
+ */
+export const checkIn = onCall(async (request) => {
+  if (!request.auth) throw new HttpsError("unauthenticated", "Sign in to check in");
+
+  const {picnicId, position} = request.data ?? {};
+  const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+  if (typeof picnicId !== "string" || !picnicId ||
+    !isNumber(position?.latitude) || !isNumber(position?.longitude) || !isNumber(position?.accuracy)) {
+    throw new HttpsError("invalid-argument", "A picnic and a position are needed to check in");
+  }
+
+  const distance = await checkInAtPicnic(db, picnicId, request.auth.uid, {
+    latitude: position.latitude,
+    longitude: position.longitude,
+    accuracy: position.accuracy,
+  }, new Date());
+  return {distance};
+});
+
+/**
+ * Serves each user's picnics as an iCalendar feed at /calendar/<token>.ics,
+ * through the hosting rewrite in firebase.json. Calendar apps poll it, so
+ * edits and cancellations show up on their next refresh.
+ */
+export const calendarFeed = onRequest(async (request, response) => {
+  const match = request.path.match(/\/calendar\/([A-Za-z0-9_-]+)\.ics$/);
+  if (request.method !== "GET" || !match) {
+    response.status(404).send("Not found");
+    return;
+  }
+
+  try {
+    const calendar = await buildUserFeed(db, match[1], `https://${request.hostname}`);
+    if (!calendar) {
+      response.status(404).send("Not found");
+      return;
+    }
+
+    response.set("Content-Type", "text/calendar; charset=utf-8");
+    response.set("Cache-Control", "private, max-age=300");
+    response.send(calendar);
+  } catch (error) {
+    logger.error("Error building calendar feed", error);
+    response.status(500).send("Something went wrong");
+  }
+});
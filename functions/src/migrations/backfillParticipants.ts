@@ -0,0 +1,116 @@
+import {initializeApp} from "firebase-admin/app";
+import {FieldValue, Firestore, getFirestore, Timestamp} from "firebase-admin/firestore";
+
+/**
+ * One-off migration for picnics from before the participants subcollection.
+ * Those embedded their participants in a `participants` array, as bare user
+ * IDs or as {id, name, photoURL, picnicPhotoURL, joinedAt} objects. Each one
+ * becomes a participant document going to the picnic, and the picnic gets the
+ * participantIds and participantCount that queries and security rules use.
+ * Picnics are migrated one transaction each, so it is safe to run again.
+ *
+ * Run with `npm run migrate:participants` using credentials for the project,
+ * e.g. GOOGLE_APPLICATION_CREDENTIALS pointing at a service account key.
+ */
+
+interface LegacyParticipant {
+  id: string;
+  name: string | null;
+  photoURL: string | null;
+  picnicPhotoURL: string | null;
+  joinedAt: Timestamp | null;
+}
+
+const PAGE_SIZE = 200;
+
+const legacyParticipants = (value: unknown): LegacyParticipant[] =>
+  (Array.isArray(value) ? value : [])
+    .map((entry) => (typeof entry === "string" ? {id: entry} : entry))
+    .filter((entry) => typeof entry?.id === "string")
+    .map((entry) => ({
+      id: entry.id,
+      name: entry.name || null,
+      photoURL: entry.photoURL || null,
+      picnicPhotoURL: entry.picnicPhotoURL || null,
+      joinedAt: entry.joinedAt instanceof Timestamp ? entry.joinedAt : null,
+    }));
+
+const migratePicnic = (db: Firestore, picnicRef: FirebaseFirestore.DocumentReference): Promise<boolean> =>
+  db.runTransaction(async (transaction) => {
+    const picnic = await transaction.get(picnicRef);
+    if (!picnic.exists || picnic.get("participantIds") !== undefined) return false;
+
+    const participants = Array.from(new Map(
+      legacyParticipants(picnic.get("participants")).map((participant) => [participant.id, participant])
+    ).values());
+    const existing = await Promise.all(participants.map((participant) =>
+      transaction.get(picnicRef.collection("participants").doc(participant.id))
+    ));
+
+    const now = Timestamp.now();
+    participants.forEach((participant, index) => {
+      // Someone who already answered since keeps their answer
+      if (existing[index].exists) return;
+      transaction.set(existing[index].ref, {
+        id: participant.id,
+        name: participant.name,
+        photoURL: participant.photoURL,
+        picnicPhotoURL: participant.picnicPhotoURL,
+        rsvpStatus: "going",
+        joinedAt: participant.joinedAt ?? picnic.get("createdAt") ?? now,
+        lastReadAt: null,
+        checkedInAt: null,
+        waitlistedAt: null,
+        updatedAt: now,
+      });
+    });
+
+    // Mirrors isAttending and isCounted in src/firebase/participants.ts
+    const statuses = existing.map((participant) => participant.exists ? participant.get("rsvpStatus") : "going");
+    const attending = participants.filter((_, index) => ["going", "maybe", "checked-in"].includes(statuses[index]));
+    const counted = statuses.filter((status) => ["going", "checked-in"].includes(status));
+
+    transaction.update(picnicRef, {
+      participantIds: attending.map((participant) => participant.id),
+      participantCount: counted.length,
+      invitedUsers: picnic.get("invitedUsers") ?? [],
+      waitlistIds: picnic.get("waitlistIds") ?? [],
+      participants: FieldValue.delete(),
+      updatedAt: now,
+    });
+    return true;
+  });
+
+/**
+ * Migrates every picnic still embedding its participants. Returns how many changed.
+ */
+export const backfillParticipants = async (db: Firestore): Promise<number> => {
+  let migrated = 0;
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let page = db.collection("picnics").orderBy("__name__").limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+
+    const snapshot = await page.get();
+    for (const picnic of snapshot.docs) {
+      if (picnic.get("participantIds") === undefined && await migratePicnic(db, picnic.ref)) {
+        migrated++;
+      }
+    }
+
+    if (snapshot.size < PAGE_SIZE) break;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+  return migrated;
+};
+
+if (require.main === module) {
+  initializeApp();
+  backfillParticipants(getFirestore())
+    .then((migrated) => console.log(`Moved participants into the subcollection for ${migrated} picnics`))
+    .catch((error) => {
+      console.error("Error backfilling participants:", error);
+      process.exitCode = 1;
+    });
+}
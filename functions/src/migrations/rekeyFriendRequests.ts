@@ -0,0 +1,72 @@
+import {initializeApp} from "firebase-admin/app";
+import {Firestore, getFirestore} from "firebase-admin/firestore";
+
+/**
+ * One-off migration for friend requests from before they were keyed
+ * sender_recipient, see friendRequestId in src/firebase/friends.ts. Those have
+ * random IDs, so the security rules can't find them and friendships they
+ * accepted can't be checked. Each one moves to its sender_recipient ID. Where
+ * that already holds a request, an accepted one wins, and otherwise the one
+ * already there is kept. Requests are moved one transaction each, so it is
+ * safe to run again.
+ *
+ * Run with `npm run migrate:friend-requests` using credentials for the project,
+ * e.g. GOOGLE_APPLICATION_CREDENTIALS pointing at a service account key.
+ */
+
+const PAGE_SIZE = 200;
+
+const keyedId = (request: FirebaseFirestore.DocumentSnapshot): string | null => {
+  const fromUserId = request.get("fromUserId");
+  const toUserId = request.get("toUserId");
+  return typeof fromUserId === "string" && typeof toUserId === "string" ? `${fromUserId}_${toUserId}` : null;
+};
+
+const rekeyRequest = (db: Firestore, requestRef: FirebaseFirestore.DocumentReference): Promise<boolean> =>
+  db.runTransaction(async (transaction) => {
+    const request = await transaction.get(requestRef);
+    const id = request.exists ? keyedId(request) : null;
+    if (!id || id === request.id) return false;
+
+    const keyedRef = db.collection("friendRequests").doc(id);
+    const keyed = await transaction.get(keyedRef);
+    if (!keyed.exists || (request.get("status") === "accepted" && keyed.get("status") !== "accepted")) {
+      transaction.set(keyedRef, request.data()!);
+    }
+    transaction.delete(requestRef);
+    return true;
+  });
+
+/**
+ * Re-keys every friend request that still has a random ID. Returns how many moved.
+ */
+export const rekeyFriendRequests = async (db: Firestore): Promise<number> => {
+  let moved = 0;
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let page = db.collection("friendRequests").orderBy("__name__").limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+
+    const snapshot = await page.get();
+    for (const request of snapshot.docs) {
+      if (keyedId(request) !== request.id && await rekeyRequest(db, request.ref)) {
+        moved++;
+      }
+    }
+
+    if (snapshot.size < PAGE_SIZE) break;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+  return moved;
+};
+
+if (require.main === module) {
+  initializeApp();
+  rekeyFriendRequests(getFirestore())
+    .then((moved) => console.log(`Moved ${moved} friend requests to sender_recipient IDs`))
+    .catch((error) => {
+      console.error("Error re-keying friend requests:", error);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,59 @@
+import * as logger from "firebase-functions/logger";
+import {Firestore} from "firebase-admin/firestore";
+
+/**
+ * Notifications sent from functions, written to the same notifications
+ * collection and in the same shape as src/firebase/notifications.ts.
+ */
+
+export type NotificationType = "picnic_invite" | "friend_request" | "picnic_update" | "message";
+
+export interface NewNotification {
+  type: NotificationType;
+  senderId: string;
+  recipientId: string;
+  picnicId?: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+// Which switch in a user's notification preferences covers each type
+const PREFERENCE_KEYS: Record<NotificationType, string> = {
+  picnic_invite: "picnicInvites",
+  friend_request: "friendRequests",
+  picnic_update: "updates",
+  message: "messages",
+};
+
+/**
+ * Whether a user wants notifications of this type. Users who never saved
+ * preferences get everything, matching the defaults in the settings screen.
+ */
+const wantsNotification = async (db: Firestore, userId: string, type: NotificationType): Promise<boolean> => {
+  const user = await db.collection("users").doc(userId).get();
+  const preferences = user.get("notificationPreferences");
+  return preferences?.enabled !== false && preferences?.types?.[PREFERENCE_KEYS[type]] !== false;
+};
+
+/**
+ * Notify everyone in `notifications` who wants to hear about it. Notifications
+ * are best effort, failures are logged and don't stop the rest.
+ */
+export const notifyAll = async (db: Firestore, notifications: NewNotification[]): Promise<void> => {
+  const results = await Promise.allSettled(notifications.map(async (notification) => {
+    if (!(await wantsNotification(db, notification.recipientId, notification.type))) return;
+
+    const ref = db.collection("notifications").doc();
+    const now = new Date();
+    await ref.set({
+      id: ref.id,
+      ...notification,
+      isRead: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }));
+  results
+    .filter((result): result is PromiseRejectedResult => result.status === "rejected")
+    .forEach((result) => logger.error("Error sending notification", result.reason));
+};
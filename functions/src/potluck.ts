@@ -0,0 +1,81 @@
+import {Firestore, Timestamp} from "firebase-admin/firestore";
+import {notifyAll} from "./notifications.js";
+
+/**
+ * The unclaimed essentials reminder for potluck lists, see src/firebase/potluck.ts
+ * for how lists are kept.
+ */
+
+// How long before the start time people are reminded about unclaimed essentials
+const POTLUCK_REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+
+// RSVP statuses that count as coming, see isAttending in src/firebase/participants.ts
+const ATTENDING = ["going", "maybe", "checked-in"];
+
+interface PotluckItem {
+  id: string;
+  name: string;
+  quantity: number;
+  essential: boolean;
+  claims: {quantity: number}[];
+}
+
+// Essentials nobody has fully claimed yet
+const unclaimedEssentials = (items: PotluckItem[]): PotluckItem[] =>
+  items.filter((item) =>
+    item.essential && item.claims.reduce((total, claim) => total + claim.quantity, 0) < item.quantity
+  );
+
+/**
+ * Reminds everyone coming to a potluck starting within POTLUCK_REMINDER_LEAD_MS
+ * about essentials nobody has claimed. Each picnic's reminder only goes out
+ * once. Returns how many picnics were reminded about.
+ */
+export const sendDuePotluckReminders = async (db: Firestore, now: Timestamp): Promise<number> => {
+  const upcoming = await db.collection("picnics")
+    .where("status", "==", "planning")
+    .where("date", ">", now)
+    .where("date", "<=", Timestamp.fromMillis(now.toMillis() + POTLUCK_REMINDER_LEAD_MS))
+    .get();
+
+  let sent = 0;
+  for (const picnic of upcoming.docs) {
+    const potluck = picnic.get("potluck");
+    if (!potluck || potluck.reminderSentAt) continue;
+
+    const items = await picnic.ref.collection("potluckItems").get();
+    const missing = unclaimedEssentials(items.docs.map((item) => ({
+      id: item.id,
+      name: item.get("name") ?? "",
+      quantity: item.get("quantity") ?? 1,
+      essential: item.get("essential") === true,
+      claims: item.get("claims") ?? [],
+    })));
+    if (missing.length === 0) continue;
+
+    // Claim the reminder first so an overlapping run doesn't send it twice
+    const claimed = await db.runTransaction(async (transaction) => {
+      const current = await transaction.get(picnic.ref);
+      if (!current.get("potluck") || current.get("potluck.reminderSentAt")) return false;
+
+      transaction.update(picnic.ref, {"potluck.reminderSentAt": now});
+      return true;
+    });
+    if (!claimed) continue;
+
+    const participants = await picnic.ref.collection("participants")
+      .where("rsvpStatus", "in", ATTENDING)
+      .get();
+    const names = missing.map((item) => item.name).join(", ");
+    await notifyAll(db, participants.docs.map((participant) => ({
+      type: "picnic_update",
+      senderId: picnic.get("hostId"),
+      recipientId: participant.id,
+      picnicId: picnic.id,
+      message: `Nobody's bringing ${names} to ${picnic.get("name")} yet`,
+      data: {itemIds: missing.map((item) => item.id)},
+    })));
+    sent++;
+  }
+  return sent;
+};
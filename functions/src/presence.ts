@@ -0,0 +1,30 @@
+import {Firestore, Timestamp} from "firebase-admin/firestore";
+
+// Deletes per batch, within the 500 writes a batch allows
+const PRESENCE_PAGE_SIZE = 400;
+
+/**
+ * Deletes the positions people shared on the way to picnics once their
+ * sharing window has passed, see src/firebase/presence.ts. The app already
+ * hides them, this makes sure they don't linger. Returns how many went.
+ */
+export const deleteExpiredPresence = async (db: Firestore, now: Timestamp): Promise<number> => {
+  let deleted = 0;
+
+  for (;;) {
+    // Deleted positions drop out of the query, so each page starts from the top
+    const expired = await db.collectionGroup("presence")
+      .where("expiresAt", "<=", now)
+      .limit(PRESENCE_PAGE_SIZE)
+      .get();
+    if (expired.empty) break;
+
+    const batch = db.batch();
+    expired.docs.forEach((presence) => batch.delete(presence.ref));
+    await batch.commit();
+    deleted += expired.size;
+
+    if (expired.size < PRESENCE_PAGE_SIZE) break;
+  }
+  return deleted;
+};
@@ -0,0 +1,155 @@
+import {FieldValue, Firestore, Timestamp} from "firebase-admin/firestore";
+import {encodeGeohash} from "./shared/geohash.js";
+import {occurrencesBetween, type RecurrenceRule} from "./shared/recurrence.js";
+
+/**
+ * Creates the picnics of recurring series ahead of time, see
+ * src/firebase/picnicSeries.ts for how series are set up and skipped.
+ */
+
+// Keep in sync with SERIES_HORIZON_MS in src/firebase/picnicSeries.ts
+const SERIES_HORIZON_MS = 35 * 24 * 60 * 60 * 1000;
+
+// Occurrences get predictable IDs, matching occurrenceId in src/firebase/picnicSeries.ts
+const occurrenceId = (seriesId: string, index: number): string =>
+  index === 0 ? seriesId : `${seriesId}-${index}`;
+
+const toDate = (value: unknown): Date | null => value instanceof Timestamp ? value.toDate() : null;
+
+const ruleOf = (data: FirebaseFirestore.DocumentData): RecurrenceRule => ({
+  frequency: data.frequency ?? "weekly",
+  startDate: toDate(data.startDate) ?? new Date(),
+  until: toDate(data.until),
+  timeZone: data.timeZone ?? null,
+});
+
+/**
+ * Creates the occurrences of a series starting within SERIES_HORIZON_MS that
+ * don't exist yet, each in its own transaction with the series, so one the
+ * host skips or stops meanwhile is never created. Returns how many were made.
+ */
+export const spawnSeriesOccurrences = async (db: Firestore, seriesId: string, now: Date): Promise<number> => {
+  const seriesRef = db.collection("picnicSeries").doc(seriesId);
+  const series = await seriesRef.get();
+  if (!series.exists || series.get("active") === false) return 0;
+
+  const due = occurrencesBetween(
+    ruleOf(series.data()!),
+    now,
+    new Date(now.getTime() + SERIES_HORIZON_MS),
+    series.get("skippedOccurrences") ?? []
+  );
+
+  let spawned = 0;
+  for (const {index, date} of due) {
+    const picnicRef = db.collection("picnics").doc(occurrenceId(seriesId, index));
+    const created = await db.runTransaction(async (transaction) => {
+      const [current, existing] = await Promise.all([transaction.get(seriesRef), transaction.get(picnicRef)]);
+      const skipped: number[] = current.get("skippedOccurrences") ?? [];
+      if (existing.exists || current.get("active") === false || skipped.includes(index)) return false;
+
+      const hostId: string = current.get("hostId");
+      const template = current.get("template");
+      const location = template.location;
+      const invitedUsers = (template.invitedUsers ?? []).filter((id: string) => id !== hostId);
+      const rsvpDeadline = template.rsvpLeadMs && date.getTime() - template.rsvpLeadMs > now.getTime() ?
+        new Date(date.getTime() - template.rsvpLeadMs) :
+        null;
+      const timestamp = FieldValue.serverTimestamp();
+
+      // Same shape as createPicnic in src/firebase/picnics.ts writes
+      transaction.create(picnicRef, {
+        id: picnicRef.id,
+        name: template.name || `${template.hostName}'s Picnic`,
+        description: template.description ?? "",
+        hostId,
+        hostName: template.hostName,
+        hostPhotoURL: template.hostPhotoURL,
+        restaurantName: location.name,
+        location,
+        geohash: location.coordinates ?
+          encodeGeohash(location.coordinates.latitude, location.coordinates.longitude) :
+          null,
+        participantIds: [hostId],
+        participantCount: 1,
+        invitedUsers,
+        // Series made before capacities and visibility existed don't have them
+        capacity: template.capacity ?? null,
+        waitlistIds: [],
+        status: "planning",
+        visibility: template.visibility ?? "private",
+        date: Timestamp.fromDate(date),
+        endDate: template.durationMs ? Timestamp.fromMillis(date.getTime() + template.durationMs) : null,
+        rsvpDeadline: rsvpDeadline && Timestamp.fromDate(rsvpDeadline),
+        cancellationReason: null,
+        cancelledAt: null,
+        vote: null,
+        potluck: template.potluck ? {categories: template.potluck.categories, reminderSentAt: null} : null,
+        checkInRadius: null,
+        seriesId,
+        occurrence: index,
+        archived: false,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+
+      const participants = picnicRef.collection("participants");
+      transaction.create(participants.doc(hostId), {
+        id: hostId,
+        name: template.hostName,
+        photoURL: template.hostPhotoURL,
+        picnicPhotoURL: null,
+        rsvpStatus: "going",
+        joinedAt: timestamp,
+        lastReadAt: null,
+        checkedInAt: null,
+        waitlistedAt: null,
+        updatedAt: timestamp,
+      });
+      invitedUsers.forEach((userId: string) => {
+        transaction.create(participants.doc(userId), {
+          id: userId,
+          name: null,
+          photoURL: null,
+          picnicPhotoURL: null,
+          rsvpStatus: "invited",
+          joinedAt: null,
+          lastReadAt: null,
+          checkedInAt: null,
+          waitlistedAt: null,
+          updatedAt: timestamp,
+        });
+      });
+
+      (template.potluck?.items ?? []).forEach((item: FirebaseFirestore.DocumentData) => {
+        const itemRef = picnicRef.collection("potluckItems").doc();
+        transaction.create(itemRef, {
+          id: itemRef.id,
+          name: item.name,
+          category: item.category,
+          quantity: item.quantity,
+          essential: item.essential ?? false,
+          claims: [],
+          addedBy: hostId,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        });
+      });
+      return true;
+    });
+    if (created) spawned++;
+  }
+  return spawned;
+};
+
+/**
+ * Catches up every active series. Returns how many picnics were created.
+ */
+export const spawnAllSeries = async (db: Firestore, now: Date): Promise<number> => {
+  const active = await db.collection("picnicSeries").where("active", "==", true).get();
+  let spawned = 0;
+  for (const series of active.docs) {
+    spawned += await spawnSeriesOccurrences(db, series.id, now);
+  }
+  return spawned;
+};
@@ -0,0 +1,23 @@
+/**
+ * Distances between coordinates, shared by the app (through src/utils/geo.ts)
+ * and the checkIn function, so both measure and describe how far someone is the same way.
+ */
+
+// Distance in km between two coordinates (Haversine formula)
+export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const R = 6371; // Earth's radius in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+};
+
+// Format distance with appropriate units
+export const formatDistance = (distance: number): string => {
+  if (distance < 1) return `${Math.round(distance * 1000)}m`;
+  return `${distance.toFixed(1)}km`;
+};
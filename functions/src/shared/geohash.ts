@@ -0,0 +1,96 @@
+/**
+ * Geohashes for picnic locations, shared by the app (through src/utils/geohash.ts)
+ * and functions that create picnics, so both index locations the same way.
+ */
+
+// Types
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Nine characters pins a spot down to a few metres, more than enough for a picnic
+export const GEOHASH_PRECISION = 9;
+
+const KM_PER_DEGREE_LATITUDE = 110.574;
+const KM_PER_DEGREE_LONGITUDE_AT_EQUATOR = 111.32;
+
+/**
+ * Encode a position as a geohash. Nearby places share a prefix, so a range
+ * query on the hash finds everything inside a cell.
+ */
+export const encodeGeohash = (latitude: number, longitude: number, precision: number = GEOHASH_PRECISION): string => {
+  const latRange = [-90, 90];
+  const lonRange = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // Bits alternate longitude, latitude, starting with longitude
+
+  while (hash.length < precision) {
+    const range = evenBit ? lonRange : latRange;
+    const coordinate = evenBit ? longitude : latitude;
+    const mid = (range[0] + range[1]) / 2;
+    value = value * 2;
+    if (coordinate >= mid) {
+      value += 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+};
+
+// Size of a geohash cell in degrees, latitude gets the odd bits and longitude the even ones
+const cellSize = (precision: number) => ({
+  latitude: 180 / Math.pow(2, Math.floor((precision * 5) / 2)),
+  longitude: 360 / Math.pow(2, Math.ceil((precision * 5) / 2)),
+});
+
+const wrapLongitude = (longitude: number): number => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * The `[start, end]` geohash ranges to query for everything within `radiusKm`
+ * of `center`. Uses the longest hashes whose cells are at least as big as the
+ * circle's bounding box, so it is covered by the cells under its four corners,
+ * at most four ranges. Results still need filtering by actual distance.
+ */
+export const geohashQueryBounds = (center: Coordinates, radiusKm: number): [string, string][] => {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const north = Math.min(center.latitude + latDelta, 90);
+  const south = Math.max(center.latitude - latDelta, -90);
+  // Degrees of longitude shrink away from the equator, so size the box at its widest
+  const widestLatitude = Math.max(Math.abs(north), Math.abs(south));
+  const kmPerDegreeLongitude = KM_PER_DEGREE_LONGITUDE_AT_EQUATOR * Math.cos((widestLatitude * Math.PI) / 180);
+  const lonDelta = kmPerDegreeLongitude > 0 ? radiusKm / kmPerDegreeLongitude : 360;
+
+  let precision = GEOHASH_PRECISION;
+  while (precision > 0) {
+    const size = cellSize(precision);
+    if (size.latitude >= north - south && size.longitude >= 2 * lonDelta) break;
+    precision--;
+  }
+  // The circle is too big for any cell, or wraps a pole, so every picnic is a candidate
+  if (precision === 0) return [["", "~"]];
+
+  const corners = [
+    [north, center.longitude - lonDelta],
+    [north, center.longitude + lonDelta],
+    [south, center.longitude - lonDelta],
+    [south, center.longitude + lonDelta],
+  ];
+  const hashes = new Set(corners.map(([latitude, longitude]) =>
+    encodeGeohash(latitude, wrapLongitude(longitude), precision)
+  ));
+  return Array.from(hashes).sort().map((hash) => [hash, `${hash}~`]);
+};
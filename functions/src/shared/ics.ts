@@ -0,0 +1,137 @@
+/**
+ * iCalendar (RFC 5545) events for scheduled picnics. Shared by the single
+ * picnic export in the app (src/utils/ics.ts) and the subscribable feed in
+ * functions/src/calendar.ts, so both write events the same way. Nothing here
+ * may depend on the browser or on Node.
+ */
+
+// Types
+export interface CalendarPicnic {
+  id: string;
+  name: string;
+  description: string;
+  restaurantName: string;
+  hostId: string;
+  hostName: string;
+  status: string;
+  location: {
+    name: string;
+    address: string;
+    coordinates?: {latitude: number; longitude: number};
+  };
+  start: Date;
+  end: Date;
+  updatedAt: Date;
+}
+
+export interface CalendarAttendee {
+  id: string;
+  name: string | null;
+  rsvpStatus: string;
+}
+
+const PRODUCT_ID = "-//Picnik//Picnics//EN";
+
+// RSVP statuses in src/firebase/participants.ts
+const PARTICIPATION: Record<string, string> = {
+  "invited": "NEEDS-ACTION",
+  "going": "ACCEPTED",
+  "maybe": "TENTATIVE",
+  "declined": "DECLINED",
+  "checked-in": "ACCEPTED",
+  "waitlisted": "TENTATIVE",
+};
+
+// 20250103T123000Z
+const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const quoteParam = (text: string): string => `"${text.replace(/"/g, "'")}"`;
+
+// UTF-8 length of one character, counted by hand to work the same everywhere
+const byteLength = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + byteLength(char) > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += byteLength(char);
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+/**
+ * The VEVENT lines for a picnic. The host is the organizer, everyone else
+ * who answered the invite is an attendee.
+ */
+export const picnicEvent = (
+  picnic: CalendarPicnic,
+  attendees: CalendarAttendee[],
+  appUrl: string,
+  now: Date
+): string[] => {
+  const {location} = picnic;
+  const link = `${appUrl}/picnic/${picnic.id}`;
+  const description = [picnic.name, picnic.description, link].filter(Boolean).join("\n\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${picnic.id}@picnik`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(picnic.start)}`,
+    `DTEND:${formatDateTime(picnic.end)}`,
+    // Edits bump the sequence so calendars replace their copy
+    `SEQUENCE:${Math.floor(picnic.updatedAt.getTime() / 60000)}`,
+    `LAST-MODIFIED:${formatDateTime(picnic.updatedAt)}`,
+    `SUMMARY:${escapeText(picnic.restaurantName || picnic.name || "Picnic")}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText([location.name, location.address].filter(Boolean).join(", "))}`,
+    ...(location.coordinates ?
+      [`GEO:${location.coordinates.latitude};${location.coordinates.longitude}`] :
+      []),
+    `URL:${link}`,
+    `STATUS:${picnic.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+    `ORGANIZER;CN=${quoteParam(picnic.hostName || "Host")}:urn:picnik:user:${picnic.hostId}`,
+    ...attendees
+      .filter((attendee) => attendee.id !== picnic.hostId)
+      .map((attendee) =>
+        `ATTENDEE;CN=${quoteParam(attendee.name || "Guest")};` +
+        `PARTSTAT=${PARTICIPATION[attendee.rsvpStatus] ?? "NEEDS-ACTION"}:` +
+        `urn:picnik:user:${attendee.id}`
+      ),
+    "END:VEVENT",
+  ];
+};
+
+/**
+ * Wrap events into a calendar file, with CRLF line endings and folded lines
+ */
+export const buildCalendar = (events: string[][], name?: string): string =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flat(),
+    "END:VCALENDAR",
+  ].map(foldLine).join("\r\n") + "\r\n";
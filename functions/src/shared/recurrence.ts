@@ -0,0 +1,123 @@
+/**
+ * Pure date rules for recurring picnics, shared by the app (through
+ * src/firebase/recurrence.ts) and the function that creates occurrences.
+ * Occurrences are numbered from 0, the picnic the series was made from, and
+ * keep its wall-clock start time in the series' time zone.
+ */
+
+// Types
+export type RecurrenceFrequency = "weekly" | "biweekly" | "monthly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: Date; // When occurrence 0 starts
+  until: Date | null; // No occurrences start after this
+  timeZone?: string | null; // IANA zone the series keeps its time in, the device's own when missing
+}
+
+interface WallClock {
+  year: number;
+  month: number; // 0 to 11, like Date
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+// The calendar date and time a moment shows as in a time zone
+const wallClockOf = (date: Date, timeZone?: string | null): WallClock => {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    hour12: false,
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: part("year"),
+    month: part("month") - 1,
+    day: part("day"),
+    hours: part("hour") % 24, // Some engines write midnight as 24
+    minutes: part("minute"),
+  };
+};
+
+// The moment a wall-clock time happens in a time zone. Days past the end of the month roll over, like Date.
+const dateAt = (clock: WallClock, timeZone?: string | null): Date => {
+  if (!timeZone) return new Date(clock.year, clock.month, clock.day, clock.hours, clock.minutes);
+
+  const asUtc = Date.UTC(clock.year, clock.month, clock.day, clock.hours, clock.minutes);
+  const offsetAt = (time: number) => {
+    const shown = wallClockOf(new Date(time), timeZone);
+    return Date.UTC(shown.year, shown.month, shown.day, shown.hours, shown.minutes) - Math.floor(time / 60000) * 60000;
+  };
+  // Correct twice, in case the first guess was on the other side of a daylight saving change
+  const guess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(guess));
+};
+
+// Weekday and month length only depend on the calendar date, so UTC does for both
+const weekdayOf = (year: number, month: number, day: number): number => new Date(Date.UTC(year, month, day)).getUTCDay();
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Which of its weekday a day falls on that month, 1 to 4, or 5 for the last one
+export const weekOfMonth = (day: number): number => Math.ceil(day / 7);
+
+/**
+ * When occurrence `index` of a series starts. Monthly series land on the same
+ * weekday of the month as the first, e.g. the 2nd Friday, and a start in the
+ * fifth week means the last one.
+ */
+export const occurrenceDate = (
+  rule: Pick<RecurrenceRule, "frequency" | "startDate" | "timeZone">,
+  index: number
+): Date => {
+  const start = wallClockOf(rule.startDate, rule.timeZone);
+
+  if (rule.frequency !== "monthly") {
+    const days = index * (rule.frequency === "weekly" ? 7 : 14);
+    return dateAt({...start, day: start.day + days}, rule.timeZone);
+  }
+
+  const year = start.year + Math.floor((start.month + index) / 12);
+  const month = (start.month + index) % 12;
+  const startWeekday = weekdayOf(start.year, start.month, start.day);
+  const firstWeekday = 1 + ((startWeekday - weekdayOf(year, month, 1) + 7) % 7);
+  let day = firstWeekday + (weekOfMonth(start.day) - 1) * 7;
+  if (day > daysInMonth(year, month)) day -= 7;
+  return dateAt({...start, year, month, day}, rule.timeZone);
+};
+
+/**
+ * Occurrences starting after `from` and before `to`, leaving out skipped ones
+ * and any past the rule's end
+ */
+export const occurrencesBetween = (
+  rule: RecurrenceRule,
+  from: Date,
+  to: Date,
+  skipped: number[] = []
+): {index: number; date: Date}[] => {
+  const occurrences: {index: number; date: Date}[] = [];
+  const last = rule.until && rule.until < to ? rule.until : to;
+
+  for (let index = 0; ; index++) {
+    const date = occurrenceDate(rule, index);
+    if (date > last) break;
+    if (date > from && !skipped.includes(index)) occurrences.push({index, date});
+  }
+  return occurrences;
+};
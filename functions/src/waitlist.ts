@@ -0,0 +1,72 @@
+import {FieldValue, Firestore} from "firebase-admin/firestore";
+import {notifyAll} from "./notifications.js";
+
+/**
+ * Moves people up off picnic waitlists as spots open, see the waitlist in
+ * src/firebase/participants.ts. Promoting someone changes their RSVP, which
+ * nobody else is allowed to do from the app, so it happens here.
+ */
+
+/**
+ * Whether a picnic, as a snapshot's data, has someone waiting and room for them
+ */
+export const hasWaitlistRoom = (picnic: FirebaseFirestore.DocumentData): boolean => {
+  const waitlistIds: string[] = picnic.waitlistIds ?? [];
+  const capacity: number | null = picnic.capacity ?? null;
+  return waitlistIds.length > 0 &&
+    (picnic.status === "planning" || picnic.status === "active") &&
+    (capacity === null || (picnic.participantCount ?? 0) < capacity);
+};
+
+/**
+ * Lets people in off a picnic's waitlist, as many as there's room for in the
+ * order they asked, and tells them. Anyone on the list who isn't waiting any
+ * more is dropped from it. Returns how many were promoted.
+ */
+export const promoteFromWaitlist = async (db: Firestore, picnicId: string): Promise<number> => {
+  const picnicRef = db.collection("picnics").doc(picnicId);
+
+  const {promotedIds, hostId, name} = await db.runTransaction(async (transaction) => {
+    const picnic = await transaction.get(picnicRef);
+    if (!picnic.exists || !hasWaitlistRoom(picnic.data()!)) return {promotedIds: [], hostId: "", name: ""};
+
+    const waitlistIds: string[] = picnic.get("waitlistIds");
+    const capacity: number | null = picnic.get("capacity") ?? null;
+    const room = capacity === null ? waitlistIds.length : capacity - (picnic.get("participantCount") ?? 0);
+    const candidates = await Promise.all(
+      waitlistIds.slice(0, room).map((userId) => transaction.get(picnicRef.collection("participants").doc(userId)))
+    );
+    const promoted = candidates.filter((participant) => participant.get("rsvpStatus") === "waitlisted");
+    const stale = candidates.filter((participant) => participant.get("rsvpStatus") !== "waitlisted");
+
+    const now = FieldValue.serverTimestamp();
+    promoted.forEach((participant) => {
+      transaction.update(participant.ref, {
+        rsvpStatus: "going",
+        joinedAt: participant.get("joinedAt") ?? now,
+        waitlistedAt: null,
+        updatedAt: now,
+      });
+    });
+
+    const promotedIds = promoted.map((participant) => participant.id);
+    transaction.update(picnicRef, {
+      ...(promotedIds.length > 0 && {
+        participantIds: FieldValue.arrayUnion(...promotedIds),
+        participantCount: FieldValue.increment(promotedIds.length),
+      }),
+      waitlistIds: FieldValue.arrayRemove(...promotedIds, ...stale.map((participant) => participant.id)),
+      updatedAt: now,
+    });
+    return {promotedIds, hostId: picnic.get("hostId"), name: picnic.get("name") || "the picnic"};
+  });
+
+  await notifyAll(db, promotedIds.map((recipientId) => ({
+    type: "picnic_update",
+    senderId: hostId,
+    recipientId,
+    picnicId,
+    message: `A spot opened up at ${name}, you're going!`,
+  })));
+  return promotedIds.length;
+};
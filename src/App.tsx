@@ -1,6 +1,6 @@
 import { Routes, Route, useLocation, Link, Navigate, Outlet } from 'react-router-dom';
-import { HomeIcon, UserGroupIcon, UserIcon, MapPinIcon } from '@heroicons/react/24/outline';
-import { HomeIcon as HomeIconSolid, UserGroupIcon as UserGroupIconSolid, UserIcon as UserIconSolid, MapPinIcon as MapPinIconSolid } from '@heroicons/react/24/solid';
+import { HomeIcon, UserGroupIcon, UserIcon, MapPinIcon, GlobeAltIcon } from '@heroicons/react/24/outline';
+import { HomeIcon as HomeIconSolid, UserGroupIcon as UserGroupIconSolid, UserIcon as UserIconSolid, MapPinIcon as MapPinIconSolid, GlobeAltIcon as GlobeAltIconSolid } from '@heroicons/react/24/solid';
 
 import { FirebaseProvider } from './contexts/FirebaseContext';
 import { ThemeProvider } from './contexts/ThemeContext';
@@ -20,6 +20,9 @@ import PrivateRoute from './components/PrivateRoute';
 import ProfileCompleteRoute from './components/ProfileCompleteRoute';
 import SetUsernamePage from './pages/SetUsernamePage';
 import JoinPicnicPage from './pages/JoinPicnicPage';
+import InvitePage from './pages/InvitePage';
+import PicnicDetailPage from './pages/PicnicDetailPage';
+import DiscoverPage from './pages/DiscoverPage';
 
 // Main app layout with header and tab bar
 function AppLayout() {
@@ -60,6 +63,8 @@ function App() {
                 {/* Protected routes */}
                 <Route element={<AppLayout />}>
   <Route path="/set-username" element={<ProfileCompleteRoute><SetUsernamePage /></ProfileCompleteRoute>} />
+  {/* Signed out guests land here too, the page sends them through login and back */}
+  <Route path="/invite/:token" element={<InvitePage />} />
   <Route path="/join-picnic/:picnicId" element={
     <ProfileCompleteRoute>
       <JoinPicnicPage />
@@ -77,7 +82,9 @@ function App() {
     <Route path="/friends" element={<FriendsTab />} />
     <Route path="/find-friends" element={<FriendsPage />} />
     <Route path="/restaurants" element={<RestaurantsTab />} />
+    <Route path="/discover" element={<DiscoverPage />} />
     <Route path="/profile" element={<ProfileTab />} />
+    <Route path="/picnic/:picnicId" element={<PicnicDetailPage />} />
   </Route>
 </Route>
                 {/* Redirect root to login */}
@@ -124,6 +131,7 @@ function TabBar() {
   const tabs = [
     { name: 'Home', href: '/', icon: HomeIcon, activeIcon: HomeIconSolid },
     { name: 'Restaurants', href: '/restaurants', icon: MapPinIcon, activeIcon: MapPinIconSolid },
+    { name: 'Discover', href: '/discover', icon: GlobeAltIcon, activeIcon: GlobeAltIconSolid },
     { name: 'Friends', href: '/friends', icon: UserGroupIcon, activeIcon: UserGroupIconSolid },
     { name: 'Profile', href: '/profile', icon: UserIcon, activeIcon: UserIconSolid },
   ];
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { calendarFeedUrl, getCalendarFeedToken, resetCalendarFeedToken } from '../firebase/calendarFeed';
+
+interface CalendarFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+// The user's private calendar subscription link, with a way to replace it if it leaks
+const CalendarFeedModal: React.FC<CalendarFeedModalProps> = ({ isOpen, onClose, userId }) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isMounted = true;
+    setIsLoading(true);
+    setError(null);
+    setCopied(false);
+    getCalendarFeedToken(userId)
+      .then(feedToken => {
+        if (isMounted) setToken(feedToken);
+      })
+      .catch(() => {
+        if (isMounted) setError('Failed to load your calendar link. Please try again.');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isOpen, userId]);
+
+  const handleCopy = async () => {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(token));
+      setCopied(true);
+    } catch {
+      setError("Couldn't copy the link, select it and copy it instead");
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setCopied(false);
+      setToken(await resetCalendarFeedToken(userId));
+    } catch {
+      setError('Failed to make a new link. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl max-w-md w-full overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Picnics in your calendar</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <span className="sr-only">Close</span>
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Subscribe to this link in your calendar app and your scheduled picnics show up there,
+            updated when they're changed or cancelled. Anyone with the link can see your picnics.
+          </p>
+
+          {token && (
+            <input
+              readOnly
+              value={calendarFeedUrl(token)}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+            />
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <a
+              href={token ? calendarFeedUrl(token, 'webcal') : undefined}
+              className={`px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 ${!token ? 'opacity-50 pointer-events-none' : ''}`}
+            >
+              Subscribe
+            </a>
+            <button
+              onClick={handleCopy}
+              disabled={!token}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              {copied ? 'Copied' : 'Copy Link'}
+            </button>
+            <button
+              onClick={handleReset}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-50"
+            >
+              Make a New Link
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeedModal;
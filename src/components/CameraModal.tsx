@@ -1,220 +1,203 @@
 import { useRef, useEffect, useState } from 'react';
-import { XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowPathIcon,
+  ArrowsRightLeftIcon,
+  BoltIcon,
+  ClockIcon,
+  PhotoIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { useCameraStream } from '../hooks/useCameraStream';
+import {
+  renderSelfie,
+  DEFAULT_SELFIE_STYLE,
+  SELFIE_FILTERS,
+  SELFIE_FRAMES,
+  type SelfieStyle,
+} from '../utils/selfieStyles';
 
 interface CameraModalProps {
   isOpen: boolean;
   onClose: () => void;
   onPhotoTaken: (imageData: string) => void;
   isLoading?: boolean;
+  uploadProgress?: number | null; // 0 to 1 while the photo uploads
   restaurantName?: string;
 }
 
-const CameraModal: React.FC<CameraModalProps> = ({ 
-  isOpen, 
-  onClose, 
-  onPhotoTaken, 
-  isLoading = false, 
-  restaurantName = 'this location' 
+// Seconds the timer can be set to, 0 takes the photo straight away
+const COUNTDOWN_OPTIONS = [0, 3, 10];
+
+// Torch isn't in the DOM typings yet, only some rear cameras on phones support it
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+const readFileAsDataURL = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const CameraModal: React.FC<CameraModalProps> = ({
+  isOpen,
+  onClose,
+  onPhotoTaken,
+  isLoading = false,
+  uploadProgress = null,
+  restaurantName = 'this location'
 }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [capturedAt, setCapturedAt] = useState<Date>(new Date());
+  // Filters, frame and stamp are applied between taking the photo and confirming it
+  const [style, setStyle] = useState<SelfieStyle>(DEFAULT_SELFIE_STYLE);
+  const [styledImage, setStyledImage] = useState<string | null>(null);
+  const [isStyling, setIsStyling] = useState(false);
+  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [mirrored, setMirrored] = useState(true);
+  const [countdownSeconds, setCountdownSeconds] = useState(0);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [torchOn, setTorchOn] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [cameraError, setCameraError] = useState<boolean>(false);
-
-  // Function to create a black image as fallback
-  const createBlackImage = (): string => {
-    const canvas = document.createElement('canvas');
-    canvas.width = 640;
-    canvas.height = 480;
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.fillStyle = 'black';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      // Add some text to indicate it's a fallback
-      ctx.fillStyle = 'white';
-      ctx.font = '20px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText('Camera not available', canvas.width / 2, canvas.height / 2);
-    }
-    return canvas.toDataURL('image/jpeg');
-  };
 
-  // Start the camera when the modal opens or when the video ref changes
-  useEffect(() => {
-    if (!isOpen) return;
-    
-    console.log('Starting camera...');
-    let isMounted = true;
-    let mediaStream: MediaStream | null = null;
-    let retryCount = 0;
-    const MAX_RETRIES = 2; // Reduced retries since we have a fallback
+  // The camera only runs while framing a shot
+  const { videoRef, stream, devices, error: cameraError, permissionDenied } = useCameraStream(
+    isOpen && !capturedImage && !isLoading,
+    facingMode,
+    deviceId
+  );
 
-    const startCamera = async () => {
-      try {
-        // Skip if already has stream
-        if (stream) return;
+  const track = stream?.getVideoTracks()[0] ?? null;
+  const canUseTorch = !!(track?.getCapabilities?.() as TorchCapabilities | undefined)?.torch;
 
-        // Get the video element first
-        const videoElement = videoRef.current;
-        if (!videoElement) {
-          // If video element is not found, retry a few times with delay
-          if (retryCount < MAX_RETRIES) {
-            retryCount++;
-            console.log(`Video element not found, retrying (${retryCount}/${MAX_RETRIES})...`);
-            await new Promise(resolve => setTimeout(resolve, 300));
-            return startCamera();
-          }
-          // Instead of throwing, set camera error and provide fallback
-          console.warn('Camera not available, using fallback');
-          setCameraError(true);
-          return;
-        }
+  // Start each visit fresh
+  useEffect(() => {
+    if (!isOpen) {
+      setCapturedImage(null);
+      setCountdown(null);
+      setStyle(DEFAULT_SELFIE_STYLE);
+      setError(null);
+    }
+  }, [isOpen]);
 
-        console.log('Requesting camera access...');
-        const constraints: MediaStreamConstraints = {
-          video: { 
-            facingMode: 'user',
-            width: { ideal: 1280 },
-            height: { ideal: 720 }
-          },
-          audio: false,
-        };
-        
-        // Request camera access
-        mediaStream = await navigator.mediaDevices.getUserMedia(constraints);
-        
-        // Check if component is still mounted
-        if (!isMounted) {
-          mediaStream.getTracks().forEach(track => track.stop());
-          return;
-        }
-        
-        console.log('Got media stream:', mediaStream);
-        
-        // Set the stream to state
-        setStream(mediaStream);
-        
-        // Set the video source
-        videoElement.srcObject = mediaStream;
-        
-        // Handle video play
-        const handlePlay = async () => {
-          try {
-            await videoElement.play();
-            console.log('Video playback started');
-          } catch (err) {
-            console.error('Error playing video:', err);
-            setError(`Error starting camera: ${err instanceof Error ? err.message : 'Unknown error'}`);
-          }
-        };
-        
-        // Try to play the video
-        if (videoElement.readyState >= 2) { // HAVE_CURRENT_DATA
-          handlePlay();
-        } else {
-          videoElement.onloadedmetadata = handlePlay;
-        }
-        
-        // Cleanup function for this effect
-        return () => {
-          videoElement.onloadedmetadata = null;
-        };
-      } catch (err) {
-        if (!isMounted) return;
-        
-        const error = err as Error;
-        console.warn('Error accessing camera, using fallback:', error);
-        setCameraError(true);
-        // Don't show error to user since we have a fallback
-      }
-    };
+  // Redraw the styled photo whenever the shot or its style changes
+  useEffect(() => {
+    setStyledImage(null);
+    if (!capturedImage) return;
 
-    // Add a small delay to ensure the component is fully mounted
-    const timer = setTimeout(() => {
-      startCamera();
-    }, 100);
+    let isCurrent = true;
+    setIsStyling(true);
+    renderSelfie(capturedImage, style, { place: restaurantName, date: capturedAt })
+      .then(image => {
+        if (isCurrent) setStyledImage(image);
+      })
+      .catch(err => {
+        // The plain photo is still fine to use
+        console.error('Error styling photo:', err);
+      })
+      .finally(() => {
+        if (isCurrent) setIsStyling(false);
+      });
 
-    // Cleanup function to stop the camera when the modal closes or unmounts
     return () => {
-      clearTimeout(timer);
-      console.log('Cleaning up camera...');
-      isMounted = false;
-      
-      // Stop all tracks in the current stream
-      const stopAllTracks = (s: MediaStream | null) => {
-        if (!s) return;
-        s.getTracks().forEach(track => {
-          console.log('Stopping track:', track.kind);
-          track.stop();
-        });
-      };
-      
-      // Stop any pending media stream
-      if (mediaStream) {
-        console.log('Stopping media stream tracks');
-        stopAllTracks(mediaStream);
-      }
-      
-      // Stop any existing stream from state
-      if (stream) {
-        console.log('Stopping stream from state');
-        stopAllTracks(stream);
-        setStream(null);
-      }
-      
-      // Clear video source
-      const videoElement = videoRef.current;
-      if (videoElement) {
-        videoElement.pause();
-        videoElement.srcObject = null;
-        videoElement.onloadedmetadata = null;
-      }
+      isCurrent = false;
     };
-  }, [isOpen]); // Remove stream from dependencies to prevent double initialization
+  }, [capturedImage, style, restaurantName, capturedAt]);
+
+  // Front cameras are mirrored like a mirror would be, rear cameras aren't.
+  // Desktop webcams don't say which way they face, so they count as front.
+  useEffect(() => {
+    if (!track) return;
+    setMirrored(track.getSettings().facingMode !== 'environment');
+    setTorchOn(false);
+  }, [track]);
 
   const captureImage = () => {
-    if (cameraError) {
-      // If camera failed, create a black image
-      const blackImage = createBlackImage();
-      setCapturedImage(blackImage);
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!video || !canvas || !context || !video.videoWidth) {
+      setError("Couldn't take the photo. Try again or pick one instead.");
       return;
     }
 
-    if (!videoRef.current || !canvasRef.current) {
-      const blackImage = createBlackImage();
-      setCapturedImage(blackImage);
-      return;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    // Save the photo the way it looked on screen
+    if (mirrored) {
+      context.translate(canvas.width, 0);
+      context.scale(-1, 1);
     }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    context.setTransform(1, 0, 0, 1, 0, 0);
 
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
+    setError(null);
+    setCapturedAt(new Date());
+    setCapturedImage(canvas.toDataURL('image/jpeg'));
+  };
 
-    if (!context) {
-      const blackImage = createBlackImage();
-      setCapturedImage(blackImage);
+  // Count down a second at a time, then take the photo
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      captureImage();
       return;
     }
 
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown]);
+
+  const handleTakePhoto = () => {
+    if (countdownSeconds > 0) {
+      setCountdown(countdownSeconds);
+    } else {
+      captureImage();
+    }
+  };
+
+  // Go through every camera when we know about them, otherwise flip between front and back
+  const switchCamera = () => {
+    const currentId = track?.getSettings().deviceId;
+    if (devices.length > 1 && currentId) {
+      const index = devices.findIndex(device => device.deviceId === currentId);
+      setDeviceId(devices[(index + 1) % devices.length].deviceId);
+    } else {
+      setDeviceId(null);
+      setFacingMode(current => (current === 'user' ? 'environment' : 'user'));
+    }
+  };
+
+  const toggleTorch = async () => {
+    if (!track) return;
     try {
-      // Set canvas dimensions
-      const width = video.videoWidth || 640;
-      const height = video.videoHeight || 480;
-      canvas.width = width;
-      canvas.height = height;
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] });
+      setTorchOn(!torchOn);
+    } catch (err) {
+      console.error('Error toggling flash:', err);
+    }
+  };
 
-      // Draw video frame to canvas
-      context.drawImage(video, 0, 0, width, height);
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
 
-      // Convert canvas to data URL and set as captured image
-      const imageData = canvas.toDataURL('image/jpeg');
-      setCapturedImage(imageData);
+    if (!file.type.startsWith('image/')) {
+      setError('Pick a photo');
+      return;
+    }
+    try {
+      setError(null);
+      setCapturedAt(new Date());
+      setCapturedImage(await readFileAsDataURL(file));
     } catch (err) {
-      console.error('Error capturing image, using fallback:', err);
-      const blackImage = createBlackImage();
-      setCapturedImage(blackImage);
+      console.error('Error reading photo:', err);
+      setError("That photo couldn't be read. Try a different one.");
     }
   };
 
@@ -224,6 +207,9 @@ const CameraModal: React.FC<CameraModalProps> = ({
 
   if (!isOpen) return null;
 
+  const isCountingDown = countdown !== null;
+  const controlClassName = 'p-2 rounded-full bg-black bg-opacity-50 text-white hover:bg-opacity-70 disabled:opacity-50';
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-gray-800 rounded-xl max-w-md w-full overflow-hidden">
@@ -249,64 +235,181 @@ const CameraModal: React.FC<CameraModalProps> = ({
           {isLoading ? (
             <div className="h-64 flex flex-col items-center justify-center bg-gray-100 dark:bg-gray-700 rounded-lg">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mb-4"></div>
-              <p className="text-gray-700 dark:text-gray-300">Creating your picnic...</p>
+              <p className="text-gray-700 dark:text-gray-300">
+                {uploadProgress !== null && uploadProgress < 1
+                  ? `Uploading photo... ${Math.round(uploadProgress * 100)}%`
+                  : 'Creating your picnic...'}
+              </p>
+              {uploadProgress !== null && (
+                <div className="mt-3 w-48 h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(uploadProgress * 100)}%` }} />
+                </div>
+              )}
             </div>
           ) : (
             <>
               <div className="relative bg-black rounded-lg overflow-hidden mb-4" style={{ height: '400px' }}>
-                {!capturedImage ? (
-                  !stream ? (
-                    <div className="h-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
-                      <p className="text-gray-500 dark:text-gray-400">Loading camera...</p>
-                    </div>
-                  ) : (
-                    <div className="relative h-full w-full flex items-center justify-center bg-black">
-                      {cameraError ? (
-                        <div className="h-full w-full flex items-center justify-center bg-black">
-                          <div className="text-white text-center p-4">
-                            <p>Camera not available</p>
-                            <p className="text-sm opacity-75">A black image will be used</p>
-                          </div>
-                        </div>
-                      ) : (
-                        <video 
-                          ref={videoRef}
-                          autoPlay
-                          playsInline
-                          muted
-                          className="h-full w-auto max-w-full object-contain"
-                          style={{ transform: 'scaleX(-1)' }} // Mirror the video
-                        />
+                {capturedImage ? (
+                  <img
+                    src={styledImage ?? capturedImage}
+                    alt="Captured"
+                    className={`w-full h-full object-contain transition-opacity ${isStyling ? 'opacity-75' : ''}`}
+                  />
+                ) : cameraError ? (
+                  <div className="h-full flex flex-col items-center justify-center bg-gray-100 dark:bg-gray-700 p-6 text-center">
+                    <p className="text-gray-900 dark:text-white font-medium">
+                      {permissionDenied ? 'Camera access is blocked' : 'No camera available'}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                      {permissionDenied
+                        ? 'Allow camera access in your browser settings, or pick a photo instead.'
+                        : 'You can pick a photo instead.'}
+                    </p>
+                  </div>
+                ) : !stream ? (
+                  <div className="h-full flex items-center justify-center bg-gray-200 dark:bg-gray-700">
+                    <p className="text-gray-500 dark:text-gray-400">Loading camera...</p>
+                  </div>
+                ) : (
+                  <div className="relative h-full w-full flex items-center justify-center bg-black">
+                    <video
+                      ref={videoRef}
+                      autoPlay
+                      playsInline
+                      muted
+                      className="h-full w-auto max-w-full object-contain"
+                      style={mirrored ? { transform: 'scaleX(-1)' } : undefined}
+                    />
+                    <div className="absolute top-3 right-3 flex flex-col space-y-2">
+                      <button
+                        onClick={switchCamera}
+                        disabled={isCountingDown}
+                        className={controlClassName}
+                        aria-label="Switch camera"
+                      >
+                        <ArrowPathIcon className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => setMirrored(!mirrored)}
+                        className={`${controlClassName} ${mirrored ? 'ring-2 ring-white' : ''}`}
+                        aria-label={mirrored ? 'Stop mirroring' : 'Mirror'}
+                        aria-pressed={mirrored}
+                      >
+                        <ArrowsRightLeftIcon className="h-5 w-5" />
+                      </button>
+                      {canUseTorch && (
+                        <button
+                          onClick={toggleTorch}
+                          className={`${controlClassName} ${torchOn ? 'ring-2 ring-yellow-300' : ''}`}
+                          aria-label={torchOn ? 'Turn flash off' : 'Turn flash on'}
+                          aria-pressed={torchOn}
+                        >
+                          <BoltIcon className="h-5 w-5" />
+                        </button>
                       )}
+                      <button
+                        onClick={() => setCountdownSeconds(
+                          COUNTDOWN_OPTIONS[(COUNTDOWN_OPTIONS.indexOf(countdownSeconds) + 1) % COUNTDOWN_OPTIONS.length]
+                        )}
+                        disabled={isCountingDown}
+                        className={`${controlClassName} flex items-center`}
+                        aria-label="Timer"
+                      >
+                        <ClockIcon className="h-5 w-5" />
+                        {countdownSeconds > 0 && <span className="ml-1 text-xs">{countdownSeconds}s</span>}
+                      </button>
+                    </div>
+                    {isCountingDown ? (
+                      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <span className="text-white text-7xl font-bold drop-shadow-lg">{countdown}</span>
+                      </div>
+                    ) : (
                       <div className="absolute bottom-4 left-0 right-0 flex justify-center">
                         <div className="bg-black bg-opacity-50 text-white px-4 py-2 rounded-full text-sm">
                           Position your face in the frame
                         </div>
                       </div>
-                    </div>
-                  )
-                ) : (
-                  <div className="relative h-full w-full">
-                    <img 
-                      src={capturedImage} 
-                      alt="Captured" 
-                      className="w-full h-full object-cover"
-                    />
+                    )}
                   </div>
                 )}
               </div>
 
+              {capturedImage && (
+                <div className="mb-4 space-y-2">
+                  <div className="flex space-x-2 overflow-x-auto pb-1">
+                    {SELFIE_FILTERS.map(filter => (
+                      <button
+                        key={filter.id}
+                        onClick={() => setStyle(current => ({ ...current, filter: filter.id }))}
+                        className={`px-3 py-1 text-sm rounded-full whitespace-nowrap ${
+                          style.filter === filter.id
+                            ? 'bg-blue-500 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600'
+                        }`}
+                      >
+                        {filter.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex space-x-2 overflow-x-auto pb-1">
+                    {SELFIE_FRAMES.map(frame => (
+                      <button
+                        key={frame.id}
+                        onClick={() => setStyle(current => ({ ...current, frame: frame.id }))}
+                        className={`px-3 py-1 text-sm rounded-full whitespace-nowrap ${
+                          style.frame === frame.id
+                            ? 'bg-blue-500 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600'
+                        }`}
+                      >
+                        {frame.label}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={style.stamp}
+                      onChange={(e) => setStyle(current => ({ ...current, stamp: e.target.checked }))}
+                      className="mr-2"
+                    />
+                    Stamp with {restaurantName} and the date
+                  </label>
+                </div>
+              )}
+
               <div className="flex justify-center space-x-4">
                 {!capturedImage ? (
-                  <button
-                    onClick={captureImage}
-                    disabled={isLoading}
-                    className={`px-4 py-2 bg-blue-500 text-white rounded-lg ${
-                      isLoading ? 'opacity-50 cursor-not-allowed' : 'hover:bg-blue-600'
-                    }`}
-                  >
-                    {cameraError ? 'Use Fallback Image' : 'Take Photo'}
-                  </button>
+                  <>
+                    {!cameraError && (
+                      <button
+                        onClick={isCountingDown ? () => setCountdown(null) : handleTakePhoto}
+                        disabled={!stream}
+                        className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isCountingDown ? 'Stop Timer' : 'Take Photo'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isCountingDown}
+                      className={`px-4 py-2 rounded-lg flex items-center disabled:opacity-50 ${
+                        cameraError
+                          ? 'bg-blue-500 text-white hover:bg-blue-600'
+                          : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      <PhotoIcon className="h-5 w-5 mr-1" />
+                      Pick a Photo
+                    </button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*"
+                      onChange={handleFileChange}
+                      className="hidden"
+                    />
+                  </>
                 ) : (
                   <div className="flex space-x-4">
                     <button
@@ -317,16 +420,16 @@ const CameraModal: React.FC<CameraModalProps> = ({
                       Retake
                     </button>
                     <button
-                      onClick={() => onPhotoTaken(capturedImage)}
+                      onClick={() => onPhotoTaken(styledImage ?? capturedImage)}
                       className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
-                      disabled={isLoading}
+                      disabled={isLoading || isStyling}
                     >
                       Use This Photo
                     </button>
                   </div>
                 )}
               </div>
-              
+
               {error && (
                 <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm rounded-lg">
                   {error}
@@ -336,6 +439,7 @@ const CameraModal: React.FC<CameraModalProps> = ({
           )}
         </div>
       </div>
+      <canvas ref={canvasRef} className="hidden" />
     </div>
   );
 };
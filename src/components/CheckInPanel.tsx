@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CheckBadgeIcon, MapPinIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_AVATAR_URL, type Picnic } from '../firebase/picnics';
+import { isAttending, type PicnicParticipant } from '../firebase/participants';
+import {
+  checkIn,
+  isCheckInOpen,
+  setCheckInRadius,
+  CHECK_IN_RADIUS_OPTIONS,
+  DEFAULT_CHECK_IN_RADIUS,
+} from '../firebase/checkIn';
+import { formatDistance, getCurrentPosition } from '../utils/geo';
+
+interface CheckInPanelProps {
+  picnic: Picnic;
+  participants: PicnicParticipant[];
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+const CheckInPanel: React.FC<CheckInPanelProps> = ({ picnic, participants }) => {
+  const { currentUser } = useAuth();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!currentUser || picnic.status === 'cancelled' || picnic.status === 'completed') return null;
+
+  const isHost = currentUser.uid === picnic.hostId;
+  const me = participants.find(participant => participant.id === currentUser.uid);
+  const arrived = participants
+    .filter(participant => participant.rsvpStatus === 'checked-in')
+    .sort((a, b) => (a.checkedInAt?.getTime() ?? 0) - (b.checkedInAt?.getTime() ?? 0));
+  const expected = participants.filter(participant => isAttending(participant.rsvpStatus)).length;
+
+  if (picnic.checkInRadius === null) {
+    if (!isHost || !picnic.location.coordinates) return null;
+    return (
+      <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-700 dark:text-gray-300">Let people check in when they arrive</p>
+          <button
+            onClick={() => run(() => setCheckInRadius(picnic.id, currentUser.uid, DEFAULT_CHECK_IN_RADIUS))}
+            disabled={isSaving}
+            className="ml-2 px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50 whitespace-nowrap"
+          >
+            Turn on check-in
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    );
+  }
+
+  const handleCheckIn = () => run(async () => {
+    const position = await getCurrentPosition();
+    await checkIn(picnic.id, {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+    });
+  });
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center">
+          <CheckBadgeIcon className="h-5 w-5 mr-1" />
+          {arrived.length} of {expected} arrived
+        </h3>
+        {isHost && (
+          <select
+            value={picnic.checkInRadius}
+            onChange={(e) => run(() => setCheckInRadius(
+              picnic.id,
+              currentUser.uid,
+              e.target.value === 'off' ? null : Number(e.target.value)
+            ))}
+            disabled={isSaving}
+            className={`${inputClassName} py-1`}
+            aria-label="Check-in radius"
+          >
+            {CHECK_IN_RADIUS_OPTIONS.map(radius => (
+              <option key={radius} value={radius}>Within {formatDistance(radius / 1000)}</option>
+            ))}
+            <option value="off">Turn off check-in</option>
+          </select>
+        )}
+      </div>
+
+      {arrived.length > 0 && (
+        <ul className="space-y-1">
+          {arrived.map(participant => (
+            <li key={participant.id} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <img
+                src={participant.picnicPhotoURL || participant.photoURL || DEFAULT_AVATAR_URL}
+                alt={participant.name || 'Participant'}
+                className="h-6 w-6 rounded-full object-cover mr-2"
+              />
+              <span className="flex-1 truncate">{participant.name || 'Participant'}</span>
+              {participant.checkedInAt && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">{format(participant.checkedInAt, 'h:mm a')}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {me && isAttending(me.rsvpStatus) && me.rsvpStatus !== 'checked-in' && (
+        isCheckInOpen(picnic) ? (
+          <button
+            onClick={handleCheckIn}
+            disabled={isSaving}
+            className="w-full flex items-center justify-center px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+          >
+            <MapPinIcon className="h-5 w-5 mr-1" />
+            {isSaving ? 'Finding you...' : "I'm here, check in"}
+          </button>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Check in within {formatDistance(picnic.checkInRadius / 1000)} of the spot once the picnic is about to start.
+          </p>
+        )
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default CheckInPanel;
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { validatePicnicSchedule, type Picnic, type PicnicUpdate, type PicnicVisibility } from '../firebase/picnics';
+import PicnicVisibilitySelect from './PicnicVisibilitySelect';
+
+interface EditPicnicModalProps {
+  picnic: Picnic | null;
+  onClose: () => void;
+  onSave: (updates: PicnicUpdate) => void;
+  isLoading?: boolean;
+}
+
+// <input type="datetime-local"> works with local time strings without a timezone
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const EditPicnicModal: React.FC<EditPicnicModalProps> = ({
+  picnic,
+  onClose,
+  onSave,
+  isLoading = false
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [rsvpBy, setRsvpBy] = useState('');
+  const [visibility, setVisibility] = useState<PicnicVisibility>('private');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the picnic's current details every time the modal opens
+  useEffect(() => {
+    if (!picnic) return;
+
+    setName(picnic.name);
+    setDescription(picnic.description);
+    setStartsAt(picnic.date ? toInputValue(picnic.date) : '');
+    setRsvpBy(picnic.rsvpDeadline ? toInputValue(picnic.rsvpDeadline) : '');
+    setVisibility(picnic.visibility);
+    setError(null);
+  }, [picnic]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!picnic) return;
+
+    if (!name.trim()) {
+      setError('Give the picnic a name');
+      return;
+    }
+
+    const updates: PicnicUpdate = { name: name.trim(), description: description.trim() };
+    if (visibility !== picnic.visibility) updates.visibility = visibility;
+
+    // Only scheduled picnics that haven't started can move
+    if (picnic.status === 'planning') {
+      const date = startsAt ? new Date(startsAt) : null;
+      const rsvpDeadline = rsvpBy ? new Date(rsvpBy) : null;
+      const scheduleError = validatePicnicSchedule({ date, endDate: picnic.endDate, rsvpDeadline });
+      if (scheduleError || !date) {
+        setError(scheduleError);
+        return;
+      }
+      if (date.getTime() !== picnic.date?.getTime()) updates.date = date;
+      if (rsvpDeadline?.getTime() !== picnic.rsvpDeadline?.getTime()) updates.rsvpDeadline = rsvpDeadline;
+    }
+
+    setError(null);
+    onSave(updates);
+  };
+
+  if (!picnic) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl max-w-md w-full overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Edit picnic at {picnic.restaurantName}
+            </h3>
+            {!isLoading && (
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+              >
+                <span className="sr-only">Close</span>
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              maxLength={80}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Description <span className="text-gray-400">(optional)</span>
+            </label>
+            <textarea
+              value={description}
+              rows={3}
+              maxLength={500}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+
+          {picnic.status === 'planning' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Date and time
+                </label>
+                <input
+                  type="datetime-local"
+                  value={startsAt}
+                  min={toInputValue(new Date())}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  RSVP by <span className="text-gray-400">(optional)</span>
+                </label>
+                <input
+                  type="datetime-local"
+                  value={rsvpBy}
+                  min={toInputValue(new Date())}
+                  max={startsAt || undefined}
+                  onChange={(e) => setRsvpBy(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+            </>
+          )}
+
+          <PicnicVisibilitySelect value={visibility} onChange={setVisibility} disabled={isLoading} />
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditPicnicModal;
@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react';
+import { XMarkIcon, ClipboardDocumentIcon, NoSymbolIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import type { Picnic } from '../firebase/picnics';
+import {
+  createInviteLink,
+  getInviteLinkStatus,
+  inviteLinkUrl,
+  revokeInviteLink,
+  subscribeToInviteLinks,
+  type InviteLink,
+  type InviteLinkStatus,
+} from '../firebase/inviteLinks';
+
+interface InviteLinksModalProps {
+  picnic: Picnic | null;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 24 * 60 * 60 * 1000, label: '1 day' },
+  { value: 7 * 24 * 60 * 60 * 1000, label: '7 days' },
+  { value: 0, label: 'Never' },
+];
+
+const MAX_USE_OPTIONS = [
+  { value: 0, label: 'No limit' },
+  { value: 1, label: '1 person' },
+  { value: 5, label: '5 people' },
+  { value: 10, label: '10 people' },
+];
+
+const STATUS_LABELS: Record<Exclude<InviteLinkStatus, 'active'>, string> = {
+  revoked: 'Turned off',
+  expired: 'Expired',
+  'used-up': 'Used up',
+};
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm dark:bg-gray-700 dark:text-white';
+
+const InviteLinksModal: React.FC<InviteLinksModalProps> = ({ picnic, onClose }) => {
+  const { currentUser } = useAuth();
+  const [links, setLinks] = useState<InviteLink[]>([]);
+  const [expiresInMs, setExpiresInMs] = useState(EXPIRY_OPTIONS[1].value);
+  const [maxUses, setMaxUses] = useState(MAX_USE_OPTIONS[0].value);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!picnic) return;
+
+    setError(null);
+    const unsubscribe = subscribeToInviteLinks(
+      picnic.id,
+      setLinks,
+      () => setError('Failed to load invite links')
+    );
+    return () => unsubscribe();
+  }, [picnic]);
+
+  const handleCopy = async (token: string) => {
+    const url = inviteLinkUrl(token);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: picnic?.name, text: `Join ${picnic?.name} on Picnik`, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setCopiedToken(token);
+      }
+    } catch (err) {
+      // Dismissing the share sheet lands here too
+      console.error('Error sharing invite link:', err);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!picnic || !currentUser) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const link = await createInviteLink(picnic.id, currentUser.uid, {
+        expiresInMs: expiresInMs || null,
+        maxUses: maxUses || null,
+      });
+      await handleCopy(link.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invite link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    if (!currentUser) return;
+
+    try {
+      await revokeInviteLink(token, currentUser.uid);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off invite link');
+    }
+  };
+
+  if (!picnic) return null;
+
+  const isHost = currentUser?.uid === picnic.hostId;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl max-w-md w-full overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Invite links for {picnic.name}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+            >
+              <span className="sr-only">Close</span>
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Expires after
+              </label>
+              <select
+                value={expiresInMs}
+                onChange={(e) => setExpiresInMs(Number(e.target.value))}
+                className={selectClassName}
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Can be used by
+              </label>
+              <select
+                value={maxUses}
+                onChange={(e) => setMaxUses(Number(e.target.value))}
+                className={selectClassName}
+              >
+                {MAX_USE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={handleCreate}
+            disabled={isSaving}
+            className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Creating...' : 'Create and Share Link'}
+          </button>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {links.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {links.map(link => {
+                const status = getInviteLinkStatus(link);
+                const isActive = status === 'active';
+                const canRevoke = !link.revoked && (isHost || link.createdBy === currentUser?.uid);
+                return (
+                  <li key={link.id} className="py-2 flex items-center justify-between">
+                    <div className="min-w-0 text-sm">
+                      <p className={isActive ? 'text-gray-900 dark:text-white' : 'text-gray-400 line-through'}>
+                        …{link.id.slice(-6)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {status === 'active'
+                          ? [
+                              `${link.uses}${link.maxUses !== null ? `/${link.maxUses}` : ''} joined`,
+                              link.expiresAt ? `expires ${format(link.expiresAt, 'MMM d, h:mm a')}` : 'never expires',
+                            ].join(' · ')
+                          : `${STATUS_LABELS[status]} · ${link.uses} joined`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {isActive && (
+                        <button
+                          onClick={() => handleCopy(link.id)}
+                          className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+                          aria-label="Copy invite link"
+                        >
+                          {copiedToken === link.id
+                            ? <span className="text-xs text-blue-500">Copied</span>
+                            : <ClipboardDocumentIcon className="h-4 w-4" />}
+                        </button>
+                      )}
+                      {canRevoke && (
+                        <button
+                          onClick={() => handleRevoke(link.id)}
+                          className="p-2 text-gray-400 hover:text-red-500"
+                          aria-label="Turn off invite link"
+                        >
+                          <NoSymbolIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InviteLinksModal;
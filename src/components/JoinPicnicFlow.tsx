@@ -2,37 +2,27 @@ import { useState, useCallback, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useFirebase } from '../contexts/FirebaseContext';
 import CameraModal from './CameraModal';
-import { DocumentData } from 'firebase/firestore';
-
-interface Participant {
-  id: string;
-  name: string | null;
-  photoURL: string | null;
-  picnicPhotoURL?: string;
-  joinedAt?: any;
-}
-
-interface PicnicData extends DocumentData {
-  hostName: string;
-  restaurantName: string;
-  participants?: Participant[];
-  updatedAt?: any;
-  status?: string;
-}
+import { getPicnic, type Picnic } from '../firebase/picnics';
+import { joinPicnic } from '../firebase/participants';
+import { redeemInviteLink } from '../firebase/inviteLinks';
+import { uploadImage } from '../firebase/images';
 
 interface JoinPicnicFlowProps {
   picnicId: string;
+  inviteToken?: string; // Set when joining through an invite link
   onComplete: () => void;
 }
 
-const JoinPicnicFlow: React.FC<JoinPicnicFlowProps> = ({ picnicId, onComplete }) => {
+const JoinPicnicFlow: React.FC<JoinPicnicFlowProps> = ({ picnicId, inviteToken, onComplete }) => {
   const { currentUser } = useAuth();
   const firebase = useFirebase();
   
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCamera, setShowCamera] = useState(false);
-  const [picnicData, setPicnicData] = useState<PicnicData | null>(null);
+  const [picnicData, setPicnicData] = useState<Picnic | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
   
   if (!firebase) {
     throw new Error('Firebase context not available');
@@ -44,17 +34,12 @@ const JoinPicnicFlow: React.FC<JoinPicnicFlowProps> = ({ picnicId, onComplete })
       if (!picnicId) return;
       
       try {
-        const data = await firebase.getDocument<PicnicData>('picnics', picnicId);
+        const data = await getPicnic(picnicId);
         if (!data) {
           throw new Error('Picnic not found');
         }
         
-        setPicnicData({
-          ...data,
-          hostName: data.hostName,
-          restaurantName: data.restaurantName,
-          participants: data.participants || []
-        });
+        setPicnicData(data);
         
         // Show camera after a short delay
         setTimeout(() => setShowCamera(true), 500);
@@ -76,51 +61,30 @@ const JoinPicnicFlow: React.FC<JoinPicnicFlowProps> = ({ picnicId, onComplete })
     setError(null);
     
     try {
-      if (!firebase.storage) {
-        throw new Error('Firebase Storage is not available');
-      }
-
-      // 1. Upload the image to Firebase Storage
-      const response = await fetch(imageData);
-      const blob = await response.blob();
-      const filePath = `picnics/${picnicId}/participants/${currentUser.uid}_${Date.now()}.jpg`;
-      const fileRef = firebase.ref(firebase.storage, filePath);
-      await firebase.uploadBytes(fileRef, blob);
-      
-      // 2. Get the download URL
-      const photoURL = await firebase.getDownloadURL(fileRef);
-      
-      // 3. Get current participants or initialize empty array
-      const currentPicnic = await firebase.getDocument<PicnicData>('picnics', picnicId);
-      const currentParticipants = currentPicnic?.participants || [];
+      // 1. Compress the selfie and upload it with a thumbnail
+      setUploadProgress(0);
+      const { url: photoURL } = await uploadImage(
+        `picnics/${picnicId}/participants/${currentUser.uid}_${Date.now()}.jpg`,
+        imageData,
+        { onProgress: setUploadProgress }
+      );
       
-      // 4. Check if user is already a participant
-      const existingParticipantIndex = currentParticipants.findIndex((p: Participant) => p.id === currentUser.uid);
-      
-      // 5. Create participant data
-      const participantData: Participant = {
+      // 2. Join the picnic, the transaction keeps concurrent joins from clobbering each other
+      const profile = {
         id: currentUser.uid,
         name: currentUser.displayName || 'Friend',
-        photoURL: currentUser.photoURL || '',
-        picnicPhotoURL: photoURL,
-        joinedAt: firebase.serverTimestamp()
+        photoURL: currentUser.photoURL || ''
       };
+      const result = inviteToken
+        ? await redeemInviteLink(inviteToken, profile, photoURL)
+        : await joinPicnic(picnicId, profile, photoURL);
       
-      // 6. Update participants array
-      const updatedParticipants = [...currentParticipants];
-      if (existingParticipantIndex >= 0) {
-        updatedParticipants[existingParticipantIndex] = participantData;
-      } else {
-        updatedParticipants.push(participantData);
+      // 3. Complete the flow, unless the picnic was full and they're waiting for a spot
+      if (result.rsvpStatus === 'waitlisted') {
+        setShowCamera(false);
+        setWaitlistPosition(result.waitlistPosition);
+        return;
       }
-      
-      // 7. Update the picnic document in Firestore
-      await firebase.updateDocument('picnics', picnicId, {
-        participants: updatedParticipants,
-        updatedAt: firebase.serverTimestamp()
-      });
-      
-      // 8. Complete the flow
       onComplete();
       
     } catch (err) {
@@ -129,8 +93,9 @@ const JoinPicnicFlow: React.FC<JoinPicnicFlowProps> = ({ picnicId, onComplete })
       setError(`Error: ${errorMessage}. Please try again.`);
     } finally {
       setIsLoading(false);
+      setUploadProgress(null);
     }
-  }, [currentUser, picnicId, picnicData, onComplete, firebase]);
+  }, [currentUser, picnicId, inviteToken, picnicData, onComplete]);
 
   if (isLoading && !showCamera) {
     return (
@@ -140,6 +105,23 @@ const JoinPicnicFlow: React.FC<JoinPicnicFlowProps> = ({ picnicId, onComplete })
     );
   }
 
+  if (waitlistPosition !== null) {
+    return (
+      <div className="p-4 bg-yellow-50 text-yellow-800 rounded-lg">
+        <p className="font-medium">This picnic is full</p>
+        <p className="mt-1">
+          You're #{waitlistPosition} on the waitlist. We'll let you know as soon as a spot opens up.
+        </p>
+        <button 
+          onClick={onComplete}
+          className="mt-4 px-4 py-2 bg-yellow-100 hover:bg-yellow-200 rounded-md"
+        >
+          Got it
+        </button>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="p-4 bg-red-50 text-red-700 rounded-lg">
@@ -168,6 +150,7 @@ const JoinPicnicFlow: React.FC<JoinPicnicFlowProps> = ({ picnicId, onComplete })
           onClose={() => {}}
           onPhotoTaken={handlePhotoTaken}
           isLoading={isLoading}
+          uploadProgress={uploadProgress}
           restaurantName={picnicData?.restaurantName || 'the picnic'}
         />
       </div>
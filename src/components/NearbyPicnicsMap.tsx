@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import mapsService from '../services/mapsService';
+import type { NearbyPicnic } from '../firebase/discovery';
+import { formatDistance, type Coordinates } from '../utils/geo';
+
+interface NearbyPicnicsMapProps {
+  center: Coordinates;
+  radiusKm: number;
+  nearby: NearbyPicnic[];
+  onSelect: (picnicId: string) => void;
+}
+
+// The search area with a marker for each picnic in it
+const NearbyPicnicsMap: React.FC<NearbyPicnicsMapProps> = ({ center, radiusKm, nearby, onSelect }) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    let isMounted = true;
+    mapsService.initMap(mapRef.current, {
+      center: { lat: center.latitude, lng: center.longitude },
+      zoom: 12,
+      mapTypeControl: false,
+      streetViewControl: false,
+      fullscreenControl: false,
+      clickableIcons: false,
+    })
+      .then(newMap => {
+        if (isMounted) setMap(newMap);
+      })
+      .catch(() => {
+        if (isMounted) setError('Map unavailable');
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [center]);
+
+  // Redrawn whenever the area or the picnics in it change
+  useEffect(() => {
+    if (!map) return;
+
+    const position = { lat: center.latitude, lng: center.longitude };
+    const area = new window.google.maps.Circle({
+      map,
+      center: position,
+      radius: radiusKm * 1000,
+      strokeColor: '#3b82f6',
+      strokeOpacity: 0.6,
+      strokeWeight: 1,
+      fillColor: '#3b82f6',
+      fillOpacity: 0.08,
+      clickable: false,
+    });
+    map.fitBounds(area.getBounds()!, 16);
+
+    const markers = nearby.flatMap(({ picnic, distance }) => {
+      const coordinates = picnic.location.coordinates;
+      if (!coordinates) return [];
+      const marker = new window.google.maps.Marker({
+        position: { lat: coordinates.latitude, lng: coordinates.longitude },
+        map,
+        title: `${picnic.name} · ${formatDistance(distance)}`,
+      });
+      marker.addListener('click', () => onSelect(picnic.id));
+      return [marker];
+    });
+
+    return () => {
+      area.setMap(null);
+      markers.forEach(marker => marker.setMap(null));
+    };
+  }, [map, center, radiusKm, nearby, onSelect]);
+
+  return (
+    <div className="rounded-lg overflow-hidden shadow bg-white dark:bg-gray-800">
+      <div ref={mapRef} className="w-full h-56 bg-gray-100 dark:bg-gray-700">
+        {error && (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NearbyPicnicsMap;
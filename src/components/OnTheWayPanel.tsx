@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { SignalIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_AVATAR_URL, type Picnic } from '../firebase/picnics';
+import { isAttending, type PicnicParticipant } from '../firebase/participants';
+import {
+  estimateEtaMinutes,
+  formatEta,
+  isSharingOpen,
+  DEFAULT_SHARING_WINDOW,
+  SHARING_WINDOW_OPTIONS,
+  type ParticipantPresence,
+} from '../firebase/presence';
+import { useLocationSharing } from '../hooks/useLocationSharing';
+import { calculateDistance, formatDistance } from '../utils/geo';
+
+interface OnTheWayPanelProps {
+  picnic: Picnic;
+  participants: PicnicParticipant[];
+  presence: ParticipantPresence[];
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+// Who's heading to the picnic, how far out they are, and a switch to share your own location
+const OnTheWayPanel: React.FC<OnTheWayPanelProps> = ({ picnic, participants, presence }) => {
+  const { currentUser } = useAuth();
+  const [windowMinutes, setWindowMinutes] = useState(DEFAULT_SHARING_WINDOW);
+
+  const me = participants.find(participant => participant.id === currentUser?.uid);
+  const myPresence = presence.find(person => person.id === currentUser?.uid);
+  const { isSharing, isStarting, error, start, stop } = useLocationSharing(
+    picnic.id,
+    currentUser
+      ? { id: currentUser.uid, name: currentUser.displayName || null, photoURL: currentUser.photoURL || null }
+      : null,
+    myPresence,
+    me?.rsvpStatus === 'checked-in' || picnic.status === 'completed' || picnic.status === 'cancelled'
+  );
+
+  const spot = picnic.location.coordinates;
+  if (!currentUser || !spot || !isSharingOpen(picnic)) return null;
+
+  const canShare = !!me && isAttending(me.rsvpStatus) && me.rsvpStatus !== 'checked-in';
+  if (presence.length === 0 && !canShare) return null;
+
+  const onTheWay = presence
+    .map(person => ({
+      person,
+      distance: calculateDistance(person.latitude, person.longitude, spot.latitude, spot.longitude),
+    }))
+    .sort((a, b) => a.distance - b.distance);
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow space-y-3">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center">
+        <SignalIcon className="h-5 w-5 mr-1" />
+        On the way
+      </h3>
+
+      {onTheWay.length > 0 ? (
+        <ul className="space-y-1">
+          {onTheWay.map(({ person, distance }) => (
+            <li key={person.id} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <img
+                src={person.photoURL || DEFAULT_AVATAR_URL}
+                alt={person.name || 'Participant'}
+                className="h-6 w-6 rounded-full object-cover mr-2"
+              />
+              <span className="flex-1 truncate">{person.name || 'Participant'}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatDistance(distance)} · {formatEta(estimateEtaMinutes(distance))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Nobody is sharing their location yet.</p>
+      )}
+
+      {canShare && (
+        isSharing ? (
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Sharing until {myPresence && format(myPresence.expiresAt, 'h:mm a')} or you check in
+            </p>
+            <button
+              onClick={stop}
+              className="ml-2 px-3 py-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+            >
+              Stop sharing
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <select
+              value={windowMinutes}
+              onChange={(e) => setWindowMinutes(Number(e.target.value))}
+              className={`${inputClassName} py-1`}
+              aria-label="Share for"
+            >
+              {SHARING_WINDOW_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>For {minutes} min</option>
+              ))}
+            </select>
+            <button
+              onClick={() => start(windowMinutes)}
+              disabled={isStarting}
+              className="flex-1 px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isStarting ? 'Finding you...' : 'Share my location'}
+            </button>
+          </div>
+        )
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default OnTheWayPanel;
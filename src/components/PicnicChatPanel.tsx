@@ -0,0 +1,264 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { PaperAirplaneIcon, PhotoIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { format, isToday } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_AVATAR_URL, type Picnic } from '../firebase/picnics';
+import { isAttending, type PicnicParticipant } from '../firebase/participants';
+import { markMessagesRead, sendMessage, MAX_MESSAGE_LENGTH, type PicnicMessage } from '../firebase/messages';
+import { usePicnicMessages } from '../hooks/usePicnicMessages';
+import { usePicnicParticipants } from '../hooks/usePicnicParticipants';
+
+interface PicnicChatPanelProps {
+  picnic: Picnic;
+}
+
+// Photos bigger than this are rejected before uploading
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Each reader's avatar sits under the newest message they've read, keyed by message ID
+const readReceipts = (
+  messages: PicnicMessage[],
+  participants: PicnicParticipant[],
+  currentUserId: string | undefined
+): Map<string, PicnicParticipant[]> => {
+  const receipts = new Map<string, PicnicParticipant[]>();
+  participants
+    .filter(participant => participant.id !== currentUserId && participant.lastReadAt)
+    .forEach(participant => {
+      const lastRead = [...messages]
+        .reverse()
+        .find(message => message.createdAt <= participant.lastReadAt!);
+      if (!lastRead) return;
+      receipts.set(lastRead.id, [...(receipts.get(lastRead.id) ?? []), participant]);
+    });
+  return receipts;
+};
+
+const PicnicChatPanel: React.FC<PicnicChatPanelProps> = ({ picnic }) => {
+  const { currentUser } = useAuth();
+  const { messages, loading, error: loadError } = usePicnicMessages(picnic.id);
+  const { participants } = usePicnicParticipants(picnic.id);
+  const [text, setText] = useState('');
+  const [image, setImage] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const me = participants.find(participant => participant.id === currentUser?.uid);
+  const canChat = isAttending(me?.rsvpStatus);
+  const receipts = useMemo(
+    () => readReceipts(messages, participants, currentUser?.uid),
+    [messages, participants, currentUser]
+  );
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  // Catch our read receipt up whenever a message we haven't seen arrives
+  const latestMessage = messages[messages.length - 1];
+  useEffect(() => {
+    if (!currentUser || !canChat || !latestMessage) return;
+    if (me?.lastReadAt && me.lastReadAt >= latestMessage.createdAt) return;
+
+    markMessagesRead(picnic.id, currentUser.uid).catch(() => {});
+  }, [picnic.id, currentUser, canChat, latestMessage, me?.lastReadAt]);
+
+  useEffect(() => {
+    if (!image) {
+      setImagePreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(image);
+    setImagePreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setError('Only photos can be attached');
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      setError('That photo is too big, pick one under 10 MB');
+      return;
+    }
+    setError(null);
+    setImage(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || (!text.trim() && !image)) return;
+
+    try {
+      setIsSending(true);
+      setError(null);
+      await sendMessage(
+        picnic.id,
+        {
+          id: currentUser.uid,
+          name: currentUser.displayName || 'Friend',
+          photoURL: currentUser.photoURL || null,
+        },
+        text,
+        image
+      );
+      setText('');
+      setImage(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : loadError ? (
+          <p className="text-sm text-red-600 dark:text-red-400 text-center">{loadError}</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+            No messages yet. Say hi to everyone coming!
+          </p>
+        ) : (
+          messages.map(message => {
+            const isMine = message.senderId === currentUser?.uid;
+            const readers = receipts.get(message.id) ?? [];
+            return (
+              <div key={message.id} className={`flex flex-col ${isMine ? 'items-end' : 'items-start'}`}>
+                <div className={`flex items-end max-w-[85%] ${isMine ? 'flex-row-reverse' : ''}`}>
+                  {!isMine && (
+                    <img
+                      src={message.senderPhotoURL || DEFAULT_AVATAR_URL}
+                      alt={message.senderName}
+                      className="h-7 w-7 rounded-full mr-2 flex-shrink-0"
+                    />
+                  )}
+                  <div
+                    className={`rounded-2xl px-3 py-2 text-sm ${
+                      isMine
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white'
+                    }`}
+                  >
+                    {!isMine && (
+                      <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-0.5">
+                        {message.senderName}
+                      </p>
+                    )}
+                    {message.imageURL && (
+                      <a href={message.imageURL} target="_blank" rel="noopener noreferrer">
+                        <img
+                          src={message.imageURL}
+                          alt={`Photo from ${message.senderName}`}
+                          className="rounded-lg max-h-60 mb-1"
+                        />
+                      </a>
+                    )}
+                    {message.text && <p className="whitespace-pre-wrap break-words">{message.text}</p>}
+                    <p className={`text-[10px] mt-0.5 ${isMine ? 'text-blue-100' : 'text-gray-400'}`}>
+                      {format(message.createdAt, isToday(message.createdAt) ? 'h:mm a' : 'MMM d, h:mm a')}
+                    </p>
+                  </div>
+                </div>
+                {readers.length > 0 && (
+                  <div
+                    className="flex -space-x-1 mt-1"
+                    title={`Seen by ${readers.map(reader => reader.name || 'Friend').join(', ')}`}
+                  >
+                    {readers.map(reader => (
+                      <img
+                        key={reader.id}
+                        src={reader.photoURL || DEFAULT_AVATAR_URL}
+                        alt={reader.name || 'Friend'}
+                        className="h-4 w-4 rounded-full border border-white dark:border-gray-800"
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="border-t border-gray-200 dark:border-gray-700 p-3">
+        {error && (
+          <div className="mb-2 p-2 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm rounded-lg">
+            {error}
+          </div>
+        )}
+        {canChat ? (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            {imagePreview && (
+              <div className="relative inline-block">
+                <img src={imagePreview} alt="Attachment" className="h-20 rounded-lg" />
+                <button
+                  type="button"
+                  onClick={() => setImage(null)}
+                  className="absolute -top-2 -right-2 bg-gray-800 text-white rounded-full p-0.5"
+                  aria-label="Remove photo"
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSending}
+                className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+                aria-label="Attach a photo"
+              >
+                <PhotoIcon className="h-5 w-5" />
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleImageChange}
+                className="hidden"
+              />
+              <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                maxLength={MAX_MESSAGE_LENGTH}
+                placeholder="Message everyone"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-full shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+              <button
+                type="submit"
+                disabled={isSending || (!text.trim() && !image)}
+                className="p-2 bg-blue-500 text-white rounded-full hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Send"
+              >
+                <PaperAirplaneIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+            RSVP going or maybe to join the conversation
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PicnicChatPanel;
@@ -0,0 +1,320 @@
+import { useMemo, useState } from 'react';
+import { ArrowRightIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import type { Picnic } from '../firebase/picnics';
+import { isAttending } from '../firebase/participants';
+import { addExpense, deleteExpense, recordSettlement } from '../firebase/expenses';
+import { balancesWith, type ExpenseSplit, type SplitMode, type Transfer } from '../firebase/expenseLedger';
+import { usePicnicExpenses } from '../hooks/usePicnicExpenses';
+import { usePicnicParticipants } from '../hooks/usePicnicParticipants';
+import { CURRENCIES, formatMoney, toMinorUnits } from '../utils/currency';
+
+interface PicnicExpensesPanelProps {
+  picnic: Picnic;
+}
+
+const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: 'Split equally',
+  shares: 'Split by shares',
+  exact: 'Exact amounts',
+};
+
+interface SplitDraft {
+  included: boolean;
+  shares: string;
+  amount: string;
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+const PicnicExpensesPanel: React.FC<PicnicExpensesPanelProps> = ({ picnic }) => {
+  const { currentUser } = useAuth();
+  const { expenses, loading, error: loadError } = usePicnicExpenses(picnic.id);
+  const { participants } = usePicnicParticipants(picnic.id);
+  const [showForm, setShowForm] = useState(false);
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(CURRENCIES[0]);
+  const [payerId, setPayerId] = useState('');
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal');
+  const [drafts, setDrafts] = useState<Record<string, SplitDraft>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const members = useMemo(
+    () => participants.filter(participant => isAttending(participant.rsvpStatus)),
+    [participants]
+  );
+  const nameOf = (userId: string) => {
+    if (userId === currentUser?.uid) return 'You';
+    return participants.find(participant => participant.id === userId)?.name || 'Someone';
+  };
+
+  // Only expenses the user is part of can be read, so this is where they stand with each person
+  const balances = useMemo(
+    () => (currentUser ? balancesWith(expenses, currentUser.uid) : {}),
+    [expenses, currentUser]
+  );
+
+  // Everyone coming starts out in the split
+  const openForm = () => {
+    setPayerId(currentUser?.uid ?? '');
+    setDrafts(Object.fromEntries(members.map(member => [member.id, { included: true, shares: '1', amount: '' }])));
+    setShowForm(true);
+  };
+
+  const updateDraft = (userId: string, changes: Partial<SplitDraft>) => {
+    setDrafts(prev => ({ ...prev, [userId]: { ...prev[userId], ...changes } }));
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    const splits: ExpenseSplit[] = Object.entries(drafts)
+      .filter(([, draft]) => draft.included)
+      .map(([userId, draft]) => ({
+        userId,
+        ...(splitMode === 'shares' && { shares: Number(draft.shares) }),
+        ...(splitMode === 'exact' && { amount: toMinorUnits(draft.amount || 0, currency) }),
+      }));
+
+    const added = await run(() => addExpense(picnic.id, currentUser.uid, {
+      description,
+      payerId,
+      amount: toMinorUnits(amount || 0, currency),
+      currency,
+      splitMode,
+      splits,
+    }));
+    if (added) {
+      setDescription('');
+      setAmount('');
+      setShowForm(false);
+    }
+  };
+
+  if (!currentUser) return null;
+
+  const transfers: Transfer[] = Object.entries(balances).flatMap(([balanceCurrency, byUser]) =>
+    Object.entries(byUser)
+      .filter(([, balance]) => balance !== 0)
+      .map(([userId, balance]) => (balance > 0
+        ? { from: userId, to: currentUser.uid, amount: balance, currency: balanceCurrency }
+        : { from: currentUser.uid, to: userId, amount: -balance, currency: balanceCurrency }))
+  );
+
+  return (
+    <div className="p-4 space-y-4">
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : loadError ? (
+        <p className="text-sm text-red-600 dark:text-red-400 text-center">{loadError}</p>
+      ) : (
+        <>
+          {transfers.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Settle up</h4>
+              <ul className="space-y-1">
+                {transfers.map(transfer => (
+                  <li
+                    key={`${transfer.currency}-${transfer.from}-${transfer.to}`}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <span className="flex items-center text-gray-700 dark:text-gray-300">
+                      {nameOf(transfer.from)}
+                      <ArrowRightIcon className="h-3 w-3 mx-1" />
+                      {nameOf(transfer.to)}
+                      <span className="ml-2 font-medium">{formatMoney(transfer.amount, transfer.currency)}</span>
+                    </span>
+                    <button
+                      onClick={() => run(() => recordSettlement(transfer, currentUser.uid, picnic))}
+                      disabled={isSaving}
+                      className="px-2 py-1 text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300 rounded hover:bg-green-200 disabled:opacity-50"
+                    >
+                      Mark Paid
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Expenses</h4>
+            {expenses.length === 0 ? (
+              <p className="text-xs text-gray-400">Nothing logged yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {expenses.map(expense => (
+                  <li key={expense.id} className="py-2 flex items-center justify-between">
+                    <div className="min-w-0 text-sm">
+                      <p className="text-gray-900 dark:text-white truncate">
+                        {expense.isSettlement
+                          ? `${nameOf(expense.payerId)} paid ${nameOf(expense.splits[0]?.userId ?? '')}`
+                          : expense.description}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {expense.isSettlement
+                          ? format(expense.createdAt, 'MMM d')
+                          : `${nameOf(expense.payerId)} paid · ${SPLIT_MODE_LABELS[expense.splitMode]} · ${format(expense.createdAt, 'MMM d')}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">
+                        {formatMoney(expense.amount, expense.currency)}
+                      </span>
+                      {(expense.createdBy === currentUser.uid || expense.payerId === currentUser.uid) && (
+                        <button
+                          onClick={() => run(() => deleteExpense(expense.id, currentUser.uid))}
+                          disabled={isSaving}
+                          className="p-2 text-gray-400 hover:text-red-500"
+                          aria-label="Delete expense"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+
+      {showForm ? (
+        <form onSubmit={handleSubmit} className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What was it for?"
+            maxLength={80}
+            className={`${inputClassName} w-full`}
+          />
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.00"
+              min="0"
+              step="0.01"
+              className={`${inputClassName} flex-1 min-w-0`}
+            />
+            <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClassName}>
+              {CURRENCIES.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select value={payerId} onChange={(e) => setPayerId(e.target.value)} className={inputClassName}>
+              {members.map(member => (
+                <option key={member.id} value={member.id}>Paid by {nameOf(member.id)}</option>
+              ))}
+            </select>
+            <select
+              value={splitMode}
+              onChange={(e) => setSplitMode(e.target.value as SplitMode)}
+              className={inputClassName}
+            >
+              {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map(mode => (
+                <option key={mode} value={mode}>{SPLIT_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+          <ul className="space-y-1">
+            {members.map(member => {
+              const draft = drafts[member.id];
+              if (!draft) return null;
+              return (
+                <li key={member.id} className="flex items-center justify-between text-sm">
+                  <label className="flex items-center text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={draft.included}
+                      onChange={(e) => updateDraft(member.id, { included: e.target.checked })}
+                      className="mr-2"
+                    />
+                    {nameOf(member.id)}
+                  </label>
+                  {draft.included && splitMode === 'shares' && (
+                    <input
+                      type="number"
+                      value={draft.shares}
+                      onChange={(e) => updateDraft(member.id, { shares: e.target.value })}
+                      min="1"
+                      className={`${inputClassName} w-20 py-1`}
+                      aria-label={`Shares for ${nameOf(member.id)}`}
+                    />
+                  )}
+                  {draft.included && splitMode === 'exact' && (
+                    <input
+                      type="number"
+                      value={draft.amount}
+                      onChange={(e) => updateDraft(member.id, { amount: e.target.value })}
+                      placeholder="0.00"
+                      min="0"
+                      step="0.01"
+                      className={`${inputClassName} w-24 py-1`}
+                      aria-label={`Amount for ${nameOf(member.id)}`}
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              disabled={isSaving}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !description.trim() || !amount}
+              className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Add Expense'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        picnic.status !== 'cancelled' && (
+          <button
+            onClick={openForm}
+            className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+          >
+            Add an Expense
+          </button>
+        )
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default PicnicExpensesPanel;
@@ -0,0 +1,404 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CameraIcon, PhotoIcon, StarIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import type { Picnic } from '../firebase/picnics';
+import { isAttending } from '../firebase/participants';
+import {
+  addAlbumPhotos,
+  deleteAlbumPhoto,
+  setAlbumCover,
+  toggleAlbumReaction,
+  updateAlbumCaption,
+  ALBUM_REACTIONS,
+  MAX_ALBUM_UPLOAD,
+  MAX_CAPTION_LENGTH,
+  type AlbumPhoto,
+} from '../firebase/album';
+import { usePicnicAlbum } from '../hooks/usePicnicAlbum';
+import { usePicnicParticipants } from '../hooks/usePicnicParticipants';
+import { usePicnicMessages } from '../hooks/usePicnicMessages';
+
+interface PicnicGalleryProps {
+  picnic: Picnic;
+}
+
+// Photos that aren't in the album but still belong to the picnic, shown read-only
+interface OtherPhoto {
+  key: string;
+  url: string;
+  caption: string;
+}
+
+interface PendingPhoto {
+  key: string;
+  file: File;
+  caption: string;
+}
+
+// Photos bigger than this are rejected before uploading
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+// Each pending photo owns its preview URL so it's released when the photo is removed
+const PendingPreview: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url ? <img src={url} alt={file.name} className="h-16 w-16 rounded object-cover flex-shrink-0" /> : null;
+};
+
+// The picnic's shared album, plus the selfies people joined with and photos sent to the chat
+const PicnicGallery: React.FC<PicnicGalleryProps> = ({ picnic }) => {
+  const { currentUser } = useAuth();
+  const { photos, loading, error: loadError } = usePicnicAlbum(picnic.id);
+  const { participants } = usePicnicParticipants(picnic.id);
+  const { messages } = usePicnicMessages(picnic.id);
+  const [pending, setPending] = useState<PendingPhoto[]>([]);
+  const [openPhotoId, setOpenPhotoId] = useState<string | null>(null);
+  const [openOther, setOpenOther] = useState<OtherPhoto | null>(null);
+  const [captionDraft, setCaptionDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+
+  const me = participants.find(participant => participant.id === currentUser?.uid);
+  const canAdd = isAttending(me?.rsvpStatus) && picnic.status !== 'cancelled';
+  const isHost = currentUser?.uid === picnic.hostId;
+  const openPhoto = photos.find(photo => photo.id === openPhotoId) ?? null;
+
+  const otherPhotos = useMemo<OtherPhoto[]>(() => {
+    const coverInAlbum = photos.some(photo => photo.path === picnic.photoPath);
+    return [
+      ...(picnic.photoURL && !coverInAlbum ? [{ key: 'cover', url: picnic.photoURL, caption: picnic.name }] : []),
+      ...participants
+        .filter(participant => participant.picnicPhotoURL)
+        .map(participant => ({
+          key: `selfie-${participant.id}`,
+          url: participant.picnicPhotoURL!,
+          caption: participant.name || 'Participant',
+        })),
+      ...messages
+        .filter(message => message.imageURL)
+        .map(message => ({
+          key: `message-${message.id}`,
+          url: message.imageURL!,
+          caption: message.text ? `${message.senderName}: ${message.text}` : message.senderName,
+        })),
+    ];
+  }, [photos, picnic.photoURL, picnic.photoPath, picnic.name, participants, messages]);
+
+  useEffect(() => {
+    setCaptionDraft(openPhoto?.caption ?? '');
+  }, [openPhoto?.id, openPhoto?.caption]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const images = files.filter(file => file.type.startsWith('image/') && file.size <= MAX_IMAGE_BYTES);
+    const room = MAX_ALBUM_UPLOAD - pending.length;
+    if (images.length < files.length) {
+      setError('Some of those weren\'t photos or were over 10 MB, so they were left out');
+    } else if (images.length > room) {
+      setError(`You can add up to ${MAX_ALBUM_UPLOAD} photos at a time`);
+    } else {
+      setError(null);
+    }
+    setPending(current => [
+      ...current,
+      ...images.slice(0, room).map((file, index) => ({ key: `${Date.now()}-${index}-${file.name}`, file, caption: '' })),
+    ]);
+  };
+
+  const handleUpload = async () => {
+    if (!currentUser || pending.length === 0) return;
+
+    setUploadProgress(0);
+    const uploaded = await run(() => addAlbumPhotos(
+      picnic.id,
+      { id: currentUser.uid, name: currentUser.displayName || 'Friend', photoURL: currentUser.photoURL || null },
+      pending.map(photo => ({ image: photo.file, caption: photo.caption })),
+      setUploadProgress
+    ));
+    setUploadProgress(null);
+    if (uploaded) setPending([]);
+  };
+
+  const handleDelete = async (photo: AlbumPhoto) => {
+    if (!currentUser || !window.confirm('Delete this photo from the album?')) return;
+    const deleted = await run(() => deleteAlbumPhoto(picnic.id, photo.id, currentUser.uid));
+    if (deleted) setOpenPhotoId(null);
+  };
+
+  if (!currentUser) return null;
+
+  const renderAlbumPhoto = (photo: AlbumPhoto) => {
+    const isUploader = photo.uploaderId === currentUser.uid;
+    const isCover = picnic.photoPath === photo.path;
+
+    return (
+      <div
+        className="fixed inset-0 bg-black bg-opacity-90 flex flex-col items-center justify-center z-50 p-4"
+        onClick={() => setOpenPhotoId(null)}
+      >
+        <button
+          onClick={() => setOpenPhotoId(null)}
+          className="absolute top-4 right-4 text-gray-300 hover:text-white"
+        >
+          <span className="sr-only">Close</span>
+          <XMarkIcon className="h-6 w-6" />
+        </button>
+        <div className="max-w-md w-full space-y-3" onClick={(e) => e.stopPropagation()}>
+          <img src={photo.url} alt={photo.caption || 'Album photo'} className="max-h-[60vh] w-full object-contain rounded-lg" />
+          <p className="text-xs text-gray-400">Added by {photo.uploaderName}</p>
+
+          {isUploader ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                run(() => updateAlbumCaption(picnic.id, photo.id, currentUser.uid, captionDraft));
+              }}
+              className="flex space-x-2"
+            >
+              <input
+                type="text"
+                value={captionDraft}
+                onChange={(e) => setCaptionDraft(e.target.value)}
+                placeholder="Add a caption"
+                maxLength={MAX_CAPTION_LENGTH}
+                className={`${inputClassName} flex-1 min-w-0`}
+              />
+              <button
+                type="submit"
+                disabled={isSaving || captionDraft.trim() === photo.caption}
+                className="px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </form>
+          ) : (
+            photo.caption && <p className="text-sm text-gray-200">{photo.caption}</p>
+          )}
+
+          <div className="flex items-center space-x-1">
+            {ALBUM_REACTIONS.map(emoji => {
+              const reacted = photo.reactions[emoji] ?? [];
+              return (
+                <button
+                  key={emoji}
+                  onClick={() => run(() => toggleAlbumReaction(picnic.id, photo.id, currentUser.uid, emoji))}
+                  disabled={isSaving || !canAdd}
+                  className={`px-2 py-1 text-sm rounded-full disabled:cursor-not-allowed ${
+                    reacted.includes(currentUser.uid) ? 'bg-blue-500/40 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'
+                  }`}
+                  aria-label={`React with ${emoji}`}
+                >
+                  {emoji}{reacted.length > 0 && ` ${reacted.length}`}
+                </button>
+              );
+            })}
+            <div className="flex-1" />
+            {isHost && (
+              <button
+                onClick={() => run(() => setAlbumCover(picnic.id, photo.id, currentUser.uid))}
+                disabled={isSaving || isCover}
+                className="flex items-center px-2 py-1 text-sm text-gray-200 hover:text-white disabled:opacity-50"
+              >
+                <StarIcon className="h-4 w-4 mr-1" />
+                {isCover ? 'Cover' : 'Make cover'}
+              </button>
+            )}
+            {(isUploader || isHost) && (
+              <button
+                onClick={() => handleDelete(photo)}
+                disabled={isSaving}
+                className="p-2 text-gray-300 hover:text-red-400"
+                aria-label="Delete photo"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      {canAdd && (
+        <div className="space-y-2">
+          <div className="flex space-x-2">
+            <button
+              onClick={() => cameraInputRef.current?.click()}
+              disabled={isSaving}
+              className="flex-1 flex items-center justify-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              <CameraIcon className="h-5 w-5 mr-1" />
+              Take a photo
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSaving}
+              className="flex-1 flex items-center justify-center px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-lg hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              <PhotoIcon className="h-5 w-5 mr-1" />
+              Choose photos
+            </button>
+            <input
+              ref={cameraInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={handleFilesChange}
+              className="hidden"
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleFilesChange}
+              className="hidden"
+            />
+          </div>
+
+          {pending.length > 0 && (
+            <div className="space-y-2">
+              {pending.map(photo => (
+                <div key={photo.key} className="flex items-center space-x-2">
+                  <PendingPreview file={photo.file} />
+                  <input
+                    type="text"
+                    value={photo.caption}
+                    onChange={(e) => setPending(current => current.map(item => (
+                      item.key === photo.key ? { ...item, caption: e.target.value } : item
+                    )))}
+                    placeholder="Add a caption"
+                    maxLength={MAX_CAPTION_LENGTH}
+                    className={`${inputClassName} flex-1 min-w-0`}
+                  />
+                  <button
+                    onClick={() => setPending(current => current.filter(item => item.key !== photo.key))}
+                    disabled={isSaving}
+                    className="p-2 text-gray-400 hover:text-red-500"
+                    aria-label="Remove photo"
+                  >
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={handleUpload}
+                disabled={isSaving}
+                className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+              >
+                {uploadProgress !== null ? `Uploading... ${Math.round(uploadProgress * 100)}%` : `Add ${pending.length} ${pending.length === 1 ? 'photo' : 'photos'} to the album`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && !openPhoto && <p className="text-sm text-red-500">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : loadError ? (
+        <p className="text-sm text-red-600 dark:text-red-400 text-center">{loadError}</p>
+      ) : photos.length === 0 && otherPhotos.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+          No photos yet. Photos people add, selfies and photos sent to the chat show up here.
+        </p>
+      ) : (
+        <>
+          {photos.length > 0 && (
+            <div className="grid grid-cols-3 gap-1">
+              {photos.map(photo => (
+                <button
+                  key={photo.id}
+                  onClick={() => setOpenPhotoId(photo.id)}
+                  className="relative aspect-square overflow-hidden rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <img src={photo.thumbnailURL ?? photo.url} alt={photo.caption || 'Album photo'} className="h-full w-full object-cover" loading="lazy" />
+                  {picnic.photoPath === photo.path && (
+                    <span className="absolute top-1 left-1 px-1.5 py-0.5 text-[10px] rounded bg-black/60 text-white">Cover</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {otherPhotos.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Selfies and chat photos</h4>
+              <div className="grid grid-cols-4 gap-1">
+                {otherPhotos.map(photo => (
+                  <button
+                    key={photo.key}
+                    onClick={() => setOpenOther(photo)}
+                    className="aspect-square overflow-hidden rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <img src={photo.url} alt={photo.caption} className="h-full w-full object-cover" loading="lazy" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {openPhoto && renderAlbumPhoto(openPhoto)}
+
+      {openOther && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-90 flex flex-col items-center justify-center z-50 p-4"
+          onClick={() => setOpenOther(null)}
+        >
+          <button
+            onClick={() => setOpenOther(null)}
+            className="absolute top-4 right-4 text-gray-300 hover:text-white"
+          >
+            <span className="sr-only">Close</span>
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+          <img
+            src={openOther.url}
+            alt={openOther.caption}
+            className="max-h-[80vh] max-w-full rounded-lg"
+            onClick={(e) => e.stopPropagation()}
+          />
+          <p className="mt-3 text-sm text-gray-200 text-center">{openOther.caption}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PicnicGallery;
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { MapPinIcon } from '@heroicons/react/24/outline';
+import mapsService from '../services/mapsService';
+import type { PicnicLocation } from '../firebase/picnics';
+import { estimateEtaMinutes, formatEta, type ParticipantPresence } from '../firebase/presence';
+import { calculateDistance, formatDistance } from '../utils/geo';
+
+interface PicnicMapProps {
+  location: PicnicLocation;
+  presence?: ParticipantPresence[]; // People sharing their location on the way
+}
+
+// Opens turn-by-turn directions in Google Maps, or a search when we only have the address
+const directionsUrl = (location: PicnicLocation): string => {
+  const destination = location.coordinates
+    ? `${location.coordinates.latitude},${location.coordinates.longitude}`
+    : `${location.name} ${location.address}`.trim();
+  const placeId = location.placeId ? `&destination_place_id=${location.placeId}` : '';
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}${placeId}`;
+};
+
+const PicnicMap: React.FC<PicnicMapProps> = ({ location, presence = [] }) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const coordinates = location.coordinates;
+
+  useEffect(() => {
+    if (!coordinates || !mapRef.current) return;
+
+    let isMounted = true;
+    const center = { lat: coordinates.latitude, lng: coordinates.longitude };
+
+    mapsService.initMap(mapRef.current, {
+      center,
+      zoom: 15,
+      mapTypeControl: false,
+      streetViewControl: false,
+      fullscreenControl: false,
+      clickableIcons: false,
+    })
+      .then(newMap => {
+        if (!isMounted) return;
+        new window.google.maps.Marker({ position: center, map: newMap, title: location.name });
+        setMap(newMap);
+      })
+      .catch(() => {
+        if (isMounted) setError('Map unavailable');
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [coordinates, location.name]);
+
+  // One marker per person on the way, with the map widened to fit them all
+  useEffect(() => {
+    if (!map || !coordinates || presence.length === 0) return;
+
+    const bounds = new window.google.maps.LatLngBounds();
+    bounds.extend({ lat: coordinates.latitude, lng: coordinates.longitude });
+
+    const markers = presence.map(person => {
+      const position = { lat: person.latitude, lng: person.longitude };
+      const distance = calculateDistance(person.latitude, person.longitude, coordinates.latitude, coordinates.longitude);
+      bounds.extend(position);
+      return new window.google.maps.Marker({
+        position,
+        map,
+        label: (person.name || '?').charAt(0).toUpperCase(),
+        title: `${person.name || 'Participant'} · ${formatDistance(distance)} · ${formatEta(estimateEtaMinutes(distance))}`,
+      });
+    });
+    map.fitBounds(bounds, 48);
+
+    return () => {
+      markers.forEach(marker => marker.setMap(null));
+    };
+  }, [map, coordinates, presence]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+      {coordinates && !error ? (
+        <div ref={mapRef} className="h-48 w-full bg-gray-100 dark:bg-gray-700" />
+      ) : (
+        <div className="h-24 flex items-center justify-center bg-gray-100 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
+          {error || 'No map for this spot'}
+        </div>
+      )}
+      <div className="p-3 flex items-center justify-between">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{location.name}</p>
+          {location.address && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{location.address}</p>
+          )}
+        </div>
+        <a
+          href={directionsUrl(location)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="ml-2 flex-shrink-0 flex items-center text-sm text-blue-500 hover:text-blue-600"
+        >
+          <MapPinIcon className="h-4 w-4 mr-1" />
+          Directions
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default PicnicMap;
@@ -0,0 +1,37 @@
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface PicnicPanelModalProps {
+  title: string;
+  onClose: () => void;
+  // Panels that scroll themselves, like the chat, get a fixed height instead
+  fixedHeight?: boolean;
+  children: React.ReactNode;
+}
+
+// Shows one of a picnic's panels over the page, with a title and a close button
+const PicnicPanelModal: React.FC<PicnicPanelModalProps> = ({ title, onClose, fixedHeight = false, children }) => (
+  <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+    <div className={`bg-white dark:bg-gray-800 rounded-xl max-w-md w-full ${fixedHeight ? 'h-[80vh]' : 'max-h-[85vh]'} flex flex-col overflow-hidden`}>
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            {title}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <span className="sr-only">Close</span>
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className={`flex-1 min-h-0 ${fixedHeight ? '' : 'overflow-y-auto'}`}>
+        {children}
+      </div>
+    </div>
+  </div>
+);
+
+export default PicnicPanelModal;
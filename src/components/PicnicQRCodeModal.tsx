@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import QRCode from 'qrcode';
+import { useAuth } from '../contexts/AuthContext';
+import type { Picnic } from '../firebase/picnics';
+import { getShareableInviteLink, inviteLinkUrl, type InviteLink } from '../firebase/inviteLinks';
+
+interface PicnicQRCodeModalProps {
+  picnic: Picnic | null;
+  onClose: () => void;
+}
+
+const PicnicQRCodeModal: React.FC<PicnicQRCodeModalProps> = ({ picnic, onClose }) => {
+  const { currentUser } = useAuth();
+  const [link, setLink] = useState<InviteLink | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!picnic || !currentUser) return;
+
+    let isMounted = true;
+    setLink(null);
+    setQrCode(null);
+    setError(null);
+
+    const loadQrCode = async () => {
+      try {
+        const inviteLink = await getShareableInviteLink(picnic.id, currentUser.uid);
+        const dataUrl = await QRCode.toDataURL(inviteLinkUrl(inviteLink.id), { width: 320, margin: 1 });
+        if (!isMounted) return;
+        setLink(inviteLink);
+        setQrCode(dataUrl);
+      } catch (err) {
+        if (!isMounted) return;
+        setError(err instanceof Error ? err.message : 'Failed to create QR code');
+      }
+    };
+
+    loadQrCode();
+    return () => {
+      isMounted = false;
+    };
+  }, [picnic, currentUser]);
+
+  if (!picnic) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl max-w-md w-full overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Scan to join {picnic.name}
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+            >
+              <span className="sr-only">Close</span>
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 flex flex-col items-center space-y-3">
+          {error ? (
+            <div className="w-full p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm rounded-lg">
+              {error}
+            </div>
+          ) : qrCode ? (
+            <img src={qrCode} alt="Picnic invite QR code" className="w-72 h-72 bg-white rounded-lg" />
+          ) : (
+            <div className="w-72 h-72 flex items-center justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+            </div>
+          )}
+          {link?.expiresAt && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Works until {format(link.expiresAt, 'MMM d, h:mm a')}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PicnicQRCodeModal;
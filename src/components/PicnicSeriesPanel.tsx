@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import type { Picnic } from '../firebase/picnics';
+import {
+  makePicnicRecurring,
+  skipOccurrence,
+  stopPicnicSeries,
+  updateSeriesFromPicnic,
+  SERIES_HORIZON_MS,
+} from '../firebase/picnicSeries';
+import { describeRecurrence, occurrencesBetween, RECURRENCE_FREQUENCIES, type RecurrenceFrequency } from '../firebase/recurrence';
+import { usePicnicSeries } from '../hooks/usePicnicSeries';
+
+interface PicnicSeriesPanelProps {
+  picnic: Picnic;
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+// How a picnic repeats, and the host's controls for the series and this one occurrence
+const PicnicSeriesPanel: React.FC<PicnicSeriesPanelProps> = ({ picnic }) => {
+  const { currentUser } = useAuth();
+  const { series } = usePicnicSeries(picnic.seriesId);
+  const [isSettingUp, setIsSettingUp] = useState(false);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('weekly');
+  const [until, setUntil] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      setNotice(null);
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!currentUser) return null;
+  const isHost = currentUser.uid === picnic.hostId;
+
+  if (!picnic.seriesId) {
+    if (!isHost || picnic.status !== 'planning' || !picnic.date) return null;
+
+    if (!isSettingUp) {
+      return (
+        <button
+          onClick={() => setIsSettingUp(true)}
+          className="w-full flex items-center justify-center px-4 py-2 text-sm text-blue-500 hover:text-blue-600 bg-white dark:bg-gray-800 rounded-lg shadow"
+        >
+          <ArrowPathIcon className="h-4 w-4 mr-1" />
+          Make this a regular picnic
+        </button>
+      );
+    }
+
+    const handleSetUp = async () => {
+      const saved = await run(() => makePicnicRecurring(picnic, currentUser.uid, {
+        frequency,
+        // The series runs to the end of the day picked
+        until: until ? new Date(`${until}T23:59`) : null,
+      }));
+      if (saved) setIsSettingUp(false);
+    };
+
+    return (
+      <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow space-y-3">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Repeat this picnic</h3>
+        <select
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)}
+          className={`${inputClassName} w-full`}
+          aria-label="How often"
+        >
+          {RECURRENCE_FREQUENCIES.map(option => (
+            <option key={option.id} value={option.id}>
+              {describeRecurrence({ frequency: option.id, startDate: picnic.date! })}
+            </option>
+          ))}
+        </select>
+        <label className="block text-sm text-gray-700 dark:text-gray-300">
+          Until <span className="text-gray-400">(optional)</span>
+          <input
+            type="date"
+            value={until}
+            min={format(picnic.date, 'yyyy-MM-dd')}
+            onChange={(e) => setUntil(e.target.value)}
+            className={`${inputClassName} w-full mt-1`}
+          />
+        </label>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Everyone coming or invited is invited each time, with the same spot and potluck list.
+        </p>
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={() => setIsSettingUp(false)}
+            disabled={isSaving}
+            className="px-3 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSetUp}
+            disabled={isSaving}
+            className="px-3 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Repeat'}
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    );
+  }
+
+  if (!series) return null;
+
+  const next = series.active && picnic.date
+    ? occurrencesBetween(series, picnic.date, new Date(picnic.date.getTime() + SERIES_HORIZON_MS), series.skippedOccurrences)[0]
+    : undefined;
+  const isUpcoming = picnic.status === 'planning' || picnic.status === 'active';
+  const { occurrence } = picnic;
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow space-y-2">
+      <div className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+        <ArrowPathIcon className="h-5 w-5 mr-1 flex-shrink-0" />
+        <span>
+          {series.active ? describeRecurrence(series) : 'No longer repeats'}
+          {series.active && series.until && ` until ${format(series.until, 'MMM d, yyyy')}`}
+        </span>
+      </div>
+      {next && (
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>Next one: {format(next.date, 'EEE, MMM d, h:mm a')}</span>
+          {isHost && (
+            <button
+              onClick={() => run(() => skipOccurrence(series.id, currentUser.uid, next.index))}
+              disabled={isSaving}
+              className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            >
+              Skip
+            </button>
+          )}
+        </div>
+      )}
+
+      {isHost && series.active && (
+        <div className="flex flex-wrap gap-2 pt-1">
+          {isUpcoming && occurrence !== null && (
+            <button
+              onClick={() => run(() => skipOccurrence(series.id, currentUser.uid, occurrence))}
+              disabled={isSaving}
+              className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Skip this one
+            </button>
+          )}
+          <button
+            onClick={async () => {
+              if (await run(() => updateSeriesFromPicnic(picnic, currentUser.uid))) {
+                setNotice("Picnics that haven't been set up yet will use these details");
+              }
+            }}
+            disabled={isSaving}
+            className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Use these details from now on
+          </button>
+          <button
+            onClick={() => run(() => stopPicnicSeries(series.id, currentUser.uid))}
+            disabled={isSaving}
+            className="px-3 py-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-50"
+          >
+            Stop repeating
+          </button>
+        </div>
+      )}
+
+      {notice && <p className="text-sm text-green-600 dark:text-green-400">{notice}</p>}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default PicnicSeriesPanel;
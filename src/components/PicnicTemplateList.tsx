@@ -0,0 +1,71 @@
+import { format } from 'date-fns';
+import { BookmarkIcon, MapPinIcon, TrashIcon, UserGroupIcon } from '@heroicons/react/24/outline';
+import type { PicnicTemplate } from '../firebase/picnicTemplates';
+
+interface PicnicTemplateListProps {
+  templates: PicnicTemplate[];
+  onStartNow: (template: PicnicTemplate) => void;
+  onPlan: (template: PicnicTemplate) => void;
+  onDelete: (template: PicnicTemplate) => void;
+  isLoading?: boolean;
+}
+
+// Saved picnic setups, each one tap away from a new picnic
+const PicnicTemplateList: React.FC<PicnicTemplateListProps> = ({
+  templates,
+  onStartNow,
+  onPlan,
+  onDelete,
+  isLoading = false
+}) => (
+  <div className="space-y-2">
+    {templates.map(template => (
+      <div key={template.id} className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow">
+        <div className="flex items-start justify-between">
+          <div className="min-w-0">
+            <h3 className="font-medium text-gray-900 dark:text-white flex items-center">
+              <BookmarkIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+              <span className="truncate">{template.name}</span>
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center mt-1">
+              <MapPinIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+              <span className="truncate">{template.location.name}</span>
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center mt-1">
+              <UserGroupIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+              {template.invitedUsers.length} {template.invitedUsers.length === 1 ? 'guest' : 'guests'}
+              {template.potluck && ` · ${template.potluck.items.length} potluck items`}
+              {template.timeOfDay && ` · usually ${format(new Date(`2000-01-01T${template.timeOfDay}`), 'h:mm a')}`}
+            </p>
+          </div>
+          <button
+            onClick={() => onDelete(template)}
+            disabled={isLoading}
+            className="p-2 -mr-2 text-gray-400 hover:text-red-500 transition-colors"
+            aria-label="Delete template"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="flex space-x-2 mt-3">
+          <button
+            onClick={() => onStartNow(template)}
+            disabled={isLoading}
+            className="flex-1 px-3 py-2 bg-green-500 text-white text-sm rounded-lg hover:bg-green-600 disabled:opacity-50"
+          >
+            Start Now
+          </button>
+          <button
+            onClick={() => onPlan(template)}
+            disabled={isLoading}
+            className="flex-1 px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            Plan
+          </button>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default PicnicTemplateList;
@@ -0,0 +1,32 @@
+import { PICNIC_VISIBILITIES } from '../firebase/visibility';
+import type { PicnicVisibility } from '../firebase/picnics';
+
+interface PicnicVisibilitySelectProps {
+  value: PicnicVisibility;
+  onChange: (visibility: PicnicVisibility) => void;
+  disabled?: boolean;
+}
+
+// Who can see and join a picnic without an invite, for the create and edit forms
+const PicnicVisibilitySelect: React.FC<PicnicVisibilitySelectProps> = ({ value, onChange, disabled = false }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+      Who can join
+    </label>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as PicnicVisibility)}
+      disabled={disabled}
+      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+    >
+      {PICNIC_VISIBILITIES.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+      {PICNIC_VISIBILITIES.find(option => option.value === value)?.description}
+    </p>
+  </div>
+);
+
+export default PicnicVisibilitySelect;
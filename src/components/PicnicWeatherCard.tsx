@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import type { Picnic } from '../firebase/picnics';
+import { getWeatherAt, isGoodWeatherForPicnic, type WeatherResponse } from '../services/weatherService';
+
+interface PicnicWeatherCardProps {
+  picnic: Picnic;
+}
+
+const PicnicWeatherCard: React.FC<PicnicWeatherCardProps> = ({ picnic }) => {
+  const [weather, setWeather] = useState<WeatherResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const coordinates = picnic.location.coordinates;
+  const when = picnic.date;
+  const isOver = picnic.status === 'completed' || picnic.status === 'cancelled';
+  // Picnic snapshots bring new objects each time, so the forecast is only fetched again when these values change
+  const latitude = coordinates?.latitude;
+  const longitude = coordinates?.longitude;
+  const time = when?.getTime();
+
+  useEffect(() => {
+    if (latitude === undefined || longitude === undefined || isOver) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isMounted = true;
+    setIsLoading(true);
+    getWeatherAt(latitude, longitude, time !== undefined ? new Date(time) : new Date())
+      .then(data => {
+        if (!isMounted) return;
+        setWeather(data);
+        setError(null);
+      })
+      .catch(() => {
+        if (isMounted) setError('Weather unavailable');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [latitude, longitude, time, isOver]);
+
+  if (!coordinates || isOver) return null;
+
+  const condition = weather?.weather[0];
+  const celsius = weather ? Math.round(weather.main.temp - 273.15) : 0;
+  const fahrenheit = Math.round(celsius * 9 / 5 + 32);
+  const isForecast = weather?.base === 'forecast';
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {when && isForecast ? `Weather for ${format(when, "EEE 'at' h:mm a")}` : 'Weather now'}
+      </h3>
+      {isLoading ? (
+        <div className="h-12 flex items-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{error}</p>
+      ) : !weather ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          The forecast will show up closer to the day.
+        </p>
+      ) : (
+        <div className="flex items-center">
+          {condition?.icon && (
+            <img
+              src={`https://openweathermap.org/img/wn/${condition.icon}@2x.png`}
+              alt={condition.description}
+              className="h-12 w-12"
+            />
+          )}
+          <div className="ml-2">
+            <p className="text-lg font-medium text-gray-900 dark:text-white">
+              {fahrenheit}°F <span className="text-sm text-gray-500 dark:text-gray-400">/ {celsius}°C</span>
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 capitalize">{condition?.description}</p>
+          </div>
+          <span className={`ml-auto px-2 py-1 text-xs rounded-full ${
+            isGoodWeatherForPicnic(weather)
+              ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+              : 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+          }`}>
+            {isGoodWeatherForPicnic(weather) ? 'Picnic weather' : 'Iffy weather'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PicnicWeatherCard;
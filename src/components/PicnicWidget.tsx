@@ -1,28 +1,39 @@
 import React from 'react';
-import { UserGroupIcon, MapPinIcon } from '@heroicons/react/24/outline';
+import { UserGroupIcon, MapPinIcon, CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { DEFAULT_AVATAR_URL, type Picnic } from '../firebase/picnics';
+import { isCounted } from '../firebase/participants';
+import { usePicnicParticipants } from '../hooks/usePicnicParticipants';
 
-export interface Participant {
-  id: string;
-  name: string | null;
-  photoURL: string | null;
-  picnicPhotoURL?: string | null;
+interface PicnicWidgetProps {
+  picnics: Picnic[];
+  onJoinPicnic?: (picnicId: string) => void;
+  renderActions?: (picnic: Picnic) => React.ReactNode; // Buttons shown at the top right of each card
 }
 
-export interface PicnicData {
-  id: string;
-  hostName: string;
-  hostPhotoURL: string;
-  restaurantName: string;
-  participants: Participant[];
-  photoURL?: string;
-}
+// Selfies of everyone going, each card listens to its own participants
+export function ParticipantStrip({ picnicId }: { picnicId: string }) {
+  const { participants } = usePicnicParticipants(picnicId);
+  const going = participants.filter(p => isCounted(p.rsvpStatus));
 
-interface PicnicWidgetProps {
-  picnics: PicnicData[];
-  onJoinPicnic?: (picnicId: string) => void;
+  if (going.length === 0) return null;
+
+  return (
+    <div className="flex flex-row space-x-2 mt-2">
+      {going.map((p) => (
+        <img
+          key={p.id}
+          src={p.picnicPhotoURL || p.photoURL || DEFAULT_AVATAR_URL}
+          className="h-10 w-10 rounded object-cover border border-white shadow"
+          alt={p.name || 'Participant'}
+          title={p.name || ''}
+        />
+      ))}
+    </div>
+  );
 }
 
-function PicnicWidget({ picnics, onJoinPicnic = () => {} }: PicnicWidgetProps) {
+function PicnicWidget({ picnics, onJoinPicnic = () => {}, renderActions }: PicnicWidgetProps) {
   // No need for auth or firebase here as we receive picnics as props
 
   if (picnics.length === 0) {
@@ -41,11 +52,11 @@ function PicnicWidget({ picnics, onJoinPicnic = () => {} }: PicnicWidgetProps) {
             <div className="flex-shrink-0">
               <img
                 className="h-12 w-12 rounded-full"
-                src={picnic.hostPhotoURL || 'https://www.gravatar.com/avatar/00000000000000000000000000000000?d=mp&f=y'}
+                src={picnic.hostPhotoURL || DEFAULT_AVATAR_URL}
                 alt={picnic.hostName}
                 onError={(e: React.SyntheticEvent<HTMLImageElement>) => {
                   const target = e.target as HTMLImageElement;
-                  target.src = 'https://www.gravatar.com/avatar/00000000000000000000000000000000?d=mp&f=y';
+                  target.src = DEFAULT_AVATAR_URL;
                 }}
               />
             </div>
@@ -67,11 +78,25 @@ function PicnicWidget({ picnics, onJoinPicnic = () => {} }: PicnicWidgetProps) {
                 <MapPinIcon className="flex-shrink-0 mr-1 h-4 w-4" />
                 <span className="truncate">{picnic.restaurantName}</span>
               </div>
+              {picnic.status === 'planning' && picnic.date && (
+                <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                  <CalendarDaysIcon className="flex-shrink-0 mr-1 h-4 w-4" />
+                  <span>
+                    {format(picnic.date, "EEE, MMM d 'at' h:mm a")}
+                    {picnic.rsvpDeadline && ` · RSVP by ${format(picnic.rsvpDeadline, 'MMM d, h:mm a')}`}
+                  </span>
+                </div>
+              )}
               <div className="mt-2 flex items-center text-sm text-gray-500 dark:text-gray-400">
                 <UserGroupIcon className="flex-shrink-0 mr-1.5 h-4 w-4" />
-                <span>{picnic.participants.length} going</span>
+                <span>{picnic.participantCount} going</span>
               </div>
             </div>
+            {renderActions && (
+              <div className="flex-shrink-0 flex items-center space-x-1">
+                {renderActions(picnic)}
+              </div>
+            )}
           </div>
           {picnic.photoURL && (
             <div className="mt-3">
@@ -87,19 +112,7 @@ function PicnicWidget({ picnics, onJoinPicnic = () => {} }: PicnicWidgetProps) {
             </div>
           )}
           {/* Show all participant selfies */}
-          {picnic.participants?.length > 0 && (
-            <div className="flex flex-row space-x-2 mt-2">
-              {picnic.participants.map((p) => (
-                <img
-                  key={p.id}
-                  src={p.picnicPhotoURL || p.photoURL || 'https://www.gravatar.com/avatar/00000000000000000000000000000000?d=mp&f=y'}
-                  className="h-10 w-10 rounded object-cover border border-white shadow"
-                  alt={p.name || 'Participant'}
-                  title={p.name || ''}
-                />
-              ))}
-            </div>
-          )}
+          <ParticipantStrip picnicId={picnic.id} />
         </div>
       ))}
     </div>
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ExclamationTriangleIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import type { Picnic } from '../firebase/picnics';
+import {
+  addPotluckItem,
+  claimedQuantity,
+  claimPotluckItem,
+  findDuplicateItems,
+  removePotluckItem,
+  setPotluckCategories,
+  DEFAULT_POTLUCK_CATEGORIES,
+  type PotluckItem,
+} from '../firebase/potluck';
+import { usePotluckItems } from '../hooks/usePotluckItems';
+
+interface PotluckPanelProps {
+  picnic: Picnic;
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+const PotluckPanel: React.FC<PotluckPanelProps> = ({ picnic }) => {
+  const { currentUser } = useAuth();
+  const { items, loading, error: loadError } = usePotluckItems(picnic.potluck ? picnic.id : undefined);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [essential, setEssential] = useState(false);
+  const [newCategory, setNewCategory] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const potluck = picnic.potluck;
+  const isHost = currentUser?.uid === picnic.hostId;
+  const duplicates = useMemo(() => findDuplicateItems(items), [items]);
+
+  useEffect(() => {
+    if (potluck && !potluck.categories.includes(category)) {
+      setCategory(potluck.categories[0] ?? '');
+    }
+  }, [potluck, category]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!currentUser) return null;
+
+  if (!potluck) {
+    return (
+      <div className="p-4 space-y-3">
+        {isHost ? (
+          <>
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Make {picnic.name} a potluck so everyone can say what they're bringing.
+            </p>
+            <button
+              onClick={() => run(() => setPotluckCategories(picnic.id, currentUser.uid, DEFAULT_POTLUCK_CATEGORIES))}
+              disabled={isSaving}
+              className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              Start a Potluck List
+            </button>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+            The host hasn't started a potluck list yet.
+          </p>
+        )}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    );
+  }
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await run(() => addPotluckItem(picnic.id, currentUser.uid, { name, category, quantity, essential }));
+    if (added) {
+      setName('');
+      setQuantity(1);
+      setEssential(false);
+    }
+  };
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await run(() => setPotluckCategories(picnic.id, currentUser.uid, [...potluck.categories, newCategory]));
+    if (added) setNewCategory('');
+  };
+
+  const renderItem = (item: PotluckItem) => {
+    const claimed = claimedQuantity(item);
+    const myClaim = item.claims.find(claim => claim.userId === currentUser.uid)?.quantity ?? 0;
+    const canRemove = isHost || item.addedBy === currentUser.uid;
+
+    return (
+      <li key={item.id} className="py-2">
+        <div className="flex items-center justify-between">
+          <div className="min-w-0">
+            <p className="text-sm text-gray-900 dark:text-white flex items-center">
+              <span className="truncate">{item.name}</span>
+              {item.essential && (
+                <span className="ml-2 px-1.5 py-0.5 text-[10px] rounded bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                  Essential
+                </span>
+              )}
+              {duplicates.has(item.id) && (
+                <span
+                  className="ml-1 flex items-center text-[10px] text-red-600 dark:text-red-400"
+                  title={claimed > item.quantity ? 'More people are bringing this than needed' : 'This is on the list twice'}
+                >
+                  <ExclamationTriangleIcon className="h-3 w-3 mr-0.5" />
+                  Duplicate
+                </span>
+              )}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {claimed}/{item.quantity} claimed
+              {item.claims.length > 0 && ` · ${item.claims.map(claim => `${claim.name} (${claim.quantity})`).join(', ')}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-1">
+            <select
+              value={myClaim}
+              onChange={(e) => run(() => claimPotluckItem(
+                picnic.id,
+                item.id,
+                { id: currentUser.uid, name: currentUser.displayName || 'Friend', photoURL: currentUser.photoURL || null },
+                Number(e.target.value)
+              ))}
+              disabled={isSaving}
+              className={`${inputClassName} py-1`}
+              aria-label={`How many ${item.name} you're bringing`}
+            >
+              {Array.from({ length: Math.max(item.quantity, myClaim) + 1 }, (_, n) => (
+                <option key={n} value={n}>{n === 0 ? 'Not me' : `I'll bring ${n}`}</option>
+              ))}
+            </select>
+            {canRemove && (
+              <button
+                onClick={() => run(() => removePotluckItem(picnic.id, item.id, currentUser.uid))}
+                disabled={isSaving}
+                className="p-2 text-gray-400 hover:text-red-500"
+                aria-label={`Remove ${item.name}`}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : loadError ? (
+        <p className="text-sm text-red-600 dark:text-red-400 text-center">{loadError}</p>
+      ) : (
+        potluck.categories.map(categoryName => {
+          const categoryItems = items.filter(item => item.category === categoryName);
+          return (
+            <div key={categoryName}>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">{categoryName}</h4>
+              {categoryItems.length === 0 ? (
+                <p className="text-xs text-gray-400 py-1">Nothing yet</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {categoryItems.map(renderItem)}
+                </ul>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      <form onSubmit={handleAddItem} className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Add an item"
+            maxLength={80}
+            className={`${inputClassName} flex-1 min-w-0`}
+          />
+          <input
+            type="number"
+            value={quantity}
+            onChange={(e) => setQuantity(Number(e.target.value))}
+            min={1}
+            className={`${inputClassName} w-16`}
+            aria-label="How many are needed"
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className={`${inputClassName} flex-1`}
+          >
+            {potluck.categories.map(categoryName => (
+              <option key={categoryName} value={categoryName}>{categoryName}</option>
+            ))}
+          </select>
+          {isHost && (
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={essential}
+                onChange={(e) => setEssential(e.target.checked)}
+                className="mr-1"
+              />
+              Essential
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving || !name.trim()}
+            className="px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add
+          </button>
+        </div>
+      </form>
+
+      {isHost && (
+        <form onSubmit={handleAddCategory} className="flex space-x-2">
+          <input
+            type="text"
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            placeholder="New category"
+            maxLength={40}
+            className={`${inputClassName} flex-1 min-w-0`}
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !newCategory.trim()}
+            className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 disabled:opacity-50"
+            aria-label="Add category"
+          >
+            <PlusIcon className="h-5 w-5" />
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default PotluckPanel;
@@ -0,0 +1,121 @@
+import { useRef, useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import jsQR from 'jsqr';
+import { useCameraStream } from '../hooks/useCameraStream';
+import { parseInviteToken } from '../firebase/inviteLinks';
+
+interface QRScannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onScan: (inviteToken: string) => void;
+}
+
+// Decoding every frame is wasteful on phones, a few times a second is plenty
+const SCAN_INTERVAL_MS = 250;
+
+const QRScannerModal: React.FC<QRScannerModalProps> = ({ isOpen, onClose, onScan }) => {
+  const { videoRef, stream, error: cameraError } = useCameraStream(isOpen, 'environment');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setError(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!stream) return;
+
+    let frameId = 0;
+    let lastScan = 0;
+
+    const scanFrame = (time: number) => {
+      frameId = requestAnimationFrame(scanFrame);
+      if (time - lastScan < SCAN_INTERVAL_MS) return;
+      lastScan = time;
+
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!video || !canvas || !context || video.readyState < 2) return;
+
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+      if (!code) return;
+
+      const token = parseInviteToken(code.data);
+      if (token) {
+        cancelAnimationFrame(frameId);
+        onScan(token);
+      } else {
+        setError("That QR code isn't a Picnik invite");
+      }
+    };
+
+    frameId = requestAnimationFrame(scanFrame);
+    return () => cancelAnimationFrame(frameId);
+  }, [stream, videoRef, onScan]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl max-w-md w-full overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Scan a picnic QR code
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+            >
+              <span className="sr-only">Close</span>
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4">
+          <div className="relative bg-black rounded-lg overflow-hidden" style={{ height: '400px' }}>
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className={`h-full w-full object-cover ${stream ? '' : 'hidden'}`}
+            />
+            {!stream && (
+              <div className="h-full flex items-center justify-center bg-gray-200 dark:bg-gray-700 p-4 text-center">
+                <p className="text-gray-500 dark:text-gray-400">
+                  {cameraError || 'Loading camera...'}
+                </p>
+              </div>
+            )}
+            {stream && (
+              <>
+                <div className="absolute inset-12 border-4 border-white border-opacity-75 rounded-lg pointer-events-none" />
+                <div className="absolute bottom-4 left-0 right-0 flex justify-center">
+                  <div className="bg-black bg-opacity-50 text-white px-4 py-2 rounded-full text-sm">
+                    Point at the host's QR code
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+          <canvas ref={canvasRef} className="hidden" />
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm rounded-lg">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QRScannerModal;
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircleIcon, TrashIcon, TrophyIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import type { VotingMethod } from '../firebase/db';
+import type { Picnic } from '../firebase/picnics';
+import {
+  castBallot,
+  closeVote,
+  isRankedMethod,
+  openVote,
+  removeCandidate,
+  tallyPicnicVote,
+  validateBallot,
+  VOTING_METHOD_LABELS,
+  type VoteCandidate,
+} from '../firebase/votes';
+import type { TallyResult } from '../firebase/voteTally';
+import { isAttending } from '../firebase/participants';
+import { usePicnicBallots } from '../hooks/usePicnicBallots';
+import { usePicnicParticipants } from '../hooks/usePicnicParticipants';
+
+interface RestaurantVotePanelProps {
+  picnic: Picnic;
+}
+
+const VOTING_METHODS = Object.keys(VOTING_METHOD_LABELS) as VotingMethod[];
+
+const TIE_BREAK_LABELS = {
+  rating: 'a higher rating',
+  distance: 'being closer to the picnic',
+  name: 'alphabetical order',
+};
+
+// How the current result was reached, one line per round
+function TallyExplanation({ result, candidates }: { result: TallyResult; candidates: VoteCandidate[] }) {
+  const nameOf = (id: string) => candidates.find(c => c.id === id)?.name ?? 'A removed restaurant';
+  const lines = result.rounds.flatMap(round => [
+    ...(round.eliminated
+      ? [`Round ${round.round}: ${nameOf(round.eliminated)} had the fewest votes and was dropped`]
+      : []),
+    ...(round.tieBreak
+      ? [`${round.eliminated ? 'Last' : 'First'} place was tied, settled by ${TIE_BREAK_LABELS[round.tieBreak.decidedBy]}`]
+      : []),
+  ]);
+
+  if (lines.length === 0) return null;
+
+  return (
+    <ul className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+      {lines.map((line, index) => <li key={index}>{line}</li>)}
+    </ul>
+  );
+}
+
+function RestaurantVotePanel({ picnic }: RestaurantVotePanelProps) {
+  const { currentUser } = useAuth();
+  const { ballots: allBallots } = usePicnicBallots(picnic.vote ? picnic.id : undefined, picnic.vote?.round);
+  const { participants } = usePicnicParticipants(picnic.vote ? picnic.id : undefined);
+  const [method, setMethod] = useState<VotingMethod>('single');
+  const [choices, setChoices] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ballots from people who stopped coming don't count, the same as when the vote closes
+  const ballots = useMemo(() => {
+    const attending = new Set(participants.filter(p => isAttending(p.rsvpStatus)).map(p => p.id));
+    return allBallots.filter(ballot => attending.has(ballot.userId));
+  }, [allBallots, participants]);
+
+  const vote = picnic.vote;
+  const isHost = currentUser?.uid === picnic.hostId;
+  const myBallot = ballots.find(b => b.userId === currentUser?.uid);
+
+  // Start from the ballot already cast, if any
+  useEffect(() => {
+    setChoices(myBallot?.choices ?? []);
+  }, [myBallot]);
+
+  const origin = picnic.location.coordinates;
+  const result = useMemo(() => (vote ? tallyPicnicVote(vote, ballots, origin) : null), [vote, ballots, origin]);
+  // First round scores, so instant-runoff shows everyone's first choices
+  const scores = result?.rounds[0]?.scores ?? {};
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!currentUser || picnic.status !== 'planning') return null;
+
+  if (!vote || vote.status === 'closed') {
+    if (!isHost) return null;
+
+    return (
+      <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow space-y-3">
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          Not sure about {picnic.restaurantName}? Let everyone vote on where to go.
+        </p>
+        <div className="flex items-center space-x-2">
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as VotingMethod)}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-white"
+          >
+            {VOTING_METHODS.map(m => (
+              <option key={m} value={m}>{VOTING_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => run(() => openVote(picnic.id, currentUser.uid, method))}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            Start a Vote
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    );
+  }
+
+  const toggleChoice = (candidateId: string) => {
+    setChoices(prev => {
+      if (prev.includes(candidateId)) return prev.filter(id => id !== candidateId);
+      // A single pick replaces the previous one, the others add to the list in order
+      return vote.method === 'single' ? [candidateId] : [...prev, candidateId];
+    });
+  };
+
+  const ballotError = validateBallot(vote, choices);
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">Where should we go?</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {picnic.name} · {VOTING_METHOD_LABELS[vote.method]}
+          </p>
+        </div>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {ballots.length} {ballots.length === 1 ? 'vote' : 'votes'}
+        </span>
+      </div>
+
+      {vote.candidates.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Suggest restaurants from the Restaurants tab to add them here.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {vote.candidates.map(candidate => {
+            const rank = choices.indexOf(candidate.id);
+            return (
+              <li key={candidate.id} className="flex items-center space-x-2">
+                <button
+                  onClick={() => toggleChoice(candidate.id)}
+                  className={`flex-1 flex items-center justify-between px-3 py-2 rounded-lg border text-left text-sm ${
+                    rank >= 0
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <span className="flex items-center min-w-0">
+                    {rank >= 0 && (
+                      isRankedMethod(vote.method)
+                        ? <span className="mr-2 font-semibold text-blue-600 dark:text-blue-300">{rank + 1}</span>
+                        : <CheckCircleIcon className="mr-2 h-4 w-4 text-blue-500" />
+                    )}
+                    <span className="truncate text-gray-900 dark:text-white">{candidate.name}</span>
+                  </span>
+                  <span className={`ml-2 ${
+                    result?.winnerId === candidate.id ? 'font-semibold text-blue-600 dark:text-blue-300' : 'text-gray-500 dark:text-gray-400'
+                  }`}>
+                    {scores[candidate.id] ?? 0}
+                  </span>
+                </button>
+                {isHost && (
+                  <button
+                    onClick={() => run(() => removeCandidate(picnic.id, currentUser.uid, candidate.id))}
+                    disabled={isSaving}
+                    className="p-2 text-gray-400 hover:text-red-500"
+                    aria-label={`Remove ${candidate.name}`}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {result && <TallyExplanation result={result} candidates={vote.candidates} />}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <div className="flex justify-end space-x-2">
+        {isHost && (
+          <button
+            onClick={() => run(() => closeVote(picnic.id, currentUser.uid))}
+            disabled={isSaving}
+            className="px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 text-sm rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center space-x-1"
+          >
+            <TrophyIcon className="h-4 w-4" />
+            <span>Close Vote</span>
+          </button>
+        )}
+        <button
+          onClick={() => run(() => castBallot(picnic.id, currentUser.uid, choices))}
+          disabled={isSaving || !!ballotError}
+          className="px-3 py-1.5 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {myBallot ? 'Update Vote' : 'Vote'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default RestaurantVotePanel;
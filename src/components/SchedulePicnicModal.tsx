@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { validatePicnicSchedule, type PicnicVisibility } from '../firebase/picnics';
+import PicnicVisibilitySelect from './PicnicVisibilitySelect';
+
+export interface PicnicSchedule {
+  date: Date;
+  rsvpDeadline: Date | null;
+  visibility: PicnicVisibility;
+}
+
+interface SchedulePicnicModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSchedule: (schedule: PicnicSchedule) => void;
+  isLoading?: boolean;
+  restaurantName?: string;
+  defaultStart?: Date | null; // Suggested start, tomorrow at noon when not given
+}
+
+// <input type="datetime-local"> works with local time strings without a timezone
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const SchedulePicnicModal: React.FC<SchedulePicnicModalProps> = ({
+  isOpen,
+  onClose,
+  onSchedule,
+  isLoading = false,
+  restaurantName = 'the park',
+  defaultStart = null
+}) => {
+  const [startsAt, setStartsAt] = useState('');
+  const [rsvpBy, setRsvpBy] = useState('');
+  const [visibility, setVisibility] = useState<PicnicVisibility>('private');
+  const [error, setError] = useState<string | null>(null);
+
+  // Suggest tomorrow at noon, or the given start, every time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const tomorrowNoon = new Date();
+    tomorrowNoon.setDate(tomorrowNoon.getDate() + 1);
+    tomorrowNoon.setHours(12, 0, 0, 0);
+    setStartsAt(toInputValue(defaultStart ?? tomorrowNoon));
+    setRsvpBy('');
+    setVisibility('private');
+    setError(null);
+  }, [isOpen, defaultStart]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const date = startsAt ? new Date(startsAt) : null;
+    const rsvpDeadline = rsvpBy ? new Date(rsvpBy) : null;
+    const scheduleError = validatePicnicSchedule({ date, endDate: null, rsvpDeadline });
+    if (scheduleError || !date) {
+      setError(scheduleError);
+      return;
+    }
+
+    setError(null);
+    onSchedule({ date, rsvpDeadline, visibility });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl max-w-md w-full overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              Plan a picnic at {restaurantName}
+            </h3>
+            {!isLoading && (
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+              >
+                <span className="sr-only">Close</span>
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Date and time
+            </label>
+            <input
+              type="datetime-local"
+              value={startsAt}
+              min={toInputValue(new Date())}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              RSVP by <span className="text-gray-400">(optional)</span>
+            </label>
+            <input
+              type="datetime-local"
+              value={rsvpBy}
+              min={toInputValue(new Date())}
+              max={startsAt || undefined}
+              onChange={(e) => setRsvpBy(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+
+          <PicnicVisibilitySelect value={visibility} onChange={setVisibility} disabled={isLoading} />
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Scheduling...' : 'Schedule Picnic'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePicnicModal;
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { QueueListIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_AVATAR_URL, type Picnic } from '../firebase/picnics';
+import {
+  setPicnicCapacity,
+  waitlistPosition,
+  MIN_PICNIC_CAPACITY,
+  type PicnicParticipant,
+} from '../firebase/participants';
+
+interface WaitlistPanelProps {
+  picnic: Picnic;
+  participants: PicnicParticipant[];
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+// How many people can come, and who's waiting for a spot when it's full
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ picnic, participants }) => {
+  const { currentUser } = useAuth();
+  const [limit, setLimit] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLimit(picnic.capacity === null ? '' : String(picnic.capacity));
+  }, [picnic.capacity]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!currentUser || picnic.status === 'cancelled' || picnic.status === 'completed') return null;
+
+  const isHost = currentUser.uid === picnic.hostId;
+  const myPosition = waitlistPosition(picnic, currentUser.uid);
+  const waiting = picnic.waitlistIds
+    .map(userId => participants.find(participant => participant.id === userId))
+    .filter((participant): participant is PicnicParticipant => participant?.rsvpStatus === 'waitlisted');
+
+  if (!isHost && picnic.capacity === null && waiting.length === 0) return null;
+
+  const spotsLeft = picnic.capacity === null ? null : Math.max(picnic.capacity - picnic.participantCount, 0);
+
+  const handleSetLimit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (limit.trim()) run(() => setPicnicCapacity(picnic.id, currentUser.uid, Number(limit)));
+  };
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center">
+          <QueueListIcon className="h-5 w-5 mr-1" />
+          {spotsLeft === null ? 'No limit on numbers' : spotsLeft === 0 ? 'Full' : `${spotsLeft} ${spotsLeft === 1 ? 'spot' : 'spots'} left`}
+        </h3>
+        {waiting.length > 0 && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">{waiting.length} waiting</span>
+        )}
+      </div>
+
+      {myPosition !== null && (
+        <p className="text-sm text-yellow-700 dark:text-yellow-400">
+          You're #{myPosition} on the waitlist. You'll be notified if a spot opens up.
+        </p>
+      )}
+
+      {isHost && (
+        <form onSubmit={handleSetLimit} className="flex items-center space-x-2">
+          <input
+            type="number"
+            min={MIN_PICNIC_CAPACITY}
+            step={1}
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            placeholder="Max people"
+            className={`${inputClassName} flex-1 min-w-0`}
+            aria-label="Most people who can come"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !limit.trim() || Number(limit) === picnic.capacity}
+            className="px-3 py-2 bg-blue-500 text-white text-sm rounded-lg hover:bg-blue-600 disabled:opacity-50 whitespace-nowrap"
+          >
+            Set limit
+          </button>
+          {picnic.capacity !== null && (
+            <button
+              type="button"
+              onClick={() => run(() => setPicnicCapacity(picnic.id, currentUser.uid, null))}
+              disabled={isSaving}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 whitespace-nowrap"
+            >
+              No limit
+            </button>
+          )}
+        </form>
+      )}
+
+      {waiting.length > 0 && (
+        <ol className="space-y-1">
+          {waiting.map((participant, index) => (
+            <li key={participant.id} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <span className="w-6 text-xs text-gray-500 dark:text-gray-400">{index + 1}.</span>
+              <img
+                src={participant.picnicPhotoURL || participant.photoURL || DEFAULT_AVATAR_URL}
+                alt={participant.name || 'Participant'}
+                className="h-6 w-6 rounded-full object-cover mr-2"
+              />
+              <span className="flex-1 truncate">{participant.name || 'Participant'}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default WaitlistPanel;
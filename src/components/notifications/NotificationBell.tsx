@@ -6,6 +6,7 @@ import { useAuth } from '../../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { playSound } from '../../utils/sound';
 import { Notification } from '../../firebase/notifications';
+import { respondToPicnicInvite } from '../../firebase/picnicInvites';
 
 // Using Notification type from firebase/notifications
 
@@ -25,8 +26,17 @@ export const NotificationBell = () => {
     setIsProcessing(notification.id);
     
     try {
-      // For now, just mark as read and play sound
-      // TODO: Implement actual invite response handling
+      if (notification.picnicId) {
+        const response = await respondToPicnicInvite({
+          picnicId: notification.picnicId,
+          userId: currentUser.uid,
+          accept,
+        });
+        if (!response.success) {
+          throw new Error(response.error || response.message);
+        }
+      }
+
       await markAsRead(notification.id);
       playSound(accept ? 'success' : 'notification');
       
@@ -7,7 +7,8 @@ import VolumeUpIcon from '@mui/icons-material/VolumeUp';
 import VolumeOffIcon from '@mui/icons-material/VolumeOff';
 import EmailIcon from '@mui/icons-material/Email';
 import PushPinIcon from '@mui/icons-material/PushPin';
-import { usePushNotifications, type NotificationPreferences as NotificationPreferencesType } from '../../hooks/usePushNotifications';
+import { usePushNotifications } from '../../hooks/usePushNotifications';
+import type { NotificationPreferences as NotificationPreferencesType } from '../../firebase/notifications';
 
 type NotificationPreferencesProps = {
   onClose: () => void;
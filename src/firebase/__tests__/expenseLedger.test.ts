@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  MAX_SPLIT_PEOPLE,
+  balancesWith,
+  netBalances,
+  settleUp,
+  splitExpense,
+  validateExpenseSplit,
+  type LedgerExpense,
+} from '../expenseLedger';
+
+const expense = (overrides: Partial<LedgerExpense>): LedgerExpense => ({
+  payerId: 'ana',
+  amount: 3000,
+  currency: 'USD',
+  splitMode: 'equal',
+  splits: [{ userId: 'ana' }, { userId: 'ben' }, { userId: 'cy' }],
+  ...overrides,
+});
+
+describe('Expense ledger', () => {
+  describe('splitExpense', () => {
+    it('splits evenly', () => {
+      expect(splitExpense(expense({}))).toEqual({ ana: 1000, ben: 1000, cy: 1000 });
+    });
+
+    it('hands leftover cents out so the parts add up', () => {
+      const parts = splitExpense(expense({ amount: 1000 }));
+      expect(parts).toEqual({ ana: 334, ben: 333, cy: 333 });
+    });
+
+    it('splits by shares', () => {
+      const parts = splitExpense(expense({
+        splitMode: 'shares',
+        splits: [{ userId: 'ana', shares: 2 }, { userId: 'ben', shares: 1 }],
+      }));
+      expect(parts).toEqual({ ana: 2000, ben: 1000 });
+    });
+
+    it('uses exact amounts as given', () => {
+      const parts = splitExpense(expense({
+        splitMode: 'exact',
+        splits: [{ userId: 'ben', amount: 2500 }, { userId: 'cy', amount: 500 }],
+      }));
+      expect(parts).toEqual({ ben: 2500, cy: 500 });
+    });
+  });
+
+  describe('validateExpenseSplit', () => {
+    it('rejects exact amounts that miss the total', () => {
+      const error = validateExpenseSplit(expense({
+        splitMode: 'exact',
+        splits: [{ userId: 'ben', amount: 1000 }],
+      }));
+      expect(error).toBe("The amounts in the split don't add up to the total");
+    });
+
+    it('rejects someone in the split twice', () => {
+      const error = validateExpenseSplit(expense({ splits: [{ userId: 'ben' }, { userId: 'ben' }] }));
+      expect(error).toBe('Each person can only be in the split once');
+    });
+
+    it('rejects more people than the rules can check', () => {
+      const splits = Array.from({ length: MAX_SPLIT_PEOPLE + 1 }, (_, index) => ({ userId: `user${index}` }));
+      expect(validateExpenseSplit(expense({ splits }))).toBe(`Split it with at most ${MAX_SPLIT_PEOPLE} people`);
+    });
+  });
+
+  describe('balances', () => {
+    const expenses = [
+      expense({}),
+      expense({ payerId: 'ben', amount: 600, splits: [{ userId: 'ana' }, { userId: 'ben' }] }),
+      expense({ payerId: 'cy', amount: 1000, currency: 'EUR', splits: [{ userId: 'ana' }] }),
+    ];
+
+    it('nets everyone out per currency', () => {
+      expect(netBalances(expenses)).toEqual({
+        USD: { ana: 1700, ben: -700, cy: -1000 },
+        EUR: { cy: 1000, ana: -1000 },
+      });
+    });
+
+    it('tracks what each person owes one user', () => {
+      expect(balancesWith(expenses, 'ana')).toEqual({
+        USD: { ben: 700, cy: 1000 },
+        EUR: { cy: -1000 },
+      });
+    });
+
+    it('skips expenses whose split is invalid instead of throwing', () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const broken = expense({ splitMode: 'exact', splits: [{ userId: 'ben', amount: 1 }] });
+
+      expect(netBalances([...expenses, broken])).toEqual(netBalances(expenses));
+      expect(balancesWith([...expenses, broken], 'ana')).toEqual(balancesWith(expenses, 'ana'));
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('settleUp', () => {
+    it('settles everyone with as few transfers as it can', () => {
+      const transfers = settleUp({ USD: { ana: 1700, ben: -700, cy: -1000 } });
+      expect(transfers).toEqual([
+        { from: 'cy', to: 'ana', amount: 1000, currency: 'USD' },
+        { from: 'ben', to: 'ana', amount: 700, currency: 'USD' },
+      ]);
+    });
+
+    it('routes around middlemen', () => {
+      // Ben owes Ana and Cy owes Ben the same, so Cy can pay Ana directly
+      const transfers = settleUp({ USD: { ana: 500, ben: 0, cy: -500 } });
+      expect(transfers).toEqual([{ from: 'cy', to: 'ana', amount: 500, currency: 'USD' }]);
+    });
+
+    it('has nothing to do when everyone is square', () => {
+      expect(settleUp({ USD: { ana: 0, ben: 0 } })).toHaveLength(0);
+    });
+  });
+});
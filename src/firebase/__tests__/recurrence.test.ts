@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { describeRecurrence, occurrenceDate, occurrencesBetween, type RecurrenceRule } from '../recurrence';
+
+// Friday 3 January 2025, 12:30 local time
+const firstFriday = new Date(2025, 0, 3, 12, 30);
+
+const rule = (frequency: RecurrenceRule['frequency'], startDate = firstFriday, until: Date | null = null): RecurrenceRule =>
+  ({ frequency, startDate, until });
+
+describe('Picnic recurrence', () => {
+  describe('occurrenceDate', () => {
+    it('starts with the first picnic', () => {
+      expect(occurrenceDate(rule('weekly'), 0)).toEqual(firstFriday);
+    });
+
+    it('repeats weekly and every other week at the same time of day', () => {
+      expect(occurrenceDate(rule('weekly'), 3)).toEqual(new Date(2025, 0, 24, 12, 30));
+      expect(occurrenceDate(rule('biweekly'), 3)).toEqual(new Date(2025, 1, 14, 12, 30));
+    });
+
+    it('keeps the wall-clock time across daylight saving changes', () => {
+      const date = occurrenceDate(rule('weekly'), 20);
+      expect(date.getHours()).toBe(12);
+      expect(date.getMinutes()).toBe(30);
+      expect(date.getDay()).toBe(5);
+    });
+
+    it('keeps the wall-clock time in the series time zone, wherever it is worked out', () => {
+      // Friday 7 March 2025, 12:30 in New York, two days before clocks go forward
+      const nyRule = { ...rule('weekly', new Date(Date.UTC(2025, 2, 7, 17, 30))), timeZone: 'America/New_York' };
+      expect(occurrenceDate(nyRule, 1)).toEqual(new Date(Date.UTC(2025, 2, 14, 16, 30)));
+      expect(occurrenceDate({ ...nyRule, frequency: 'monthly' }, 1)).toEqual(new Date(Date.UTC(2025, 3, 4, 16, 30)));
+    });
+
+    it('lands on the same weekday of the month', () => {
+      // 2nd Tuesday of March 2025 is the 11th
+      const secondTuesday = new Date(2025, 2, 11, 18, 0);
+      expect(occurrenceDate(rule('monthly', secondTuesday), 1)).toEqual(new Date(2025, 3, 8, 18, 0));
+      expect(occurrenceDate(rule('monthly', secondTuesday), 2)).toEqual(new Date(2025, 4, 13, 18, 0));
+    });
+
+    it('uses the last weekday when the first picnic was in the fifth week', () => {
+      // Friday 31 January 2025 is the 5th Friday, February only has four
+      const lastFriday = new Date(2025, 0, 31, 12, 0);
+      expect(occurrenceDate(rule('monthly', lastFriday), 1)).toEqual(new Date(2025, 1, 28, 12, 0));
+      expect(occurrenceDate(rule('monthly', lastFriday), 2)).toEqual(new Date(2025, 2, 28, 12, 0));
+    });
+  });
+
+  describe('occurrencesBetween', () => {
+    it('lists upcoming occurrences, leaving out skipped ones', () => {
+      const occurrences = occurrencesBetween(rule('weekly'), firstFriday, new Date(2025, 0, 31, 23, 59), [2]);
+      expect(occurrences.map(occurrence => occurrence.index)).toEqual([1, 3, 4]);
+    });
+
+    it('stops at the end of the series', () => {
+      const occurrences = occurrencesBetween(
+        rule('weekly', firstFriday, new Date(2025, 0, 20)),
+        new Date(2024, 11, 1),
+        new Date(2025, 2, 1)
+      );
+      expect(occurrences.map(occurrence => occurrence.index)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('says how the series repeats', () => {
+      expect(describeRecurrence(rule('weekly'))).toBe('Every Friday');
+      expect(describeRecurrence(rule('biweekly'))).toBe('Every other Friday');
+      expect(describeRecurrence(rule('monthly'))).toBe('The 1st Friday of every month');
+      expect(describeRecurrence(rule('monthly', new Date(2025, 0, 31)))).toBe('The last Friday of every month');
+    });
+  });
+});
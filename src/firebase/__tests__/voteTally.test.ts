@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { breakTie, tallyVotes, type TallyCandidate } from '../voteTally';
+
+const candidates: TallyCandidate[] = [
+  { id: 'tacos', name: 'Taco Stand', rating: 4.5, distance: 2 },
+  { id: 'pizza', name: 'Pizza Place', rating: 4.2, distance: 1 },
+  { id: 'sushi', name: 'Sushi Bar', rating: 4.5, distance: 3 },
+];
+
+const ballots = (...choices: string[][]) => choices.map(c => ({ choices: c }));
+
+describe('Vote tally', () => {
+  describe('plurality', () => {
+    it('picks the most first choices', () => {
+      const result = tallyVotes('plurality', candidates, ballots(['tacos'], ['pizza'], ['tacos']));
+      expect(result.winnerId).toBe('tacos');
+      expect(result.rounds).toHaveLength(1);
+      expect(result.rounds[0].scores).toEqual({ tacos: 2, pizza: 1, sushi: 0 });
+    });
+
+    it('has no winner without ballots', () => {
+      const result = tallyVotes('plurality', candidates, []);
+      expect(result.winnerId).toBeNull();
+      expect(result.ranking).toHaveLength(3);
+    });
+  });
+
+  describe('approval', () => {
+    it('counts every approved restaurant', () => {
+      const result = tallyVotes('approval', candidates, ballots(['tacos', 'pizza'], ['pizza'], ['sushi']));
+      expect(result.winnerId).toBe('pizza');
+      expect(result.rounds[0].scores.pizza).toBe(2);
+    });
+
+    it('ignores restaurants off the shortlist and repeated picks', () => {
+      const result = tallyVotes('approval', candidates, ballots(['burgers', 'sushi', 'sushi']));
+      expect(result.rounds[0].scores).toEqual({ tacos: 0, pizza: 0, sushi: 1 });
+    });
+  });
+
+  describe('borda', () => {
+    it('gives points by place', () => {
+      const result = tallyVotes('borda', candidates, ballots(
+        ['tacos', 'pizza', 'sushi'],
+        ['sushi', 'pizza', 'tacos'],
+        ['pizza', 'sushi'],
+      ));
+      expect(result.rounds[0].scores).toEqual({ tacos: 2, pizza: 4, sushi: 3 });
+      expect(result.winnerId).toBe('pizza');
+      expect(result.ranking).toEqual(['pizza', 'sushi', 'tacos']);
+    });
+  });
+
+  describe('instant-runoff', () => {
+    it('wins outright with a first round majority', () => {
+      const result = tallyVotes('instant-runoff', candidates, ballots(['pizza'], ['pizza'], ['tacos']));
+      expect(result.winnerId).toBe('pizza');
+      expect(result.rounds).toHaveLength(1);
+    });
+
+    it('transfers votes from the last place restaurant', () => {
+      const result = tallyVotes('instant-runoff', candidates, ballots(
+        ['tacos'], ['tacos'], ['tacos'],
+        ['pizza'], ['pizza'],
+        ['sushi', 'pizza'], ['sushi', 'pizza'],
+        ['sushi'],
+      ));
+      expect(result.rounds[0].eliminated).toBe('pizza');
+      expect(result.rounds[1].scores).toEqual({ tacos: 3, sushi: 3 });
+      expect(result.rounds[1].exhaustedBallots).toBe(2);
+      // Tacos and sushi share a rating, tacos is closer so sushi goes
+      expect(result.rounds[1].eliminated).toBe('sushi');
+      expect(result.rounds[1].tieBreak?.decidedBy).toBe('distance');
+      expect(result.rounds).toHaveLength(3);
+      expect(result.winnerId).toBe('tacos');
+    });
+
+    it('counts exhausted ballots and picks a winner among the rest', () => {
+      const result = tallyVotes('instant-runoff', candidates, ballots(
+        ['tacos', 'sushi'], ['tacos'], ['pizza', 'sushi'], ['sushi'], ['sushi'],
+      ));
+      expect(result.rounds[0].eliminated).toBe('pizza');
+      expect(result.rounds[1].scores).toEqual({ tacos: 2, sushi: 3 });
+      expect(result.winnerId).toBe('sushi');
+      expect(result.ranking).toEqual(['sushi', 'tacos', 'pizza']);
+    });
+
+    it('drops the worst of several last place restaurants by the tie break', () => {
+      const result = tallyVotes('instant-runoff', candidates, ballots(['tacos'], ['pizza'], ['sushi']));
+      expect(result.rounds[0].eliminated).toBe('pizza');
+      expect(result.rounds[0].tieBreak?.decidedBy).toBe('rating');
+    });
+
+    it('has no winner without ballots', () => {
+      expect(tallyVotes('instant-runoff', candidates, []).winnerId).toBeNull();
+    });
+  });
+
+  describe('tie breaks', () => {
+    it('prefers rating, then distance, then name', () => {
+      expect(breakTie(candidates)).toEqual({ candidateIds: ['tacos', 'sushi', 'pizza'], decidedBy: 'distance' });
+      expect(breakTie([{ id: 'a', name: 'Zucchini' }, { id: 'b', name: 'Avocado' }]))
+        .toEqual({ candidateIds: ['b', 'a'], decidedBy: 'name' });
+      expect(breakTie([{ id: 'b' }, { id: 'a' }])).toEqual({ candidateIds: ['a', 'b'], decidedBy: 'name' });
+    });
+
+    it('does not depend on the order candidates were added', () => {
+      const forwards = tallyVotes('plurality', candidates, ballots(['tacos'], ['sushi']));
+      const backwards = tallyVotes('plurality', [...candidates].reverse(), ballots(['sushi'], ['tacos']));
+      expect(forwards.winnerId).toBe('tacos');
+      expect(backwards.winnerId).toBe('tacos');
+      expect(forwards.rounds[0].tieBreak?.decidedBy).toBe('distance');
+    });
+  });
+});
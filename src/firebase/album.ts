@@ -0,0 +1,329 @@
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { getStorage, ref, deleteObject } from 'firebase/storage';
+import { db } from './config';
+import { thumbnailPathFor, uploadImage } from './images';
+import { picnicConverter } from './picnics';
+import { isAttending, participantRef, type ParticipantProfile } from './participants';
+
+// Types
+export interface AlbumPhoto {
+  id: string;
+  uploaderId: string;
+  uploaderName: string;
+  url: string;
+  path: string; // Storage path, so the photo can be cleaned up with the picnic
+  thumbnailURL: string | null; // Small copy for the album grid, missing for the host's original shot
+  caption: string;
+  reactions: Record<string, string[]>; // Emoji -> IDs of users who reacted with it
+  createdAt: Date;
+}
+
+export interface NewAlbumPhoto {
+  image: Blob;
+  caption: string;
+}
+
+export const ALBUM_REACTIONS = ['❤️', '😂', '😍', '👍', '🔥'];
+
+export const MAX_CAPTION_LENGTH = 200;
+
+// How many photos can go up in one go
+export const MAX_ALBUM_UPLOAD = 20;
+
+// The host's original shot is added to the album under this ID the first time a different cover is picked
+const ORIGINAL_COVER_ID = 'original-cover';
+
+export const albumPhotoConverter: FirestoreDataConverter<AlbumPhoto> = {
+  toFirestore(photo: WithFieldValue<AlbumPhoto>): DocumentData {
+    const { id, ...data } = photo;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): AlbumPhoto {
+    const data = snapshot.data({ ...options, serverTimestamps: 'estimate' });
+    return {
+      id: snapshot.id,
+      uploaderId: data.uploaderId,
+      uploaderName: data.uploaderName ?? 'Someone',
+      url: data.url,
+      path: data.path,
+      thumbnailURL: data.thumbnailURL ?? null,
+      caption: data.caption ?? '',
+      reactions: data.reactions ?? {},
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    };
+  },
+};
+
+const albumCollection = (picnicId: string) =>
+  collection(db, 'picnics', picnicId, 'photos').withConverter(albumPhotoConverter);
+
+const picnicRef = (picnicId: string) => doc(db, 'picnics', picnicId).withConverter(picnicConverter);
+
+/**
+ * Where a picnic's album photos are kept in Storage
+ */
+export const albumStoragePath = (picnicId: string) => `picnics/${picnicId}/album`;
+
+const cleanCaption = (caption: string): string => {
+  const trimmed = caption.trim();
+  if (trimmed.length > MAX_CAPTION_LENGTH) {
+    throw new Error(`Captions can be at most ${MAX_CAPTION_LENGTH} characters`);
+  }
+  return trimmed;
+};
+
+const uploadAlbumPhoto = async (
+  picnicId: string,
+  uploader: ParticipantProfile,
+  photo: NewAlbumPhoto,
+  onProgress?: (fraction: number) => void
+): Promise<AlbumPhoto> => {
+  const photoRef = doc(albumCollection(picnicId));
+  const upload = await uploadImage(
+    `${albumStoragePath(picnicId)}/${uploader.id}_${photoRef.id}.jpg`,
+    photo.image,
+    { onProgress }
+  );
+
+  const albumPhoto: AlbumPhoto = {
+    id: photoRef.id,
+    uploaderId: uploader.id,
+    uploaderName: uploader.name ?? 'Someone',
+    url: upload.url,
+    path: upload.path,
+    thumbnailURL: upload.thumbnailURL,
+    caption: photo.caption,
+    reactions: {},
+    createdAt: new Date(),
+  };
+  await setDoc(photoRef, { ...albumPhoto, createdAt: serverTimestamp() });
+  return albumPhoto;
+};
+
+/**
+ * Add photos to a picnic's album. Anyone going, maybe going or checked in can.
+ * Photos that upload are kept even if others in the batch fail.
+ * Progress is reported from 0 to 1 across the whole batch.
+ */
+export const addAlbumPhotos = async (
+  picnicId: string,
+  uploader: ParticipantProfile,
+  photos: NewAlbumPhoto[],
+  onProgress?: (fraction: number) => void
+): Promise<AlbumPhoto[]> => {
+  try {
+    if (photos.length === 0) throw new Error('Pick at least one photo');
+    if (photos.length > MAX_ALBUM_UPLOAD) {
+      throw new Error(`You can add up to ${MAX_ALBUM_UPLOAD} photos at a time`);
+    }
+    const cleaned = photos.map(photo => ({ ...photo, caption: cleanCaption(photo.caption) }));
+
+    const participantSnap = await getDoc(participantRef(picnicId, uploader.id));
+    if (!isAttending(participantSnap.data()?.rsvpStatus)) {
+      throw new Error('Only people coming to this picnic can add photos');
+    }
+
+    const progress = cleaned.map(() => 0);
+    const results = await Promise.allSettled(cleaned.map((photo, index) =>
+      uploadAlbumPhoto(picnicId, uploader, photo, (fraction) => {
+        progress[index] = fraction;
+        onProgress?.(progress.reduce((sum, value) => sum + value, 0) / progress.length);
+      })
+    ));
+    const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    failed.forEach(result => console.error('Error uploading album photo:', result.reason));
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} of ${photos.length} photos didn't upload. Please try those again.`);
+    }
+    return results.map(result => (result as PromiseFulfilledResult<AlbumPhoto>).value);
+  } catch (error) {
+    console.error('Error adding album photos:', error);
+    throw error;
+  }
+};
+
+/**
+ * Change a photo's caption. Only whoever uploaded it can.
+ */
+export const updateAlbumCaption = async (
+  picnicId: string,
+  photoId: string,
+  userId: string,
+  caption: string
+): Promise<void> => {
+  try {
+    const cleaned = cleanCaption(caption);
+    await runTransaction(db, async (transaction) => {
+      const photoSnap = await transaction.get(doc(albumCollection(picnicId), photoId));
+      const photo = photoSnap.data();
+      if (!photo) throw new Error('That photo is no longer in the album');
+      if (photo.uploaderId !== userId) throw new Error('Only whoever added a photo can caption it');
+
+      transaction.update(photoSnap.ref, { caption: cleaned });
+    });
+  } catch (error) {
+    console.error('Error updating album caption:', error);
+    throw error;
+  }
+};
+
+/**
+ * React to a photo with one of ALBUM_REACTIONS, or take the reaction back if it's already there
+ */
+export const toggleAlbumReaction = async (
+  picnicId: string,
+  photoId: string,
+  userId: string,
+  emoji: string
+): Promise<void> => {
+  try {
+    if (!ALBUM_REACTIONS.includes(emoji)) throw new Error('Pick one of the reactions');
+
+    await runTransaction(db, async (transaction) => {
+      const participantSnap = await transaction.get(participantRef(picnicId, userId));
+      if (!isAttending(participantSnap.data()?.rsvpStatus)) {
+        throw new Error('Only people coming to this picnic can react to photos');
+      }
+      const photoSnap = await transaction.get(doc(albumCollection(picnicId), photoId));
+      const photo = photoSnap.data();
+      if (!photo) throw new Error('That photo is no longer in the album');
+
+      const reacted = photo.reactions[emoji] ?? [];
+      const updated = reacted.includes(userId) ? reacted.filter(id => id !== userId) : [...reacted, userId];
+      const { [emoji]: _previous, ...otherReactions } = photo.reactions;
+      transaction.update(photoSnap.ref, {
+        reactions: updated.length > 0 ? { ...otherReactions, [emoji]: updated } : otherReactions,
+      });
+    });
+  } catch (error) {
+    console.error('Error reacting to album photo:', error);
+    throw error;
+  }
+};
+
+/**
+ * Make an album photo the picnic's cover, replacing its photoURL. Only the host can.
+ * The host's original shot is kept in the album so it can be picked again.
+ */
+export const setAlbumCover = async (picnicId: string, photoId: string, hostId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const picnic = picnicSnap.data();
+      if (!picnic) throw new Error('Picnic not found');
+      if (picnic.hostId !== hostId) throw new Error('Only the host can pick the cover photo');
+
+      const photoSnap = await transaction.get(doc(albumCollection(picnicId), photoId));
+      const photo = photoSnap.data();
+      if (!photo) throw new Error('That photo is no longer in the album');
+
+      const originalRef = doc(albumCollection(picnicId), ORIGINAL_COVER_ID);
+      const originalSnap = await transaction.get(originalRef);
+      const isAlbumCover = picnic.photoPath?.startsWith(`${albumStoragePath(picnicId)}/`);
+      if (picnic.photoURL && picnic.photoPath && !isAlbumCover && !originalSnap.exists()) {
+        transaction.set(originalRef, {
+          id: ORIGINAL_COVER_ID,
+          uploaderId: picnic.hostId,
+          uploaderName: picnic.hostName,
+          url: picnic.photoURL,
+          path: picnic.photoPath,
+          thumbnailURL: null,
+          caption: '',
+          reactions: {},
+          createdAt: Timestamp.fromDate(picnic.createdAt),
+        });
+      }
+
+      transaction.update(picnicSnap.ref, {
+        photoURL: photo.url,
+        photoPath: photo.path,
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error setting album cover:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a photo from the album and Storage. Whoever uploaded it and the host can.
+ * Deleting the cover photo leaves the picnic without one.
+ */
+export const deleteAlbumPhoto = async (picnicId: string, photoId: string, userId: string): Promise<void> => {
+  try {
+    const deleted = await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const picnic = picnicSnap.data();
+      if (!picnic) throw new Error('Picnic not found');
+
+      const photoSnap = await transaction.get(doc(albumCollection(picnicId), photoId));
+      const photo = photoSnap.data();
+      if (!photo) return null;
+      if (photo.uploaderId !== userId && picnic.hostId !== userId) {
+        throw new Error('Only the host or whoever added a photo can delete it');
+      }
+
+      transaction.delete(photoSnap.ref);
+      if (picnic.photoPath === photo.path) {
+        transaction.update(picnicSnap.ref, {
+          photoURL: deleteField(),
+          photoPath: deleteField(),
+          updatedAt: serverTimestamp(),
+        });
+      }
+      return photo;
+    });
+
+    if (deleted) {
+      const paths = deleted.thumbnailURL ? [deleted.path, thumbnailPathFor(deleted.path)] : [deleted.path];
+      await Promise.all(paths.map(async (path) => {
+        try {
+          await deleteObject(ref(getStorage(), path));
+        } catch (error: any) {
+          if (error?.code !== 'storage/object-not-found') throw error;
+        }
+      }));
+    }
+  } catch (error) {
+    console.error('Error deleting album photo:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to a picnic's album, newest first
+ */
+export const subscribeToAlbum = (
+  picnicId: string,
+  onChange: (photos: AlbumPhoto[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    query(albumCollection(picnicId), orderBy('createdAt', 'desc')),
+    (snapshot) => {
+      onChange(snapshot.docs.map(photoDoc => photoDoc.data()));
+    },
+    (error) => {
+      console.error('Error in album listener:', error);
+      onError(error);
+    }
+  );
@@ -0,0 +1,62 @@
+import { doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { db } from './config';
+import { generateToken } from './inviteLinks';
+
+/**
+ * Each user gets a secret calendar feed URL their calendar app can subscribe
+ * to. The token maps back to the user in calendarFeeds/{token}; the feed itself
+ * is served by the calendarFeed Cloud Function.
+ */
+
+const feedRef = (token: string) => doc(db, 'calendarFeeds', token);
+
+// Profiles are readable by other users, so the token lives where only its owner can read it
+const privateCalendarRef = (userId: string) => doc(db, 'users', userId, 'private', 'calendar');
+
+/**
+ * The URL a calendar app subscribes to. webcal:// makes phones offer to subscribe.
+ */
+export const calendarFeedUrl = (token: string, protocol: 'https' | 'webcal' = 'https'): string =>
+  `${protocol}://${window.location.host}/calendar/${token}.ics`;
+
+/**
+ * Get a user's calendar feed token, making one the first time
+ */
+export const getCalendarFeedToken = async (userId: string): Promise<string> => {
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const calendarSnap = await transaction.get(privateCalendarRef(userId));
+      const existing = calendarSnap.get('calendarFeedToken');
+      if (typeof existing === 'string' && existing) return existing;
+
+      const token = generateToken();
+      transaction.set(feedRef(token), { userId, createdAt: serverTimestamp() });
+      transaction.set(calendarSnap.ref, { calendarFeedToken: token }, { merge: true });
+      return token;
+    });
+  } catch (error) {
+    console.error('Error getting calendar feed:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replace a user's feed token, e.g. after sharing the URL by mistake. The old URL stops working.
+ */
+export const resetCalendarFeedToken = async (userId: string): Promise<string> => {
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const calendarSnap = await transaction.get(privateCalendarRef(userId));
+      const previous = calendarSnap.get('calendarFeedToken');
+
+      const token = generateToken();
+      if (typeof previous === 'string' && previous) transaction.delete(feedRef(previous));
+      transaction.set(feedRef(token), { userId, createdAt: serverTimestamp() });
+      transaction.set(calendarSnap.ref, { calendarFeedToken: token }, { merge: true });
+      return token;
+    });
+  } catch (error) {
+    console.error('Error resetting calendar feed:', error);
+    throw error;
+  }
+};
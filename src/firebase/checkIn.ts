@@ -0,0 +1,88 @@
+import { doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './config';
+import { picnicConverter, type Picnic } from './picnics';
+import { calculateDistance, type Coordinates } from '../utils/geo';
+
+// Types
+export interface CheckInPosition extends Coordinates {
+  accuracy: number; // In metres, as reported by the device
+}
+
+export const CHECK_IN_RADIUS_OPTIONS = [100, 250, 500, 1000];
+
+export const DEFAULT_CHECK_IN_RADIUS = 250;
+
+// Check-in opens this long before a scheduled picnic starts, for people who arrive early.
+// Keep in sync with CHECK_IN_EARLY_MS in functions/src/checkIn.ts
+export const CHECK_IN_EARLY_MS = 30 * 60 * 1000;
+
+const picnicRef = (picnicId: string) => doc(db, 'picnics', picnicId).withConverter(picnicConverter);
+
+/**
+ * How far a position is from the picnic spot in km, null if the spot has no coordinates
+ */
+export const distanceToPicnic = (picnic: Pick<Picnic, 'location'>, position: Coordinates): number | null => {
+  const spot = picnic.location.coordinates;
+  if (!spot) return null;
+  return calculateDistance(position.latitude, position.longitude, spot.latitude, spot.longitude);
+};
+
+/**
+ * Whether someone can check in to a picnic right now
+ */
+export const isCheckInOpen = (
+  picnic: Pick<Picnic, 'status' | 'date' | 'checkInRadius' | 'location'>,
+  now: Date = new Date()
+): boolean => {
+  if (picnic.checkInRadius === null || !picnic.location.coordinates) return false;
+  if (picnic.status === 'active') return true;
+  return picnic.status === 'planning' && !!picnic.date && now.getTime() >= picnic.date.getTime() - CHECK_IN_EARLY_MS;
+};
+
+/**
+ * Turn check-in on with a radius in metres, or off with null. Only the host can.
+ */
+export const setCheckInRadius = async (picnicId: string, hostId: string, radius: number | null): Promise<void> => {
+  try {
+    if (radius !== null && (!Number.isFinite(radius) || radius <= 0)) {
+      throw new Error('The check-in radius has to be more than zero');
+    }
+
+    await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const picnic = picnicSnap.data();
+      if (!picnic) throw new Error('Picnic not found');
+      if (picnic.hostId !== hostId) throw new Error('Only the host can change check-in');
+      if (radius !== null && !picnic.location.coordinates) {
+        throw new Error("This picnic's spot isn't on the map, so nobody could check in");
+      }
+
+      transaction.update(picnicSnap.ref, { checkInRadius: radius, updatedAt: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error('Error setting check-in radius:', error);
+    throw error;
+  }
+};
+
+const checkInCallable = httpsCallable<{ picnicId: string; position: CheckInPosition }, { distance: number }>(
+  functions,
+  'checkIn'
+);
+
+/**
+ * Check in at a picnic from the device's position, marking the participant as checked-in
+ * when they're within the picnic's radius and ending any live location sharing.
+ * The checkIn function does it, so the radius can't be skipped, but the position is
+ * still the one the device reports. Resolves to how far away they were in km.
+ */
+export const checkIn = async (picnicId: string, position: CheckInPosition): Promise<number> => {
+  try {
+    const { data } = await checkInCallable({ picnicId, position });
+    return data.distance;
+  } catch (error) {
+    console.error('Error checking in:', error);
+    throw error;
+  }
+};
@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
 import { getFirestore } from 'firebase/firestore';
 import { getAuth } from 'firebase/auth';
+import { getFunctions } from 'firebase/functions';
 import { getAnalytics } from 'firebase/analytics';
 
 // Your web app's Firebase configuration
@@ -32,8 +33,9 @@ const app = initializeApp(firebaseConfig);
 // Initialize services
 const db = getFirestore(app);
 const auth = getAuth(app);
+const functions = getFunctions(app);
 
 const analytics = typeof window !== 'undefined' ? getAnalytics(app) : null;
 
-export { app, db, auth, analytics };
+export { app, db, auth, functions, analytics };
 export default app;
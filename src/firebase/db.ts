@@ -6,12 +6,12 @@ import {
   getDoc, 
   query, 
   where, 
-  addDoc, 
   updateDoc,
   arrayUnion,
   serverTimestamp
 } from 'firebase/firestore';
 import { db } from './config';
+import { friendRequestId } from './friends';
 
 // Extend the global Window interface to include ENV variables
 declare global {
@@ -40,31 +40,18 @@ export interface User {
   createdAt: Date;
 }
 
-export interface Picnic {
-  id: string;
-  name: string;
-  description: string;
-  location: {
-    name: string;
-    address: string;
-    coordinates: {
-      latitude: number;
-      longitude: number;
-    };
-  };
-  date: string; // ISO string
-  createdBy: string; // User ID
-  participants: string[]; // Array of user IDs
-  status: 'planning' | 'active' | 'completed' | 'cancelled';
-  createdAt: Date;
-}
+export type VotingMethod = 'single' | 'approval' | 'ranked' | 'borda';
 
+// A ballot in picnics/{picnicId}/votes/{userId}, so each user has at most one per picnic
 export interface Vote {
-  id: string;
+  id: string; // Same as userId
   userId: string;
   picnicId: string;
-  restaurantId: string;
+  restaurantId: string; // First choice
+  choices: string[]; // Restaurant IDs, in order of preference for ranked and Borda votes
+  round: number; // The vote it was cast in, see PicnicVote
   createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Restaurant {
@@ -84,8 +71,6 @@ export interface Restaurant {
 
 // Collection references
 const usersCollection = collection(db, 'users');
-const picnicsCollection = collection(db, 'picnics');
-const votesCollection = collection(db, 'votes');
 const restaurantsCollection = collection(db, 'restaurants');
 const friendRequestsCollection = collection(db, 'friendRequests');
 
@@ -190,18 +175,14 @@ export const sendFriendRequest = async (fromUserId: string, toUserEmail: string)
     
     console.log('Creating friend request with data:', requestData);
 
-    const requestRef = await addDoc(friendRequestsCollection, requestData);
+    const requestRef = doc(friendRequestsCollection, friendRequestId(fromUserId, toUserId));
+    await setDoc(requestRef, requestData);
     
     // Update the sender's sentRequests array
     await updateDoc(doc(usersCollection, fromUserId), {
       sentRequests: arrayUnion(requestRef.id)
     });
     
-    // Update the recipient's receivedRequests array
-    await updateDoc(doc(usersCollection, toUserId), {
-      receivedRequests: arrayUnion(requestRef.id)
-    });
-    
     console.log('Friend request created successfully:', {
       requestId: requestRef.id,
       fromUserId,
@@ -325,16 +306,7 @@ export const getUserFriendRequests = async (userId: string) => {
     // Combine the results
     const allRequests = [...receivedSnapshot.docs, ...sentSnapshot.docs];
     
-    if (allRequests.length === 0) {
-      console.warn('No friend requests found for user:', userId);
-      // Debug: Check all requests in collection
-      const allRequestsSnapshot = await getDocs(friendRequestsCollection);
-      console.log('Total friend requests in collection:', allRequestsSnapshot.size);
-      allRequestsSnapshot.forEach((doc) => {
-        console.log('All friend request in collection:', doc.id, doc.data());
-      });
-      return [];
-    }
+    if (allRequests.length === 0) return [];
 
     const requests: FriendRequest[] = [];
     const userPromises: Promise<void>[] = [];
@@ -503,36 +475,6 @@ export const getUser = async (userId: string) => {
   return userDoc.exists() ? (userDoc.data() as User) : null;
 };
 
-// Picnic operations
-export const createPicnic = async (picnicData: Omit<Picnic, 'id' | 'createdAt'>) => {
-  const picnicRef = doc(picnicsCollection);
-  const picnic: Picnic = {
-    id: picnicRef.id,
-    ...picnicData,
-    status: 'planning',
-    createdAt: new Date(),
-  };
-  await setDoc(picnicRef, picnic);
-  return picnic;
-};
-
-export const getPicnic = async (picnicId: string) => {
-  const picnicDoc = await getDoc(doc(picnicsCollection, picnicId));
-  return picnicDoc.exists() ? (picnicDoc.data() as Picnic) : null;
-};
-
-// Vote operations
-export const addVote = async (voteData: Omit<Vote, 'id' | 'createdAt'>) => {
-  const voteRef = doc(votesCollection);
-  const vote: Vote = {
-    id: voteRef.id,
-    ...voteData,
-    createdAt: new Date(),
-  };
-  await setDoc(voteRef, vote);
-  return vote;
-};
-
 // Restaurant operations
 export const addRestaurant = async (restaurantData: Omit<Restaurant, 'id' | 'createdAt'>) => {
   const restaurantRef = doc(restaurantsCollection);
@@ -0,0 +1,124 @@
+import {
+  collection,
+  endAt,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAt,
+  where,
+} from 'firebase/firestore';
+import { db } from './config';
+import { picnicConverter, resolvePicnicStatus, type Picnic } from './picnics';
+import { calculateDistance, type Coordinates } from '../utils/geo';
+import { geohashQueryBounds } from '../utils/geohash';
+
+// Types
+export interface NearbyPicnic {
+  picnic: Picnic;
+  distance: number; // Kilometres from where the search was made
+}
+
+export type StartWindow = 'any' | 'now' | 'today' | 'week';
+
+export interface NearbyPicnicFilters {
+  startWindow: StartWindow;
+  groupSize: number; // How many people are coming together, picnics without room for them are left out
+  goodWeatherOnly: boolean;
+}
+
+export const DISCOVERY_RADII_KM = [1, 5, 10, 25, 50];
+
+export const DEFAULT_DISCOVERY_RADIUS_KM = 10;
+
+export const DEFAULT_NEARBY_FILTERS: NearbyPicnicFilters = {
+  startWindow: 'any',
+  groupSize: 1,
+  goodWeatherOnly: false,
+};
+
+export const START_WINDOWS: { value: StartWindow; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'now', label: 'Happening now' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This week' },
+];
+
+// Only picnics people can still go to, the status job keeps these up to date
+const DISCOVERABLE_STATUSES = ['planning', 'active'];
+
+// Cap each geohash range so a crowded city can't pull in thousands of picnics
+const MAX_PICNICS_PER_RANGE = 100;
+
+const picnicsCollection = collection(db, 'picnics').withConverter(picnicConverter);
+
+/**
+ * Public picnics within `radiusKm` of `center` that people can still go to,
+ * closest first. Queries the geohash ranges covering the circle, then drops
+ * the picnics in the corners of those cells that are further away.
+ */
+export const findNearbyPublicPicnics = async (center: Coordinates, radiusKm: number): Promise<NearbyPicnic[]> => {
+  try {
+    const snapshots = await Promise.all(
+      geohashQueryBounds(center, radiusKm).map(([start, end]) =>
+        getDocs(query(
+          picnicsCollection,
+          where('visibility', '==', 'public'),
+          where('status', 'in', DISCOVERABLE_STATUSES),
+          orderBy('geohash'),
+          startAt(start),
+          endAt(end),
+          limit(MAX_PICNICS_PER_RANGE)
+        ))
+      )
+    );
+
+    const now = new Date();
+    return snapshots
+      .flatMap(snapshot => snapshot.docs.map(picnicDoc => picnicDoc.data()))
+      .map(picnic => ({ ...picnic, status: resolvePicnicStatus(picnic, now) }))
+      .filter(picnic => !picnic.archived && (picnic.status === 'planning' || picnic.status === 'active'))
+      .flatMap(picnic => {
+        const coordinates = picnic.location.coordinates;
+        if (!coordinates) return [];
+        const distance = calculateDistance(center.latitude, center.longitude, coordinates.latitude, coordinates.longitude);
+        return distance <= radiusKm ? [{ picnic, distance }] : [];
+      })
+      .sort((a, b) => a.distance - b.distance);
+  } catch (error) {
+    console.error('Error finding nearby picnics:', error);
+    throw error;
+  }
+};
+
+// When a picnic starts, or now for picnics started on the spot
+export const picnicStartTime = (picnic: Pick<Picnic, 'date' | 'createdAt'>): Date => picnic.date ?? picnic.createdAt;
+
+const startsInWindow = (picnic: Picnic, window: StartWindow, now: Date): boolean => {
+  if (window === 'any') return true;
+  if (window === 'now') return picnic.status === 'active';
+
+  const start = picnicStartTime(picnic);
+  const windowEnd = new Date(now);
+  windowEnd.setHours(24, 0, 0, 0);
+  if (window === 'week') windowEnd.setDate(windowEnd.getDate() + 6);
+  return picnic.status === 'active' || start < windowEnd;
+};
+
+/**
+ * Narrow nearby picnics down to the ones that suit the search. `goodWeather`
+ * maps picnic IDs to whether the forecast suits a picnic; picnics without a
+ * forecast yet are kept so the list doesn't empty while it loads.
+ */
+export const filterNearbyPicnics = (
+  nearby: NearbyPicnic[],
+  filters: NearbyPicnicFilters,
+  goodWeather: Record<string, boolean | null>,
+  now: Date = new Date()
+): NearbyPicnic[] =>
+  nearby.filter(({ picnic }) => {
+    if (!startsInWindow(picnic, filters.startWindow, now)) return false;
+    if (picnic.capacity !== null && picnic.capacity - picnic.participantCount < filters.groupSize) return false;
+    if (filters.goodWeatherOnly && goodWeather[picnic.id] === false) return false;
+    return true;
+  });
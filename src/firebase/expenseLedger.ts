@@ -0,0 +1,174 @@
+/**
+ * Pure bookkeeping for picnic expenses. Amounts are whole minor units (cents)
+ * so splits always add back up to what was paid, and nothing here touches Firebase.
+ */
+
+// Types
+export type SplitMode = 'equal' | 'shares' | 'exact';
+
+export interface ExpenseSplit {
+  userId: string;
+  shares?: number; // 'shares' mode only
+  amount?: number; // 'exact' mode only, in minor units
+}
+
+export interface LedgerExpense {
+  payerId: string;
+  amount: number; // In minor units
+  currency: string; // ISO 4217 code
+  splitMode: SplitMode;
+  splits: ExpenseSplit[];
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+}
+
+// Currency code -> user ID -> minor units. Positive means they're owed money.
+export type Balances = Record<string, Record<string, number>>;
+
+// Firestore rules check each person in a split by index, so they only go so far
+export const MAX_SPLIT_PEOPLE = 20;
+
+/**
+ * Check an expense's split, returning an error message if it doesn't add up
+ */
+export const validateExpenseSplit = (expense: LedgerExpense): string | null => {
+  if (!Number.isInteger(expense.amount) || expense.amount <= 0) return 'The amount has to be more than zero';
+  if (expense.splits.length === 0) return 'Split it with at least one person';
+  if (expense.splits.length > MAX_SPLIT_PEOPLE) return `Split it with at most ${MAX_SPLIT_PEOPLE} people`;
+
+  const userIds = expense.splits.map(split => split.userId);
+  if (new Set(userIds).size !== userIds.length) return 'Each person can only be in the split once';
+
+  if (expense.splitMode === 'shares') {
+    if (expense.splits.some(split => !split.shares || split.shares < 0)) return 'Everyone in the split needs at least one share';
+  }
+  if (expense.splitMode === 'exact') {
+    if (expense.splits.some(split => !Number.isInteger(split.amount) || split.amount! < 0)) {
+      return 'Every amount in the split has to be zero or more';
+    }
+    const total = expense.splits.reduce((sum, split) => sum + split.amount!, 0);
+    if (total !== expense.amount) return "The amounts in the split don't add up to the total";
+  }
+  return null;
+};
+
+// Divide an amount in proportion to the weights, handing leftover cents to the
+// largest remainders first so the parts add up exactly
+const apportion = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map(weight => (amount * weight) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = amount - parts.reduce((sum, part) => sum + part, 0);
+
+  exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        parts[index]++;
+        leftover--;
+      }
+    });
+  return parts;
+};
+
+/**
+ * What each person in an expense's split owes towards it, by user ID
+ */
+export const splitExpense = (expense: LedgerExpense): Record<string, number> => {
+  const error = validateExpenseSplit(expense);
+  if (error) throw new Error(error);
+
+  const parts = expense.splitMode === 'exact'
+    ? expense.splits.map(split => split.amount!)
+    : apportion(expense.amount, expense.splits.map(split => (expense.splitMode === 'shares' ? split.shares! : 1)));
+
+  return Object.fromEntries(expense.splits.map((split, index) => [split.userId, parts[index]]));
+};
+
+// Expenses saved before their split was checked can't be split. Leave them out of
+// balances rather than failing every balance they're part of.
+const splitIfValid = (expense: LedgerExpense): Record<string, number> | null => {
+  const error = validateExpenseSplit(expense);
+  if (error) {
+    console.error('Skipping expense with an invalid split:', error, expense);
+    return null;
+  }
+  return splitExpense(expense);
+};
+
+const addTo = (balances: Balances, currency: string, userId: string, amount: number) => {
+  if (!balances[currency]) balances[currency] = {};
+  balances[currency][userId] = (balances[currency][userId] ?? 0) + amount;
+};
+
+/**
+ * Everyone's net position across a set of expenses, per currency. Expenses with an invalid split are skipped.
+ */
+export const netBalances = (expenses: LedgerExpense[]): Balances => {
+  const balances: Balances = {};
+  expenses.forEach(expense => {
+    const parts = splitIfValid(expense);
+    if (!parts) return;
+
+    addTo(balances, expense.currency, expense.payerId, expense.amount);
+    Object.entries(parts).forEach(([userId, owed]) => {
+      addTo(balances, expense.currency, userId, -owed);
+    });
+  });
+  return balances;
+};
+
+/**
+ * Where one user stands with each person they've shared expenses with, per currency.
+ * Positive means that person owes them. Only expenses between the two of them count,
+ * so this is exact even without seeing everyone else's expenses. Expenses with an invalid split are skipped.
+ */
+export const balancesWith = (expenses: LedgerExpense[], userId: string): Balances => {
+  const balances: Balances = {};
+  expenses.forEach(expense => {
+    Object.entries(splitIfValid(expense) ?? {}).forEach(([debtorId, owed]) => {
+      if (debtorId === expense.payerId || owed === 0) return;
+      if (expense.payerId === userId) addTo(balances, expense.currency, debtorId, owed);
+      if (debtorId === userId) addTo(balances, expense.currency, expense.payerId, -owed);
+    });
+  });
+  return balances;
+};
+
+/**
+ * Turn net balances into a short list of payments that settles everyone up.
+ * Repeatedly pays the biggest creditor from the biggest debtor, which needs at
+ * most one fewer transfer than there are people owed or owing.
+ */
+export const settleUp = (balances: Balances): Transfer[] => {
+  const transfers: Transfer[] = [];
+
+  Object.keys(balances).sort().forEach(currency => {
+    const byLargest = (a: [string, number], b: [string, number]) =>
+      Math.abs(b[1]) - Math.abs(a[1]) || (a[0] < b[0] ? -1 : 1);
+    const entries = Object.entries(balances[currency]);
+    const creditors = entries.filter(([, amount]) => amount > 0).sort(byLargest);
+    const debtors = entries.filter(([, amount]) => amount < 0).sort(byLargest);
+
+    while (creditors.length > 0 && debtors.length > 0) {
+      const [creditorId, credit] = creditors[0];
+      const [debtorId, debt] = debtors[0];
+      const amount = Math.min(credit, -debt);
+      transfers.push({ from: debtorId, to: creditorId, amount, currency });
+
+      creditors[0] = [creditorId, credit - amount];
+      debtors[0] = [debtorId, debt + amount];
+      if (creditors[0][1] === 0) creditors.shift();
+      if (debtors[0][1] === 0) debtors.shift();
+      creditors.sort(byLargest);
+      debtors.sort(byLargest);
+    }
+  });
+  return transfers;
+};
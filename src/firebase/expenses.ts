@@ -0,0 +1,259 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  where,
+  runTransaction,
+  setDoc,
+  serverTimestamp,
+  Timestamp,
+  writeBatch,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './config';
+import { picnicConverter } from './picnics';
+import { balancesWith, validateExpenseSplit, type LedgerExpense, type Transfer } from './expenseLedger';
+
+// Types
+export interface Expense extends LedgerExpense {
+  id: string;
+  picnicId: string | null; // Null for settle-ups between friends that aren't about one picnic
+  picnicName: string | null;
+  description: string;
+  participantIds: string[]; // The payer and everyone in the split, for querying
+  isSettlement: boolean; // A payment settling up rather than something bought
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type NewExpense = Pick<Expense, 'description' | 'payerId' | 'amount' | 'currency' | 'splitMode' | 'splits'>;
+
+export const expenseConverter: FirestoreDataConverter<Expense> = {
+  toFirestore(expense: WithFieldValue<Expense>): DocumentData {
+    const { id, ...data } = expense;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Expense {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      picnicId: data.picnicId ?? null,
+      picnicName: data.picnicName ?? null,
+      description: data.description ?? '',
+      payerId: data.payerId,
+      amount: data.amount,
+      currency: data.currency,
+      splitMode: data.splitMode ?? 'equal',
+      splits: data.splits ?? [],
+      participantIds: data.participantIds ?? [],
+      isSettlement: data.isSettlement ?? false,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    };
+  },
+};
+
+// Expenses live in their own collection so balances between friends can be worked out across every picnic
+const expensesCollection = collection(db, 'expenses').withConverter(expenseConverter);
+
+const picnicRef = (picnicId: string) => doc(db, 'picnics', picnicId).withConverter(picnicConverter);
+
+const newestFirst = (a: Expense, b: Expense) => b.createdAt.getTime() - a.createdAt.getTime();
+
+const involvedIn = (expense: Pick<Expense, 'payerId' | 'splits'>): string[] =>
+  Array.from(new Set([expense.payerId, ...expense.splits.map(split => split.userId)]));
+
+/**
+ * Log something bought for a picnic. Whoever logs it, pays for it and shares it has to be attending.
+ */
+export const addExpense = async (picnicId: string, userId: string, input: NewExpense): Promise<Expense> => {
+  try {
+    const description = input.description.trim();
+    if (!description) throw new Error('Say what the money was for');
+    if (!/^[A-Z]{3}$/.test(input.currency)) throw new Error('Pick a currency');
+    const splitError = validateExpenseSplit(input);
+    if (splitError) throw new Error(splitError);
+
+    const expenseRef = doc(expensesCollection);
+    return await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const picnic = picnicSnap.data();
+      if (!picnic) throw new Error('Picnic not found');
+      if (picnic.status === 'cancelled') throw new Error('This picnic was cancelled');
+
+      const attending = new Set(picnic.participantIds);
+      if (!attending.has(userId)) throw new Error('Only people going to this picnic can log expenses');
+      if (involvedIn(input).some(id => !attending.has(id))) {
+        throw new Error('Everyone paying or sharing has to be going to this picnic');
+      }
+
+      const expense: Expense = {
+        ...input,
+        id: expenseRef.id,
+        picnicId,
+        picnicName: picnic.name,
+        description,
+        participantIds: involvedIn(input),
+        isSettlement: false,
+        createdBy: userId,
+        createdAt: new Date(),
+      };
+      transaction.set(expenseRef, { ...expense, createdAt: serverTimestamp() });
+      return expense;
+    });
+  } catch (error) {
+    console.error('Error adding expense:', error);
+    throw error;
+  }
+};
+
+type SettlementPicnic = { id: string; name: string } | null;
+
+const assertCanSettle = (transfer: Transfer, userId: string) => {
+  if (userId !== transfer.from && userId !== transfer.to) {
+    throw new Error('Only the people paying or being paid can settle up');
+  }
+  if (!Number.isInteger(transfer.amount) || transfer.amount <= 0) throw new Error('Nothing to settle');
+};
+
+// Stored as an expense the debtor paid entirely on the creditor's behalf, so it nets out
+const settlementData = (id: string, transfer: Transfer, userId: string, picnic: SettlementPicnic) => ({
+  id,
+  picnicId: picnic?.id ?? null,
+  picnicName: picnic?.name ?? null,
+  description: 'Settle up',
+  payerId: transfer.from,
+  amount: transfer.amount,
+  currency: transfer.currency,
+  splitMode: 'exact' as const,
+  splits: [{ userId: transfer.to, amount: transfer.amount }],
+  participantIds: [transfer.from, transfer.to],
+  isSettlement: true,
+  createdBy: userId,
+  createdAt: serverTimestamp(),
+});
+
+/**
+ * Record that a settle-up transfer was paid. Either side of it can.
+ */
+export const recordSettlement = async (
+  transfer: Transfer,
+  userId: string,
+  picnic: SettlementPicnic = null
+): Promise<void> => {
+  try {
+    assertCanSettle(transfer, userId);
+
+    const expenseRef = doc(expensesCollection);
+    await setDoc(expenseRef, settlementData(expenseRef.id, transfer, userId, picnic));
+  } catch (error) {
+    console.error('Error recording settlement:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record that everything between a user and a friend has been paid back, in
+ * every currency. Each picnic they shared expenses on is settled on its own,
+ * so the picnic's expenses show it as paid too; only settle-ups that weren't
+ * about one picnic are netted outside them. All of it is recorded together.
+ */
+export const settleUpWithFriend = async (expenses: Expense[], userId: string, friendId: string): Promise<void> => {
+  try {
+    const byPicnic = new Map<string | null, Expense[]>();
+    expenses.forEach(expense => {
+      byPicnic.set(expense.picnicId, [...(byPicnic.get(expense.picnicId) ?? []), expense]);
+    });
+
+    const batch = writeBatch(db);
+    let settled = 0;
+    byPicnic.forEach((picnicExpenses, picnicId) => {
+      const picnic = picnicId ? { id: picnicId, name: picnicExpenses[0].picnicName ?? '' } : null;
+      Object.entries(balancesWith(picnicExpenses, userId)).forEach(([currency, friends]) => {
+        const amount = friends[friendId] ?? 0;
+        if (amount === 0) return;
+
+        const transfer = amount > 0
+          ? { from: friendId, to: userId, amount, currency }
+          : { from: userId, to: friendId, amount: -amount, currency };
+        assertCanSettle(transfer, userId);
+        const expenseRef = doc(expensesCollection);
+        batch.set(expenseRef, settlementData(expenseRef.id, transfer, userId, picnic));
+        settled++;
+      });
+    });
+    if (settled === 0) throw new Error('Nothing to settle');
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error settling up with friend:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete an expense. Whoever logged it or paid it can.
+ */
+export const deleteExpense = async (expenseId: string, userId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const expenseSnap = await transaction.get(doc(expensesCollection, expenseId));
+      const expense = expenseSnap.data();
+      if (!expense) return;
+      if (expense.createdBy !== userId && expense.payerId !== userId) {
+        throw new Error('Only whoever logged or paid an expense can delete it');
+      }
+
+      transaction.delete(expenseSnap.ref);
+    });
+  } catch (error) {
+    console.error('Error deleting expense:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to the expenses and settle-ups on a picnic that a user paid for or shares, newest first.
+ * Nobody can read expenses they're not part of.
+ */
+export const subscribeToPicnicExpenses = (
+  picnicId: string,
+  userId: string,
+  onChange: (expenses: Expense[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    query(expensesCollection, where('picnicId', '==', picnicId), where('participantIds', 'array-contains', userId)),
+    (snapshot) => {
+      onChange(snapshot.docs.map(expenseDoc => expenseDoc.data()).sort(newestFirst));
+    },
+    (error) => {
+      console.error('Error in picnic expenses listener:', error);
+      onError(error);
+    }
+  );
+
+/**
+ * Subscribe to every expense a user paid for or shares, across all their picnics, newest first
+ */
+export const subscribeToUserExpenses = (
+  userId: string,
+  onChange: (expenses: Expense[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    query(expensesCollection, where('participantIds', 'array-contains', userId)),
+    (snapshot) => {
+      onChange(snapshot.docs.map(expenseDoc => expenseDoc.data()).sort(newestFirst));
+    },
+    (error) => {
+      console.error('Error in expenses listener:', error);
+      onError(error);
+    }
+  );
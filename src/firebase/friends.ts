@@ -29,7 +29,7 @@ type FriendProfile = {
   photoURL?: string;
 };
 
-export type FriendRequestStatus = 'pending' | 'accepted' | 'rejected';
+export type FriendRequestStatus = 'pending' | 'accepted' | 'rejected' | 'removed'; // Removed once either side unfriends
 
 export interface FriendRequest {
   id: string;
@@ -49,6 +49,12 @@ export interface FriendRequest {
 const friendRequestsCollection = collection(db, 'friendRequests');
 const usersCollection = collection(db, 'users');
 
+/**
+ * Requests are keyed by sender and recipient, so the security rules can check
+ * that a request was accepted before either friends list gains the other user
+ */
+export const friendRequestId = (fromUserId: string, toUserId: string): string => `${fromUserId}_${toUserId}`;
+
 /**
  * Send a friend request from one user to another
  */
@@ -111,8 +117,8 @@ export const sendFriendRequest = async (fromUserId: string, toUserEmail: string)
       return { success: true, message: 'Friend request accepted!' };
     }
     
-    // Create new friend request
-    const requestRef = doc(friendRequestsCollection);
+    // Create new friend request, or ask again after a rejection
+    const requestRef = doc(friendRequestsCollection, friendRequestId(fromUserId, toUserId));
     const newRequest = {
       fromUserId,
       toUserId,
@@ -318,7 +324,17 @@ export const removeFriend = async (
   friendId: string
 ): Promise<{ success: boolean; message: string }> => {
   try {
+    // The accepted request stops counting too, so neither side can add themselves back without a new one
+    const requests = await Promise.all([
+      getDoc(doc(friendRequestsCollection, friendRequestId(userId, friendId))),
+      getDoc(doc(friendRequestsCollection, friendRequestId(friendId, userId))),
+    ]);
     const batch = writeBatch(db);
+    requests
+      .filter(requestDoc => requestDoc.exists() && requestDoc.data().status === 'accepted')
+      .forEach(requestDoc => {
+        batch.update(requestDoc.ref, { status: 'removed', updatedAt: serverTimestamp() });
+      });
     
     // Remove friend from user's friends list
     const userRef = doc(usersCollection, userId);
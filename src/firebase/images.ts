@@ -0,0 +1,60 @@
+import { getStorage, ref, uploadBytesResumable, getDownloadURL, type UploadTask } from 'firebase/storage';
+import { processImage, type ImageOptions } from '../utils/image';
+
+// Types
+export interface UploadedImage {
+  path: string;
+  url: string;
+  thumbnailPath: string;
+  thumbnailURL: string;
+}
+
+export interface UploadImageOptions extends ImageOptions {
+  onProgress?: (fraction: number) => void; // 0 to 1 across the image and its thumbnail
+}
+
+/**
+ * Where the thumbnail for an image is kept, next to the original
+ */
+export const thumbnailPathFor = (path: string): string =>
+  path.replace(/(\.[a-z0-9]+)?$/i, '_thumb.jpg');
+
+const waitFor = (task: UploadTask): Promise<void> =>
+  new Promise((resolve, reject) => {
+    task.on('state_changed', undefined, reject, () => resolve());
+  });
+
+/**
+ * Compress a photo and upload it with its thumbnail, reporting progress as the bytes go up.
+ * Takes camera data URLs as well as files.
+ */
+export const uploadImage = async (
+  path: string,
+  source: Blob | string,
+  { onProgress, ...imageOptions }: UploadImageOptions = {}
+): Promise<UploadedImage> => {
+  try {
+    const { image, thumbnail } = await processImage(source, imageOptions);
+    const thumbnailPath = thumbnailPathFor(path);
+    const metadata = { contentType: 'image/jpeg' };
+
+    const tasks = [
+      uploadBytesResumable(ref(getStorage(), path), image, metadata),
+      uploadBytesResumable(ref(getStorage(), thumbnailPath), thumbnail, metadata),
+    ];
+    const totalBytes = image.size + thumbnail.size;
+    tasks.forEach(task => {
+      task.on('state_changed', () => {
+        const transferred = tasks.reduce((sum, t) => sum + t.snapshot.bytesTransferred, 0);
+        onProgress?.(transferred / totalBytes);
+      });
+    });
+    await Promise.all(tasks.map(waitFor));
+
+    const [url, thumbnailURL] = await Promise.all(tasks.map(task => getDownloadURL(task.snapshot.ref)));
+    return { path, url, thumbnailPath, thumbnailURL };
+  } catch (error) {
+    console.error('Error uploading image:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,340 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  where,
+  runTransaction,
+  increment,
+  setDoc,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './config';
+import { isRsvpOpen, picnicConverter } from './picnics';
+import {
+  admittedStatus,
+  participantRef,
+  isAttending,
+  nextWaitlistPosition,
+  writeParticipantStatus,
+  type ParticipantProfile,
+  type RsvpResult,
+} from './participants';
+
+// Types
+// What signed out guests see of the picnic, who can't read the picnic itself
+export interface InviteLinkPreview {
+  hostName: string;
+  hostPhotoURL: string;
+  restaurantName: string;
+  date: Date | null;
+}
+
+export interface InviteLink {
+  id: string; // The token, also the document ID
+  picnicId: string;
+  preview: InviteLinkPreview | null; // As the picnic was when the link was made, null for older links
+  createdBy: string;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  uses: number;
+  revoked: boolean;
+  createdAt: Date;
+}
+
+export interface InviteLinkOptions {
+  expiresInMs?: number | null;
+  maxUses?: number | null;
+}
+
+export const DEFAULT_INVITE_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Links shown as a QR code are for people standing right there
+export const QR_INVITE_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (value: unknown): Date | null => (value instanceof Timestamp ? value.toDate() : null);
+
+export const inviteLinkConverter: FirestoreDataConverter<InviteLink> = {
+  toFirestore(link: WithFieldValue<InviteLink>): DocumentData {
+    const { id, ...data } = link;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): InviteLink {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      picnicId: data.picnicId,
+      preview: data.preview ? { ...data.preview, date: toDate(data.preview.date) } : null,
+      createdBy: data.createdBy,
+      expiresAt: toDate(data.expiresAt),
+      maxUses: data.maxUses ?? null,
+      uses: data.uses ?? 0,
+      revoked: data.revoked ?? false,
+      createdAt: toDate(data.createdAt) ?? new Date(),
+    };
+  },
+};
+
+// Links live in their own collection so a token is all a guest needs, the picnic ID stays private
+const inviteLinksCollection = collection(db, 'inviteLinks').withConverter(inviteLinkConverter);
+
+// Lets someone holding a link see the picnic before they join, even a private one, see firestore.rules
+const guestPassRef = (picnicId: string, userId: string) => doc(db, 'picnics', picnicId, 'guestPasses', userId);
+
+// 128 random bits, URL safe
+export const generateToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export type InviteLinkStatus = 'active' | 'revoked' | 'expired' | 'used-up';
+
+export const getInviteLinkStatus = (link: InviteLink, now: Date = new Date()): InviteLinkStatus => {
+  if (link.revoked) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now) return 'expired';
+  if (link.maxUses !== null && link.uses >= link.maxUses) return 'used-up';
+  return 'active';
+};
+
+const INVITE_LINK_ERRORS: Record<Exclude<InviteLinkStatus, 'active'>, string> = {
+  revoked: 'This invite link has been turned off',
+  expired: 'This invite link has expired',
+  'used-up': 'This invite link has been used up',
+};
+
+/**
+ * Why an invite link can't be used right now, or null if it can
+ */
+export const checkInviteLink = (link: InviteLink, now: Date = new Date()): string | null => {
+  const status = getInviteLinkStatus(link, now);
+  return status === 'active' ? null : INVITE_LINK_ERRORS[status];
+};
+
+export const inviteLinkUrl = (token: string): string => `${window.location.origin}/invite/${token}`;
+
+/**
+ * Pull the token out of a scanned or pasted invite link. Any host is accepted
+ * so links shared from the web app open in the mobile app and vice versa.
+ */
+export const parseInviteToken = (text: string): string | null => {
+  try {
+    const url = new URL(text.trim());
+    const match = url.pathname.match(/^\/invite\/([A-Za-z0-9_-]+)\/?$/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Create an invite link for a picnic. Anyone going can share the picnic this way.
+ */
+export const createInviteLink = async (
+  picnicId: string,
+  userId: string,
+  { expiresInMs = DEFAULT_INVITE_LINK_TTL_MS, maxUses = null }: InviteLinkOptions = {}
+): Promise<InviteLink> => {
+  try {
+    if (maxUses !== null && maxUses < 1) {
+      throw new Error('An invite link needs at least one use');
+    }
+
+    const ref = doc(inviteLinksCollection, generateToken());
+    const expiresAt = expiresInMs ? new Date(Date.now() + expiresInMs) : null;
+
+    const preview = await runTransaction(db, async (transaction) => {
+      const picnic = (await transaction.get(doc(db, 'picnics', picnicId).withConverter(picnicConverter))).data();
+      if (!picnic) throw new Error('Picnic not found');
+
+      const participantSnap = await transaction.get(participantRef(picnicId, userId));
+      if (!participantSnap.exists() || !isAttending(participantSnap.data().rsvpStatus)) {
+        throw new Error('Only participants can share invite links');
+      }
+
+      const preview: InviteLinkPreview = {
+        hostName: picnic.hostName,
+        hostPhotoURL: picnic.hostPhotoURL,
+        restaurantName: picnic.restaurantName,
+        date: picnic.date,
+      };
+      transaction.set(ref, {
+        id: ref.id,
+        picnicId,
+        preview,
+        createdBy: userId,
+        expiresAt,
+        maxUses,
+        uses: 0,
+        revoked: false,
+        createdAt: serverTimestamp(),
+      });
+      return preview;
+    });
+
+    return { id: ref.id, picnicId, preview, createdBy: userId, expiresAt, maxUses, uses: 0, revoked: false, createdAt: new Date() };
+  } catch (error) {
+    console.error('Error creating invite link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reuse one of the user's open-ended links for a picnic that is good for at
+ * least another hour, or create a short lived one, e.g. to show as a QR code
+ */
+export const getShareableInviteLink = async (picnicId: string, userId: string): Promise<InviteLink> => {
+  try {
+    const snapshot = await getDocs(query(
+      inviteLinksCollection,
+      where('picnicId', '==', picnicId),
+      where('createdBy', '==', userId)
+    ));
+    const inAnHour = new Date(Date.now() + 60 * 60 * 1000);
+    const reusable = snapshot.docs
+      .map(linkDoc => linkDoc.data())
+      .filter(link => link.maxUses === null && checkInviteLink(link, inAnHour) === null)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return reusable[0] ?? await createInviteLink(picnicId, userId, { expiresInMs: QR_INVITE_LINK_TTL_MS });
+  } catch (error) {
+    console.error('Error getting shareable invite link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Look up an invite link by its token
+ */
+export const getInviteLink = async (token: string): Promise<InviteLink | null> => {
+  try {
+    const linkDoc = await getDoc(doc(inviteLinksCollection, token));
+    return linkDoc.exists() ? linkDoc.data() : null;
+  } catch (error) {
+    console.error('Error getting invite link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Turn off an invite link. Whoever created it and the host can.
+ */
+export const revokeInviteLink = async (token: string, userId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const linkSnap = await transaction.get(doc(inviteLinksCollection, token));
+      const link = linkSnap.data();
+      if (!link) throw new Error('Invite link not found');
+
+      const picnicSnap = await transaction.get(doc(db, 'picnics', link.picnicId).withConverter(picnicConverter));
+      if (link.createdBy !== userId && picnicSnap.data()?.hostId !== userId) {
+        throw new Error('Only the host can turn off this invite link');
+      }
+
+      transaction.update(doc(db, 'inviteLinks', token), { revoked: true, revokedAt: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error('Error revoking invite link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Open an invite link as a signed in user. The link is checked and the user
+ * given a guest pass to see the picnic it's for, whatever its visibility, for
+ * as long as the link stays open.
+ */
+export const claimInviteLink = async (token: string, userId: string): Promise<InviteLink> => {
+  try {
+    const link = await getInviteLink(token);
+    if (!link) throw new Error('This invite link does not exist');
+    const linkError = checkInviteLink(link);
+    if (linkError) throw new Error(linkError);
+
+    await setDoc(guestPassRef(link.picnicId, userId), { token, createdAt: serverTimestamp() });
+    return link;
+  } catch (error) {
+    console.error('Error claiming invite link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Join a picnic through an invite link. The link is checked and its use
+ * counted in the same transaction, so a link can't be used more than allowed.
+ * Resolves to the picnic ID the link was for and, when the picnic is full,
+ * where the user landed on its waitlist.
+ */
+export const redeemInviteLink = async (
+  token: string,
+  profile: ParticipantProfile,
+  picnicPhotoURL?: string
+): Promise<RsvpResult & { picnicId: string }> => {
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const linkSnap = await transaction.get(doc(inviteLinksCollection, token));
+      const link = linkSnap.data();
+      if (!link) throw new Error('Invite link not found');
+
+      const picnicSnap = await transaction.get(doc(db, 'picnics', link.picnicId).withConverter(picnicConverter));
+      const picnic = picnicSnap.data();
+      if (!picnic || picnic.archived) throw new Error('Picnic not found');
+      if (picnic.status !== 'active' && !isRsvpOpen(picnic)) {
+        throw new Error(picnic.status === 'planning'
+          ? 'RSVPs for this picnic are closed'
+          : 'This picnic is no longer active');
+      }
+
+      const participantSnap = await transaction.get(participantRef(link.picnicId, profile.id));
+      const previous = participantSnap.exists() ? participantSnap.data() : null;
+
+      // People already going or waiting for a spot just get their selfie updated, and don't use the link up
+      if (!isAttending(previous?.rsvpStatus) && previous?.rsvpStatus !== 'waitlisted') {
+        const linkError = checkInviteLink(link);
+        if (linkError) throw new Error(linkError);
+        transaction.update(doc(db, 'inviteLinks', token), { uses: increment(1) });
+      }
+
+      const rsvpStatus = admittedStatus(picnic, previous?.rsvpStatus, 'going');
+      writeParticipantStatus(transaction, link.picnicId, profile, previous, rsvpStatus, { picnicPhotoURL });
+      return {
+        picnicId: link.picnicId,
+        rsvpStatus,
+        waitlistPosition: rsvpStatus === 'waitlisted' ? nextWaitlistPosition(picnic, profile.id) : null,
+      };
+    });
+  } catch (error) {
+    console.error('Error redeeming invite link:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to a picnic's invite links, newest first
+ */
+export const subscribeToInviteLinks = (
+  picnicId: string,
+  onChange: (links: InviteLink[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    query(inviteLinksCollection, where('picnicId', '==', picnicId)),
+    (snapshot) => {
+      onChange(
+        snapshot.docs
+          .map(linkDoc => linkDoc.data())
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      );
+    },
+    (error) => {
+      console.error('Error in invite links listener:', error);
+      onError(error);
+    }
+  );
@@ -0,0 +1,180 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  limitToLast,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './config';
+import { uploadImage } from './images';
+import { sendNotification, wantsNotification } from './notifications';
+import { getParticipants, isAttending, participantRef, type ParticipantProfile } from './participants';
+
+// Types
+export interface PicnicMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  senderPhotoURL: string | null;
+  text: string;
+  imageURL: string | null;
+  imagePath: string | null; // Storage path, so the image can be cleaned up with the picnic
+  createdAt: Date;
+}
+
+export const MAX_MESSAGE_LENGTH = 1000;
+
+// How many of the latest messages the chat keeps live
+const MESSAGE_PAGE_SIZE = 100;
+
+// Anyone who read the chat this recently is probably still looking at it
+const ACTIVE_READER_MS = 2 * 60 * 1000;
+
+export const messageConverter: FirestoreDataConverter<PicnicMessage> = {
+  toFirestore(message: WithFieldValue<PicnicMessage>): DocumentData {
+    const { id, ...data } = message;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): PicnicMessage {
+    // Estimate pending timestamps so a message we just sent sorts last straight away
+    const data = snapshot.data({ ...options, serverTimestamps: 'estimate' });
+    return {
+      id: snapshot.id,
+      senderId: data.senderId,
+      senderName: data.senderName ?? 'Someone',
+      senderPhotoURL: data.senderPhotoURL ?? null,
+      text: data.text ?? '',
+      imageURL: data.imageURL ?? null,
+      imagePath: data.imagePath ?? null,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    };
+  },
+};
+
+const messagesCollection = (picnicId: string) =>
+  collection(db, 'picnics', picnicId, 'messages').withConverter(messageConverter);
+
+const uploadMessageImage = (picnicId: string, senderId: string, image: Blob) =>
+  uploadImage(`picnics/${picnicId}/messages/${senderId}_${Date.now()}.jpg`, image);
+
+// Let everyone else who's coming know, unless they've turned chat notifications off
+// or are reading the thread right now
+const notifyNewMessage = async (picnicId: string, message: PicnicMessage): Promise<void> => {
+  const participants = await getParticipants(picnicId);
+  const recipients = participants.filter(participant =>
+    participant.id !== message.senderId &&
+    isAttending(participant.rsvpStatus) &&
+    !(participant.lastReadAt && Date.now() - participant.lastReadAt.getTime() < ACTIVE_READER_MS)
+  );
+
+  const results = await Promise.allSettled(
+    recipients.map(async (recipient) => {
+      if (!(await wantsNotification(recipient.id, 'message'))) return;
+      await sendNotification({
+        type: 'message',
+        senderId: message.senderId,
+        recipientId: recipient.id,
+        picnicId,
+        message: `${message.senderName}: ${message.text || 'Sent a photo'}`,
+        data: { messageId: message.id },
+      });
+    })
+  );
+  results
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .forEach(result => console.error('Error notifying participant:', result.reason));
+};
+
+/**
+ * Post a message to a picnic's chat. Only people going, maybe going or checked in can.
+ * An optional image is uploaded to Storage first.
+ */
+export const sendMessage = async (
+  picnicId: string,
+  sender: ParticipantProfile,
+  text: string,
+  image?: Blob | null
+): Promise<PicnicMessage> => {
+  try {
+    const trimmed = text.trim();
+    if (!trimmed && !image) throw new Error('Write a message or attach a photo');
+    if (trimmed.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const participantSnap = await getDoc(participantRef(picnicId, sender.id));
+    if (!isAttending(participantSnap.data()?.rsvpStatus)) {
+      throw new Error('Only people coming to this picnic can chat');
+    }
+
+    const messageRef = doc(messagesCollection(picnicId));
+    const upload = image ? await uploadMessageImage(picnicId, sender.id, image) : null;
+    const message: Omit<PicnicMessage, 'createdAt'> = {
+      id: messageRef.id,
+      senderId: sender.id,
+      senderName: sender.name ?? 'Someone',
+      senderPhotoURL: sender.photoURL,
+      text: trimmed,
+      imageURL: upload?.url ?? null,
+      imagePath: upload?.path ?? null,
+    };
+    await setDoc(messageRef, { ...message, createdAt: serverTimestamp() });
+
+    // Sending counts as reading everything before it
+    await markMessagesRead(picnicId, sender.id);
+
+    const sent: PicnicMessage = { ...message, createdAt: new Date() };
+    await notifyNewMessage(picnicId, sent).catch(error =>
+      console.error('Error sending message notifications:', error)
+    );
+    return sent;
+  } catch (error) {
+    console.error('Error sending message:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record that a participant has read the chat up to now, for read receipts
+ */
+export const markMessagesRead = async (picnicId: string, userId: string): Promise<void> => {
+  try {
+    await updateDoc(participantRef(picnicId, userId), {
+      lastReadAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error marking messages as read:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to the latest messages in a picnic's chat, oldest first
+ */
+export const subscribeToMessages = (
+  picnicId: string,
+  onChange: (messages: PicnicMessage[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    query(messagesCollection(picnicId), orderBy('createdAt', 'asc'), limitToLast(MESSAGE_PAGE_SIZE)),
+    (snapshot) => {
+      onChange(snapshot.docs.map(messageDoc => messageDoc.data()));
+    },
+    (error) => {
+      console.error('Error in messages listener:', error);
+      onError(error);
+    }
+  );
@@ -1,4 +1,4 @@
-import { collection, doc, setDoc, getDocs, query, where, updateDoc } from 'firebase/firestore';
+import { collection, doc, getDoc, setDoc, getDocs, query, where, updateDoc } from 'firebase/firestore';
 import { db } from './config';
 
 export type NotificationType = 'picnic_invite' | 'friend_request' | 'picnic_update' | 'message';
@@ -16,8 +16,44 @@ export interface Notification {
   data?: Record<string, any>; // For any additional data
 }
 
+export interface NotificationPreferences {
+  enabled: boolean;
+  sound: boolean;
+  email: boolean;
+  push: boolean;
+  types: {
+    picnicInvites: boolean;
+    friendRequests: boolean;
+    messages: boolean;
+    updates: boolean;
+  };
+}
+
 const notificationsCollection = collection(db, 'notifications');
 
+// Which switch in a user's notification preferences covers each type
+const PREFERENCE_KEYS: Record<NotificationType, keyof NotificationPreferences['types']> = {
+  picnic_invite: 'picnicInvites',
+  friend_request: 'friendRequests',
+  picnic_update: 'updates',
+  message: 'messages',
+};
+
+/**
+ * Whether a user wants notifications of this type. Users who never saved
+ * preferences get everything, matching the defaults in the settings screen.
+ */
+export const wantsNotification = async (userId: string, type: NotificationType): Promise<boolean> => {
+  try {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    const preferences = userDoc.data()?.notificationPreferences as Partial<NotificationPreferences> | undefined;
+    return preferences?.enabled !== false && preferences?.types?.[PREFERENCE_KEYS[type]] !== false;
+  } catch (error) {
+    console.error('Error getting notification preferences:', error);
+    throw error;
+  }
+};
+
 export const sendNotification = async (notification: Omit<Notification, 'id' | 'createdAt' | 'updatedAt' | 'isRead'>) => {
   try {
     const notificationRef = doc(notificationsCollection);
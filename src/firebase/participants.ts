@@ -0,0 +1,404 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  runTransaction,
+  arrayUnion,
+  arrayRemove,
+  increment,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Transaction,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './config';
+import { checkPicnicOpenTo } from './visibility';
+
+// Types
+export type RsvpStatus = 'invited' | 'going' | 'maybe' | 'declined' | 'checked-in' | 'waitlisted';
+
+export interface PicnicParticipant {
+  id: string; // User ID, also the document ID
+  name: string | null;
+  photoURL: string | null;
+  picnicPhotoURL: string | null; // Selfie taken when joining
+  rsvpStatus: RsvpStatus;
+  joinedAt: Date | null; // Set the first time the user says they're going
+  lastReadAt: Date | null; // When they last read the picnic's chat, for read receipts
+  checkedInAt: Date | null; // When they checked in at the picnic, see checkIn.ts
+  waitlistedAt: Date | null; // When they asked to go to a full picnic
+  updatedAt: Date;
+}
+
+export interface ParticipantProfile {
+  id: string;
+  name: string | null;
+  photoURL: string | null;
+}
+
+export interface RsvpResult {
+  rsvpStatus: RsvpStatus; // What they ended up as, 'waitlisted' when they asked to go to a full picnic
+  waitlistPosition: number | null; // 1 for the front of the waitlist
+}
+
+// Participants in these states count towards the picnic's "N going" label
+const COUNTED_STATUSES: RsvpStatus[] = ['going', 'checked-in'];
+// Participants in these states show up in participantIds so the picnic is in their feed
+const ATTENDING_STATUSES: RsvpStatus[] = ['going', 'maybe', 'checked-in'];
+
+export const isCounted = (status: RsvpStatus | null | undefined): boolean =>
+  !!status && COUNTED_STATUSES.includes(status);
+
+export const isAttending = (status: RsvpStatus | null | undefined): boolean =>
+  !!status && ATTENDING_STATUSES.includes(status);
+
+export const participantConverter: FirestoreDataConverter<PicnicParticipant> = {
+  toFirestore(participant: WithFieldValue<PicnicParticipant>): DocumentData {
+    const { id, ...data } = participant;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): PicnicParticipant {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      name: data.name ?? null,
+      photoURL: data.photoURL ?? null,
+      picnicPhotoURL: data.picnicPhotoURL ?? null,
+      rsvpStatus: data.rsvpStatus ?? 'going',
+      joinedAt: data.joinedAt instanceof Timestamp ? data.joinedAt.toDate() : null,
+      lastReadAt: data.lastReadAt instanceof Timestamp ? data.lastReadAt.toDate() : null,
+      checkedInAt: data.checkedInAt instanceof Timestamp ? data.checkedInAt.toDate() : null,
+      waitlistedAt: data.waitlistedAt instanceof Timestamp ? data.waitlistedAt.toDate() : null,
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
+    };
+  },
+};
+
+export const participantsCollection = (picnicId: string) =>
+  collection(db, 'picnics', picnicId, 'participants').withConverter(participantConverter);
+
+export const participantRef = (picnicId: string, userId: string) =>
+  doc(participantsCollection(picnicId), userId);
+
+// What the waitlist needs from a picnic document, read raw because picnics.ts imports this module
+interface PicnicSpots {
+  capacity: number | null;
+  participantCount: number;
+  waitlistIds: string[];
+}
+
+const spotsOf = (data: DocumentData): PicnicSpots => ({
+  capacity: data.capacity ?? null,
+  participantCount: data.participantCount ?? data.participantIds?.length ?? 0,
+  waitlistIds: data.waitlistIds ?? [],
+});
+
+export const MIN_PICNIC_CAPACITY = 2;
+
+/**
+ * The status someone asking for `rsvpStatus` actually gets: asking to go to a
+ * full picnic puts them on the waitlist. People already going keep their spot.
+ */
+export const admittedStatus = (
+  picnic: Pick<PicnicSpots, 'capacity' | 'participantCount'>,
+  previous: RsvpStatus | null | undefined,
+  rsvpStatus: RsvpStatus
+): RsvpStatus =>
+  rsvpStatus === 'going' && !isCounted(previous) && picnic.capacity !== null && picnic.participantCount >= picnic.capacity
+    ? 'waitlisted'
+    : rsvpStatus;
+
+/**
+ * Where a user is on a picnic's waitlist, 1 for the front, null if they aren't on it
+ */
+export const waitlistPosition = (picnic: Pick<PicnicSpots, 'waitlistIds'>, userId: string): number | null => {
+  const index = picnic.waitlistIds.indexOf(userId);
+  return index === -1 ? null : index + 1;
+};
+
+/**
+ * Where a user ends up on the waitlist when a transaction puts them on it:
+ * their current place if they're already waiting, otherwise the back
+ */
+export const nextWaitlistPosition = (picnic: Pick<PicnicSpots, 'waitlistIds'>, userId: string): number =>
+  waitlistPosition(picnic, userId) ?? picnic.waitlistIds.length + 1;
+
+/**
+ * Write a participant's new RSVP status inside a transaction, keeping the
+ * denormalized participantIds, invitedUsers, waitlistIds and participantCount
+ * on the picnic document in step. Callers must have read the participant in the
+ * same transaction and pass what they found as `previous`.
+ */
+export const writeParticipantStatus = (
+  transaction: Transaction,
+  picnicId: string,
+  profile: ParticipantProfile,
+  previous: PicnicParticipant | null,
+  rsvpStatus: RsvpStatus,
+  extra: { picnicPhotoURL?: string | null } = {}
+) => {
+  const countDelta = Number(isCounted(rsvpStatus)) - Number(isCounted(previous?.rsvpStatus));
+
+  transaction.set(
+    participantRef(picnicId, profile.id),
+    {
+      id: profile.id,
+      name: profile.name ?? previous?.name ?? null,
+      photoURL: profile.photoURL ?? previous?.photoURL ?? null,
+      picnicPhotoURL: extra.picnicPhotoURL ?? previous?.picnicPhotoURL ?? null,
+      rsvpStatus,
+      joinedAt: previous?.joinedAt ?? (isAttending(rsvpStatus) ? serverTimestamp() : null),
+      lastReadAt: previous?.lastReadAt ?? null,
+      checkedInAt: rsvpStatus === 'checked-in' ? previous?.checkedInAt ?? serverTimestamp() : null,
+      waitlistedAt: rsvpStatus === 'waitlisted' ? previous?.waitlistedAt ?? serverTimestamp() : null,
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  transaction.update(doc(db, 'picnics', picnicId), {
+    participantIds: isAttending(rsvpStatus) ? arrayUnion(profile.id) : arrayRemove(profile.id),
+    invitedUsers: rsvpStatus === 'invited' ? arrayUnion(profile.id) : arrayRemove(profile.id),
+    waitlistIds: rsvpStatus === 'waitlisted' ? arrayUnion(profile.id) : arrayRemove(profile.id),
+    ...(countDelta !== 0 && { participantCount: increment(countDelta) }),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Set a participant's RSVP status, creating the participant if needed as long
+ * as the picnic's visibility lets them join uninvited. Going to a full picnic
+ * puts them on the waitlist instead. A spot they give up goes to whoever is at
+ * the front of it, which the promoteWaitlist function takes care of.
+ */
+export const setRsvpStatus = async (
+  picnicId: string,
+  profile: ParticipantProfile,
+  rsvpStatus: RsvpStatus,
+  extra: { picnicPhotoURL?: string | null } = {}
+): Promise<RsvpResult> => {
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(doc(db, 'picnics', picnicId));
+      if (!picnicSnap.exists()) {
+        throw new Error('Picnic not found');
+      }
+      const picnic = spotsOf(picnicSnap.data());
+
+      const participantSnap = await transaction.get(participantRef(picnicId, profile.id));
+      const previous = participantSnap.exists() ? participantSnap.data() : null;
+      if (!previous) {
+        const { hostId, visibility = 'private' } = picnicSnap.data();
+        const closedError = await checkPicnicOpenTo({ hostId, visibility }, profile.id, transaction);
+        if (closedError) throw new Error(closedError);
+      }
+      const status = admittedStatus(picnic, previous?.rsvpStatus, rsvpStatus);
+
+      writeParticipantStatus(transaction, picnicId, profile, previous, status, extra);
+      return {
+        rsvpStatus: status,
+        waitlistPosition: status === 'waitlisted' ? nextWaitlistPosition(picnic, profile.id) : null,
+      };
+    });
+  } catch (error) {
+    console.error('Error updating RSVP:', error);
+    throw error;
+  }
+};
+
+/**
+ * Join a picnic as going, optionally with the selfie taken to join. Resolves
+ * to their waitlist position when the picnic is full.
+ */
+export const joinPicnic = async (
+  picnicId: string,
+  profile: ParticipantProfile,
+  picnicPhotoURL?: string
+): Promise<RsvpResult> => setRsvpStatus(picnicId, profile, 'going', { picnicPhotoURL });
+
+/**
+ * Leave a picnic entirely. The host can't leave their own picnic, they hand it over first.
+ * Whoever is next on the waitlist gets the spot, see promoteWaitlist in functions/.
+ */
+export const leavePicnic = async (picnicId: string, userId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const picnicRef = doc(db, 'picnics', picnicId);
+      const picnicSnap = await transaction.get(picnicRef);
+      if (!picnicSnap.exists()) {
+        throw new Error('Picnic not found');
+      }
+      if (picnicSnap.data().hostId === userId) {
+        throw new Error('The host cannot leave their own picnic');
+      }
+
+      const ref = participantRef(picnicId, userId);
+      const participantSnap = await transaction.get(ref);
+      if (!participantSnap.exists()) return;
+
+      const wasCounted = isCounted(participantSnap.data().rsvpStatus);
+      transaction.delete(ref);
+      transaction.update(picnicRef, {
+        participantIds: arrayRemove(userId),
+        invitedUsers: arrayRemove(userId),
+        waitlistIds: arrayRemove(userId),
+        ...(wasCounted && { participantCount: increment(-1) }),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error leaving picnic:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cap how many people can go, the host included, or lift the cap with null.
+ * Only the host can. Nobody going loses their spot when it's lowered, and
+ * raising it lets people in off the waitlist, see promoteWaitlist in functions/.
+ */
+export const setPicnicCapacity = async (picnicId: string, hostId: string, capacity: number | null): Promise<void> => {
+  try {
+    if (capacity !== null && (!Number.isInteger(capacity) || capacity < MIN_PICNIC_CAPACITY)) {
+      throw new Error(`Leave room for at least ${MIN_PICNIC_CAPACITY} people`);
+    }
+
+    await runTransaction(db, async (transaction) => {
+      const picnicRef = doc(db, 'picnics', picnicId);
+      const picnicSnap = await transaction.get(picnicRef);
+      if (!picnicSnap.exists()) {
+        throw new Error('Picnic not found');
+      }
+      if (picnicSnap.data().hostId !== hostId) {
+        throw new Error('Only the host can change how many people can come');
+      }
+
+      transaction.update(picnicRef, { capacity, updatedAt: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error('Error setting picnic capacity:', error);
+    throw error;
+  }
+};
+
+/**
+ * Hand hosting over to another participant who is going. Only the current host can.
+ */
+export const transferHost = async (picnicId: string, fromUserId: string, toUserId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const picnicRef = doc(db, 'picnics', picnicId);
+      const picnicSnap = await transaction.get(picnicRef);
+      if (!picnicSnap.exists()) {
+        throw new Error('Picnic not found');
+      }
+      if (picnicSnap.data().hostId !== fromUserId) {
+        throw new Error('Only the host can hand over the picnic');
+      }
+
+      const participantSnap = await transaction.get(participantRef(picnicId, toUserId));
+      if (!participantSnap.exists() || !isAttending(participantSnap.data().rsvpStatus)) {
+        throw new Error('The new host has to be going to the picnic');
+      }
+
+      const newHost = participantSnap.data();
+      transaction.update(picnicRef, {
+        hostId: newHost.id,
+        hostName: newHost.name ?? '',
+        hostPhotoURL: newHost.photoURL ?? '',
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error transferring host:', error);
+    throw error;
+  }
+};
+
+/**
+ * Pick who takes over when the host leaves: whoever said they're going first,
+ * falling back to those who said maybe
+ */
+export const nextHost = (participants: PicnicParticipant[], hostId: string): PicnicParticipant | null => {
+  const candidates = participants
+    .filter(p => p.id !== hostId && isAttending(p.rsvpStatus))
+    .sort((a, b) =>
+      Number(isCounted(b.rsvpStatus)) - Number(isCounted(a.rsvpStatus)) ||
+      (a.joinedAt?.getTime() ?? Infinity) - (b.joinedAt?.getTime() ?? Infinity)
+    );
+  return candidates[0] ?? null;
+};
+
+/**
+ * Invite users to a picnic. Users who already have an RSVP keep it.
+ */
+export const inviteParticipants = async (picnicId: string, userIds: string[]): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(doc(db, 'picnics', picnicId));
+      if (!picnicSnap.exists()) {
+        throw new Error('Picnic not found');
+      }
+
+      const existing = await Promise.all(
+        userIds.map(userId => transaction.get(participantRef(picnicId, userId)))
+      );
+      existing
+        .filter(participantSnap => !participantSnap.exists())
+        .forEach(participantSnap => {
+          writeParticipantStatus(
+            transaction,
+            picnicId,
+            { id: participantSnap.id, name: null, photoURL: null },
+            null,
+            'invited'
+          );
+        });
+    });
+  } catch (error) {
+    console.error('Error inviting participants:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get every participant of a picnic, whatever their RSVP status
+ */
+export const getParticipants = async (picnicId: string): Promise<PicnicParticipant[]> => {
+  try {
+    const snapshot = await getDocs(participantsCollection(picnicId));
+    return snapshot.docs.map(participantDoc => participantDoc.data());
+  } catch (error) {
+    console.error('Error getting participants:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to a picnic's participants, ordered by when they joined
+ */
+export const subscribeToParticipants = (
+  picnicId: string,
+  onChange: (participants: PicnicParticipant[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    participantsCollection(picnicId),
+    (snapshot) => {
+      onChange(
+        snapshot.docs
+          .map(participantDoc => participantDoc.data())
+          .sort((a, b) => (a.joinedAt?.getTime() ?? Infinity) - (b.joinedAt?.getTime() ?? Infinity))
+      );
+    },
+    (error) => {
+      console.error('Error in participants listener:', error);
+      onError(error);
+    }
+  );
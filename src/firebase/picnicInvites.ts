@@ -1,6 +1,6 @@
-import { doc, updateDoc, arrayUnion, getDoc } from 'firebase/firestore';
-import { db } from './config';
+import { getDoc } from 'firebase/firestore';
 import { sendPicnicInvite } from './notifications';
+import { inviteParticipants, participantRef, setRsvpStatus } from './participants';
 
 interface PicnicInviteResponse {
   success: boolean;
@@ -24,12 +24,8 @@ export const inviteFriendsToPicnic = async ({
       throw new Error('Missing required fields');
     }
 
-    // Add the invites to the picnic document
-    const picnicRef = doc(db, 'picnics', picnicId);
-    await updateDoc(picnicRef, {
-      invitedUsers: arrayUnion(...friendIds),
-      updatedAt: new Date(),
-    });
+    // Add the invitees to the participants subcollection
+    await inviteParticipants(picnicId, friendIds);
 
     // Send notifications to each friend
     const notificationPromises = friendIds.map(friendId => 
@@ -64,33 +60,24 @@ export const respondToPicnicInvite = async ({
   accept: boolean;
 }): Promise<PicnicInviteResponse> => {
   try {
-    const picnicRef = doc(db, 'picnics', picnicId);
-    const picnicDoc = await getDoc(picnicRef);
+    const participantDoc = await getDoc(participantRef(picnicId, userId));
 
-    if (!picnicDoc.exists()) {
-      throw new Error('Picnic not found');
-    }
-
-    const picnicData = picnicDoc.data();
-    const invitedUsers = picnicData.invitedUsers || [];
-
-    if (!invitedUsers.includes(userId)) {
+    if (!participantDoc.exists() || participantDoc.data().rsvpStatus !== 'invited') {
       throw new Error('User was not invited to this picnic');
     }
 
-    if (accept) {
-      // Add user to picnic participants
-      await updateDoc(picnicRef, {
-        participants: arrayUnion(userId),
-        updatedAt: new Date(),
-      });
-    }
+    const { rsvpStatus, waitlistPosition } = await setRsvpStatus(
+      picnicId,
+      { id: userId, name: null, photoURL: null },
+      accept ? 'going' : 'declined'
+    );
 
-    // Remove from invited users regardless of accept/decline
-    await updateDoc(picnicRef, {
-      invitedUsers: invitedUsers.filter((id: string) => id !== userId),
-      updatedAt: new Date(),
-    });
+    if (rsvpStatus === 'waitlisted') {
+      return {
+        success: true,
+        message: `The picnic is full, you're #${waitlistPosition} on the waitlist`
+      };
+    }
 
     return { 
       success: true, 
@@ -0,0 +1,184 @@
+import { collection, deleteDoc, getDocs, query, updateDoc, where } from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { getStorage, ref, deleteObject, listAll } from 'firebase/storage';
+import { db } from './config';
+import { albumPhotoConverter } from './album';
+import { thumbnailPathFor } from './images';
+import { sendNotification, type Notification } from './notifications';
+import {
+  cancelPicnic,
+  clearPicnicPhoto,
+  getPicnic,
+  updatePicnic,
+  validatePicnicSchedule,
+  type Picnic,
+  type PicnicLocation,
+  type PicnicUpdate,
+} from './picnics';
+import { getParticipants, leavePicnic, nextHost, transferHost } from './participants';
+
+// Everyone who'd want to hear about a change to the picnic, apart from whoever made it
+const audienceOf = (
+  picnic: Pick<Picnic, 'participantIds' | 'invitedUsers' | 'waitlistIds'>,
+  exceptUserId: string
+): string[] =>
+  Array.from(new Set([...picnic.participantIds, ...picnic.invitedUsers, ...picnic.waitlistIds]))
+    .filter(id => id !== exceptUserId);
+
+// Notifications are best effort, a failed one shouldn't undo the change that caused it
+const notifyAll = async (
+  recipientIds: string[],
+  notification: Pick<Notification, 'senderId' | 'picnicId' | 'message' | 'data'>
+): Promise<void> => {
+  const results = await Promise.allSettled(
+    recipientIds.map(recipientId => sendNotification({ type: 'picnic_update', recipientId, ...notification }))
+  );
+  results
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .forEach(result => console.error('Error notifying participant:', result.reason));
+};
+
+const deleteIfExists = async (path: string): Promise<void> => {
+  try {
+    await deleteObject(ref(getStorage(), path));
+  } catch (error) {
+    if (!(error instanceof FirebaseError && error.code === 'storage/object-not-found')) throw error;
+  }
+};
+
+// Places without a Google place ID are told apart by where they are
+const isSamePlace = (a: PicnicLocation, b: PicnicLocation): boolean =>
+  a.placeId === b.placeId
+  && a.address === b.address
+  && a.coordinates?.latitude === b.coordinates?.latitude
+  && a.coordinates?.longitude === b.coordinates?.longitude;
+
+/**
+ * Delete a picnic's photo, the selfies participants took to join it, photos shared in its chat and its album.
+ * The documents that pointed at them are cleared too, so nothing is left linking to a missing image.
+ */
+export const deletePicnicPhotos = async (picnic: Pick<Picnic, 'id' | 'photoPath'>): Promise<void> => {
+  try {
+    // Album photos are found through their documents, the host's original shot lives outside the album folder
+    const [selfies, chatImages, albumPhotos, messagesWithImages, participantsWithSelfies] = await Promise.all([
+      listAll(ref(getStorage(), `picnics/${picnic.id}/participants`)),
+      listAll(ref(getStorage(), `picnics/${picnic.id}/messages`)),
+      getDocs(collection(db, 'picnics', picnic.id, 'photos').withConverter(albumPhotoConverter)),
+      getDocs(query(collection(db, 'picnics', picnic.id, 'messages'), where('imagePath', '!=', null))),
+      getDocs(query(collection(db, 'picnics', picnic.id, 'participants'), where('picnicPhotoURL', '!=', null))),
+    ]);
+    // Deleting a thumbnail that was never made is a no-op, so each photo's is tried
+    const paths = new Set([
+      ...(picnic.photoPath ? [picnic.photoPath, thumbnailPathFor(picnic.photoPath)] : []),
+      ...[...selfies.items, ...chatImages.items].map(item => item.fullPath),
+      ...albumPhotos.docs.flatMap(photoDoc => [photoDoc.data().path, thumbnailPathFor(photoDoc.data().path)]),
+    ]);
+    await Promise.all(Array.from(paths).map(deleteIfExists));
+    await Promise.all([
+      ...messagesWithImages.docs.map(messageDoc => updateDoc(messageDoc.ref, { imageURL: null, imagePath: null })),
+      ...participantsWithSelfies.docs.map(participantDoc => updateDoc(participantDoc.ref, { picnicPhotoURL: null })),
+      ...albumPhotos.docs.map(photoDoc => deleteDoc(photoDoc.ref)),
+    ]);
+    if (picnic.photoPath) {
+      await clearPicnicPhoto(picnic.id);
+    }
+  } catch (error) {
+    console.error('Error deleting picnic photos:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel a picnic, let everyone who was coming or invited know, and clean up its photos
+ */
+export const cancelPicnicAndNotify = async ({
+  picnicId,
+  hostId,
+  reason,
+}: {
+  picnicId: string;
+  hostId: string;
+  reason: string;
+}): Promise<void> => {
+  const picnic = await cancelPicnic(picnicId, hostId, reason);
+
+  await notifyAll(audienceOf(picnic, hostId), {
+    senderId: hostId,
+    picnicId,
+    message: picnic.cancellationReason
+      ? `${picnic.hostName} cancelled ${picnic.name}: ${picnic.cancellationReason}`
+      : `${picnic.hostName} cancelled ${picnic.name}`,
+    data: { reason: picnic.cancellationReason },
+  });
+
+  try {
+    await deletePicnicPhotos(picnic);
+  } catch {
+    // Already logged, the picnic is cancelled either way
+  }
+};
+
+/**
+ * Edit a picnic's details. Participants hear about it when the time or place changes.
+ */
+export const editPicnicDetails = async (picnic: Picnic, userId: string, updates: PicnicUpdate): Promise<void> => {
+  if (picnic.hostId !== userId) {
+    throw new Error('Only the host can edit a picnic');
+  }
+  if (picnic.status === 'cancelled' || picnic.status === 'completed') {
+    throw new Error(`This picnic is already ${picnic.status}`);
+  }
+
+  const rescheduled = 'date' in updates || 'rsvpDeadline' in updates;
+  if (rescheduled && picnic.status === 'planning') {
+    const scheduleError = validatePicnicSchedule({
+      date: updates.date !== undefined ? updates.date : picnic.date,
+      endDate: updates.endDate !== undefined ? updates.endDate : picnic.endDate,
+      rsvpDeadline: updates.rsvpDeadline !== undefined ? updates.rsvpDeadline : picnic.rsvpDeadline,
+    });
+    if (scheduleError) throw new Error(scheduleError);
+  }
+
+  await updatePicnic(picnic.id, updates);
+
+  const dateChanged = updates.date !== undefined && updates.date?.getTime() !== picnic.date?.getTime();
+  const placeChanged = updates.location !== undefined && !isSamePlace(updates.location, picnic.location);
+  if (dateChanged || placeChanged) {
+    await notifyAll(audienceOf(picnic, userId), {
+      senderId: userId,
+      picnicId: picnic.id,
+      message: `${picnic.hostName} changed the ${dateChanged ? 'time' : 'place'} of ${updates.name || picnic.name}`,
+    });
+  }
+};
+
+/**
+ * Leave a picnic as its host. Hosting passes to the participant who has been
+ * going the longest; if nobody else is coming, the picnic is cancelled.
+ */
+export const leaveAsHost = async (picnicId: string, hostId: string): Promise<{ newHostId: string | null }> => {
+  const [picnic, participants] = await Promise.all([getPicnic(picnicId), getParticipants(picnicId)]);
+  if (!picnic) throw new Error('Picnic not found');
+
+  const successor = nextHost(participants, hostId);
+  if (!successor) {
+    await cancelPicnicAndNotify({ picnicId, hostId, reason: 'The host can no longer make it' });
+    return { newHostId: null };
+  }
+
+  await transferHost(picnicId, hostId, successor.id);
+  await leavePicnic(picnicId, hostId);
+
+  await notifyAll([successor.id], {
+    senderId: hostId,
+    picnicId,
+    message: `${picnic.hostName} can't make it to ${picnic.name}, you're the host now`,
+  });
+  await notifyAll(audienceOf(picnic, hostId).filter(id => id !== successor.id), {
+    senderId: hostId,
+    picnicId,
+    message: `${successor.name || 'Someone else'} is now hosting ${picnic.name}`,
+  });
+
+  return { newHostId: successor.id };
+};
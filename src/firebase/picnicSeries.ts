@@ -0,0 +1,238 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  writeBatch,
+  arrayUnion,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './config';
+import { picnicConverter, type Picnic, type PicnicLocation, type PicnicVisibility } from './picnics';
+import { potluckTemplateOf, type PotluckTemplate } from './potluck';
+import { cancelPicnicAndNotify } from './picnicLifecycle';
+import { type RecurrenceFrequency, type RecurrenceRule } from './recurrence';
+
+// Types
+export interface SeriesTemplate {
+  name: string;
+  description: string;
+  hostName: string;
+  hostPhotoURL: string;
+  location: PicnicLocation;
+  invitedUsers: string[];
+  durationMs: number | null; // How long each picnic runs, null for the default
+  rsvpLeadMs: number | null; // How long before the start RSVPs close, null for no deadline
+  capacity: number | null; // Most people who can go, null for no limit
+  visibility: PicnicVisibility;
+  potluck: PotluckTemplate | null;
+}
+
+export interface PicnicSeries extends RecurrenceRule {
+  id: string; // Same as the picnic the series was made from
+  hostId: string;
+  template: SeriesTemplate; // What each new occurrence starts out as
+  skippedOccurrences: number[];
+  active: boolean; // False once the host stops the series
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Occurrences are created this far ahead by the spawnRecurringPicnics function,
+// enough to always have the next monthly one
+export const SERIES_HORIZON_MS = 35 * 24 * 60 * 60 * 1000;
+
+export const picnicSeriesConverter: FirestoreDataConverter<PicnicSeries> = {
+  toFirestore(series: WithFieldValue<PicnicSeries>): DocumentData {
+    const { id, ...data } = series;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): PicnicSeries {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      hostId: data.hostId,
+      frequency: data.frequency ?? 'weekly',
+      startDate: data.startDate instanceof Timestamp ? data.startDate.toDate() : new Date(),
+      until: data.until instanceof Timestamp ? data.until.toDate() : null,
+      timeZone: data.timeZone ?? null,
+      template: data.template,
+      skippedOccurrences: data.skippedOccurrences ?? [],
+      active: data.active ?? true,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
+    };
+  },
+};
+
+const seriesCollection = collection(db, 'picnicSeries').withConverter(picnicSeriesConverter);
+
+const picnicRef = (picnicId: string) => doc(db, 'picnics', picnicId).withConverter(picnicConverter);
+
+// Occurrences get predictable IDs so making them twice finds the first one,
+// matching functions/src/series.ts
+export const occurrenceId = (seriesId: string, index: number): string =>
+  index === 0 ? seriesId : `${seriesId}-${index}`;
+
+// Everything a new occurrence copies from the picnic the host is repeating
+const templateFrom = async (picnic: Picnic): Promise<SeriesTemplate> => ({
+  name: picnic.name,
+  description: picnic.description,
+  hostName: picnic.hostName,
+  hostPhotoURL: picnic.hostPhotoURL,
+  location: picnic.location,
+  // Everyone coming or invited this time is invited next time
+  invitedUsers: Array.from(new Set([...picnic.participantIds, ...picnic.invitedUsers]))
+    .filter(id => id !== picnic.hostId),
+  durationMs: picnic.date && picnic.endDate ? picnic.endDate.getTime() - picnic.date.getTime() : null,
+  rsvpLeadMs: picnic.date && picnic.rsvpDeadline ? picnic.date.getTime() - picnic.rsvpDeadline.getTime() : null,
+  capacity: picnic.capacity,
+  visibility: picnic.visibility,
+  potluck: await potluckTemplateOf(picnic),
+});
+
+const assertHostOf = (picnic: Picnic | undefined, hostId: string): Picnic => {
+  if (!picnic) throw new Error('Picnic not found');
+  if (picnic.hostId !== hostId) throw new Error('Only the host can change how a picnic repeats');
+  return picnic;
+};
+
+/**
+ * Make a scheduled picnic repeat. It becomes occurrence 0 and the template
+ * for the rest, which a function creates SERIES_HORIZON_MS ahead.
+ */
+export const makePicnicRecurring = async (
+  picnic: Picnic,
+  hostId: string,
+  options: { frequency: RecurrenceFrequency; until: Date | null }
+): Promise<PicnicSeries> => {
+  try {
+    assertHostOf(picnic, hostId);
+    if (picnic.seriesId) throw new Error('This picnic already repeats');
+    if (picnic.status !== 'planning' || !picnic.date) {
+      throw new Error('Only picnics scheduled for later can repeat');
+    }
+    if (options.until && options.until <= picnic.date) {
+      throw new Error('The series has to end after the first picnic');
+    }
+
+    const series: PicnicSeries = {
+      id: picnic.id,
+      hostId,
+      frequency: options.frequency,
+      startDate: picnic.date,
+      until: options.until,
+      // Later occurrences keep the first one's time of day here, across daylight saving changes
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      template: await templateFrom(picnic),
+      skippedOccurrences: [],
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const batch = writeBatch(db);
+    batch.set(doc(seriesCollection, series.id), {
+      ...series,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    batch.update(picnicRef(picnic.id), { seriesId: series.id, occurrence: 0, updatedAt: serverTimestamp() });
+    await batch.commit();
+    return series;
+  } catch (error) {
+    console.error('Error making picnic recurring:', error);
+    throw error;
+  }
+};
+
+/**
+ * Use a picnic's current details for the series' occurrences that haven't been
+ * created yet. Ones already created keep their own details.
+ */
+export const updateSeriesFromPicnic = async (picnic: Picnic, hostId: string): Promise<void> => {
+  try {
+    assertHostOf(picnic, hostId);
+    if (!picnic.seriesId) throw new Error("This picnic doesn't repeat");
+
+    const template = await templateFrom(picnic);
+    await runTransaction(db, async (transaction) => {
+      const seriesSnap = await transaction.get(doc(seriesCollection, picnic.seriesId!));
+      if (!seriesSnap.exists()) throw new Error('Series not found');
+      transaction.update(seriesSnap.ref, { template, updatedAt: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error('Error updating picnic series:', error);
+    throw error;
+  }
+};
+
+/**
+ * Skip one occurrence without ending the series, by its index. If it's been
+ * created it's cancelled and everyone hears about it; otherwise it's never created.
+ */
+export const skipOccurrence = async (seriesId: string, hostId: string, occurrence: number): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const seriesSnap = await transaction.get(doc(seriesCollection, seriesId));
+      const series = seriesSnap.data();
+      if (!series) throw new Error('Series not found');
+      if (series.hostId !== hostId) throw new Error('Only the host can change how a picnic repeats');
+      transaction.update(seriesSnap.ref, {
+        skippedOccurrences: arrayUnion(occurrence),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error skipping picnic occurrence:', error);
+    throw error;
+  }
+
+  const picnic = (await getDoc(picnicRef(occurrenceId(seriesId, occurrence)))).data();
+  if (picnic && (picnic.status === 'planning' || picnic.status === 'active')) {
+    await cancelPicnicAndNotify({ picnicId: picnic.id, hostId, reason: 'Skipping this one, the series carries on' });
+  }
+};
+
+/**
+ * Stop a series repeating. Occurrences already created go ahead unless the host cancels them.
+ */
+export const stopPicnicSeries = async (seriesId: string, hostId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const seriesSnap = await transaction.get(doc(seriesCollection, seriesId));
+      const series = seriesSnap.data();
+      if (!series) throw new Error('Series not found');
+      if (series.hostId !== hostId) throw new Error('Only the host can change how a picnic repeats');
+      transaction.update(seriesSnap.ref, { active: false, updatedAt: serverTimestamp() });
+    });
+  } catch (error) {
+    console.error('Error stopping picnic series:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to a series. The callback receives null if it doesn't exist.
+ */
+export const subscribeToPicnicSeries = (
+  seriesId: string,
+  onChange: (series: PicnicSeries | null) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    doc(seriesCollection, seriesId),
+    (snapshot) => onChange(snapshot.data() ?? null),
+    (error) => {
+      console.error('Error in picnic series listener:', error);
+      onError(error);
+    }
+  );
@@ -0,0 +1,185 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { format } from 'date-fns';
+import { db } from './config';
+import { createPicnic, type Picnic, type PicnicLocation, type PicnicVisibility } from './picnics';
+import { applyPotluckTemplate, potluckTemplateOf, type PotluckTemplate } from './potluck';
+import { inviteFriendsToPicnic } from './picnicInvites';
+
+// Types
+export interface PicnicTemplate {
+  id: string;
+  name: string;
+  location: PicnicLocation; // The restaurant or park
+  invitedUsers: string[];
+  potluck: PotluckTemplate | null;
+  timeOfDay: string | null; // Usual start time as "HH:mm", null for picnics started on the spot
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export const MAX_TEMPLATE_NAME_LENGTH = 60;
+
+export const picnicTemplateConverter: FirestoreDataConverter<PicnicTemplate> = {
+  toFirestore(template: WithFieldValue<PicnicTemplate>): DocumentData {
+    const { id, ...data } = template;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): PicnicTemplate {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      name: data.name ?? '',
+      location: data.location,
+      invitedUsers: data.invitedUsers ?? [],
+      potluck: data.potluck ?? null,
+      timeOfDay: data.timeOfDay ?? null,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+      lastUsedAt: data.lastUsedAt instanceof Timestamp ? data.lastUsedAt.toDate() : null,
+    };
+  },
+};
+
+// Templates are private to the user who saved them
+const templatesCollection = (userId: string) =>
+  collection(db, 'users', userId, 'picnicTemplates').withConverter(picnicTemplateConverter);
+
+/**
+ * When a picnic from a template would next start at its usual time, today if
+ * that's still ahead, otherwise tomorrow
+ */
+export const nextStartFor = (template: Pick<PicnicTemplate, 'timeOfDay'>, now: Date = new Date()): Date | null => {
+  if (!template.timeOfDay) return null;
+
+  const [hours, minutes] = template.timeOfDay.split(':').map(Number);
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+  if (start <= now) start.setDate(start.getDate() + 1);
+  return start;
+};
+
+/**
+ * Save a picnic's spot, guest list, potluck list and start time as one of the user's templates
+ */
+export const savePicnicAsTemplate = async (
+  userId: string,
+  picnic: Picnic,
+  name: string = picnic.name
+): Promise<PicnicTemplate> => {
+  try {
+    const trimmed = name.trim().slice(0, MAX_TEMPLATE_NAME_LENGTH);
+    if (!trimmed) throw new Error('Give the template a name');
+
+    const templateRef = doc(templatesCollection(userId));
+    const template: PicnicTemplate = {
+      id: templateRef.id,
+      name: trimmed,
+      location: picnic.location,
+      // Everyone else who was coming or invited, the host included when it's a guest saving it
+      invitedUsers: Array.from(new Set([picnic.hostId, ...picnic.participantIds, ...picnic.invitedUsers]))
+        .filter(id => id !== userId),
+      potluck: await potluckTemplateOf(picnic),
+      timeOfDay: picnic.date ? format(picnic.date, 'HH:mm') : null,
+      createdAt: new Date(),
+      lastUsedAt: null,
+    };
+
+    await setDoc(templateRef, { ...template, createdAt: serverTimestamp() });
+    return template;
+  } catch (error) {
+    console.error('Error saving picnic template:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete one of the user's templates
+ */
+export const deletePicnicTemplate = async (userId: string, templateId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(templatesCollection(userId), templateId));
+  } catch (error) {
+    console.error('Error deleting picnic template:', error);
+    throw error;
+  }
+};
+
+/**
+ * Start a picnic from a template, now when `schedule` is null or later when it
+ * has a date. The template's guests are invited and its potluck list set up.
+ */
+export const startPicnicFromTemplate = async (
+  template: PicnicTemplate,
+  host: { id: string; name: string; photoURL: string },
+  schedule: { date: Date; rsvpDeadline: Date | null; visibility: PicnicVisibility } | null
+): Promise<Picnic> => {
+  try {
+    const picnic = await createPicnic({
+      hostId: host.id,
+      hostName: host.name,
+      hostPhotoURL: host.photoURL,
+      name: template.name,
+      location: template.location,
+      status: schedule ? 'planning' : 'active',
+      visibility: schedule?.visibility,
+      date: schedule?.date ?? null,
+      rsvpDeadline: schedule?.rsvpDeadline ?? null,
+    });
+
+    if (template.potluck) {
+      await applyPotluckTemplate(picnic.id, host.id, template.potluck);
+    }
+
+    const friendIds = template.invitedUsers.filter(id => id !== host.id);
+    if (friendIds.length > 0) {
+      await inviteFriendsToPicnic({
+        picnicId: picnic.id,
+        hostId: host.id,
+        friendIds,
+        message: `${host.name} invited you to ${picnic.name}`,
+      });
+    }
+
+    await updateDoc(doc(templatesCollection(host.id), template.id), { lastUsedAt: serverTimestamp() });
+    return picnic;
+  } catch (error) {
+    console.error('Error starting picnic from template:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to a user's templates, most recently used first
+ */
+export const subscribeToPicnicTemplates = (
+  userId: string,
+  onChange: (templates: PicnicTemplate[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    templatesCollection(userId),
+    (snapshot) => {
+      onChange(
+        snapshot.docs
+          .map(templateDoc => templateDoc.data())
+          .sort((a, b) => (b.lastUsedAt ?? b.createdAt).getTime() - (a.lastUsedAt ?? a.createdAt).getTime())
+      );
+    },
+    (error) => {
+      console.error('Error in picnic templates listener:', error);
+      onError(error);
+    }
+  );
@@ -0,0 +1,543 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteField,
+  runTransaction,
+  writeBatch,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type WithFieldValue,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import { db } from './config';
+import { encodeGeohash } from '../utils/geohash';
+import { participantRef } from './participants';
+import type { PicnicVote } from './votes';
+import type { PicnicPotluck } from './potluck';
+
+// Types
+export type PicnicStatus = 'planning' | 'active' | 'completed' | 'cancelled';
+
+// Who can see and join a picnic without being invited, see visibility.ts
+export type PicnicVisibility = 'private' | 'friends' | 'friends-of-friends' | 'public';
+
+export interface PicnicLocation {
+  name: string;
+  address: string;
+  placeId?: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+export interface Picnic {
+  id: string;
+  name: string;
+  description: string;
+  hostId: string;
+  hostName: string;
+  hostPhotoURL: string;
+  restaurantName: string;
+  location: PicnicLocation;
+  geohash: string | null; // Of location.coordinates so public picnics can be found by area, see discovery.ts
+  participantIds: string[]; // Users going, maybe or checked in, see participants.ts
+  participantCount: number; // Users going or checked in, for the "N going" label
+  invitedUsers: string[]; // Users invited who haven't responded yet
+  capacity: number | null; // Most people who can go, the host included, null for no limit
+  waitlistIds: string[]; // Users waiting for a spot to open up, in the order they asked
+  status: PicnicStatus;
+  visibility: PicnicVisibility;
+  date: Date | null; // Scheduled start, null for picnics started on the spot
+  endDate: Date | null; // Scheduled end, defaults to DEFAULT_PICNIC_DURATION_MS after date
+  rsvpDeadline: Date | null;
+  cancellationReason: string | null;
+  cancelledAt: Date | null;
+  vote: PicnicVote | null; // Restaurant vote, see votes.ts
+  potluck: PicnicPotluck | null; // Who brings what, see potluck.ts
+  checkInRadius: number | null; // Metres from the spot people must be to check in, null when check-in is off
+  seriesId: string | null; // The recurring series this picnic belongs to, see picnicSeries.ts
+  occurrence: number | null; // Which of the series' occurrences this is, 0 for the picnic it was made from
+  photoURL?: string;
+  photoPath?: string;
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewPicnic = Pick<Picnic, 'hostId' | 'hostName' | 'hostPhotoURL' | 'location'> &
+  Partial<Pick<Picnic, 'id' | 'name' | 'description' | 'invitedUsers' | 'status' | 'date' | 'endDate' | 'rsvpDeadline' | 'photoURL' | 'photoPath' | 'seriesId' | 'occurrence' | 'capacity' | 'visibility'>>;
+
+// Participant fields and capacity are kept in step with the participants subcollection by participants.ts,
+// cancelling and changing hosts go through cancelPicnic and transferHost, votes, potlucks, check-in and series through their modules
+export type PicnicUpdate = Partial<Omit<
+  Picnic,
+  | 'id' | 'hostId' | 'hostName' | 'hostPhotoURL' | 'geohash' | 'participantIds' | 'participantCount' | 'invitedUsers'
+  | 'capacity' | 'waitlistIds'
+  | 'vote' | 'potluck' | 'checkInRadius' | 'seriesId' | 'occurrence' | 'cancellationReason' | 'cancelledAt'
+  | 'createdAt' | 'updatedAt'
+>>;
+
+export const DEFAULT_AVATAR_URL = 'https://www.gravatar.com/avatar/00000000000000000000000000000000?d=mp&f=y';
+
+// How long a scheduled picnic stays active when the host didn't pick an end time
+export const DEFAULT_PICNIC_DURATION_MS = 3 * 60 * 60 * 1000;
+
+// Firestore hands back Timestamps, older documents stored ISO strings or Dates
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+// Legacy documents embedded participants as bare user IDs or as objects
+const legacyParticipantIds = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [])
+    .map(p => (typeof p === 'string' ? p : p?.id))
+    .filter((id): id is string => typeof id === 'string');
+
+/**
+ * Converts between the canonical Picnic type and stored picnic documents,
+ * normalizing the older shapes written by previous versions of the app.
+ */
+export const picnicConverter: FirestoreDataConverter<Picnic> = {
+  toFirestore(picnic: WithFieldValue<Picnic>): DocumentData {
+    const { id, ...data } = picnic;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Picnic {
+    const data = snapshot.data(options);
+    const legacyIds = legacyParticipantIds(data.participants);
+    const location: PicnicLocation = data.location ?? {
+      name: data.restaurantName ?? data.name ?? '',
+      address: '',
+    };
+
+    return {
+      id: snapshot.id,
+      name: data.name ?? '',
+      description: data.description ?? '',
+      hostId: data.hostId ?? data.createdBy ?? '',
+      hostName: data.hostName ?? '',
+      hostPhotoURL: data.hostPhotoURL ?? '',
+      restaurantName: data.restaurantName ?? location.name,
+      location,
+      geohash: data.geohash ?? null,
+      participantIds: data.participantIds ?? legacyIds,
+      participantCount: data.participantCount ?? legacyIds.length,
+      invitedUsers: data.invitedUsers ?? [],
+      capacity: data.capacity ?? null,
+      waitlistIds: data.waitlistIds ?? [],
+      status: data.status ?? 'active',
+      // Picnics from before visibility could only be joined by invitation
+      visibility: data.visibility ?? 'private',
+      date: toDate(data.date),
+      endDate: toDate(data.endDate),
+      rsvpDeadline: toDate(data.rsvpDeadline),
+      cancellationReason: data.cancellationReason ?? null,
+      cancelledAt: toDate(data.cancelledAt),
+      vote: data.vote
+        ? {
+            ...data.vote,
+            candidates: data.vote.candidates ?? [],
+            winnerId: data.vote.winnerId ?? null,
+            round: data.vote.round ?? 0,
+            openedAt: toDate(data.vote.openedAt),
+            closedAt: toDate(data.vote.closedAt),
+          }
+        : null,
+      potluck: data.potluck
+        ? {
+            categories: data.potluck.categories ?? [],
+            reminderSentAt: toDate(data.potluck.reminderSentAt),
+          }
+        : null,
+      checkInRadius: data.checkInRadius ?? null,
+      seriesId: data.seriesId ?? null,
+      occurrence: data.occurrence ?? null,
+      photoURL: data.photoURL,
+      photoPath: data.photoPath,
+      archived: data.archived ?? false,
+      createdAt: toDate(data.createdAt) ?? new Date(),
+      updatedAt: toDate(data.updatedAt) ?? new Date(),
+    };
+  },
+};
+
+const picnicsCollection = collection(db, 'picnics').withConverter(picnicConverter);
+
+/**
+ * The geohash stored alongside a picnic's location, null when we only have an address
+ */
+export const locationGeohash = (location: PicnicLocation): string | null =>
+  location.coordinates ? encodeGeohash(location.coordinates.latitude, location.coordinates.longitude) : null;
+
+/**
+ * Work out where a scheduled picnic should be in its lifecycle at the given time.
+ * Picnics without a date, and cancelled picnics, keep their stored status.
+ */
+export const resolvePicnicStatus = (
+  picnic: Pick<Picnic, 'status' | 'date' | 'endDate'>,
+  now: Date = new Date()
+): PicnicStatus => {
+  if (!picnic.date || picnic.status === 'cancelled' || picnic.status === 'completed') {
+    return picnic.status;
+  }
+
+  const endDate = picnic.endDate ?? new Date(picnic.date.getTime() + DEFAULT_PICNIC_DURATION_MS);
+  if (now >= endDate) return 'completed';
+  if (now >= picnic.date) return 'active';
+  return 'planning';
+};
+
+/**
+ * Whether guests can still RSVP to a picnic
+ */
+export const isRsvpOpen = (
+  picnic: Pick<Picnic, 'status' | 'date' | 'endDate' | 'rsvpDeadline'>,
+  now: Date = new Date()
+): boolean => {
+  if (resolvePicnicStatus(picnic, now) !== 'planning') return false;
+  return !picnic.rsvpDeadline || now < picnic.rsvpDeadline;
+};
+
+/**
+ * Check the dates a host picked for a scheduled picnic, returning an error message if they don't add up
+ */
+export const validatePicnicSchedule = (
+  schedule: Pick<Picnic, 'date' | 'endDate' | 'rsvpDeadline'>,
+  now: Date = new Date()
+): string | null => {
+  if (!schedule.date) return 'Please pick a date and time for the picnic';
+  if (schedule.date <= now) return 'The picnic has to start in the future';
+  if (schedule.endDate && schedule.endDate <= schedule.date) {
+    return 'The picnic has to end after it starts';
+  }
+  if (schedule.rsvpDeadline) {
+    if (schedule.rsvpDeadline <= now) return 'The RSVP deadline has to be in the future';
+    if (schedule.rsvpDeadline > schedule.date) return 'The RSVP deadline has to be before the picnic starts';
+  }
+  return null;
+};
+
+/**
+ * Reserve a document ID for a picnic before it is created, e.g. to upload its photo first
+ */
+export const newPicnicId = (): string => doc(picnicsCollection).id;
+
+/**
+ * Create a picnic hosted by the given user. The host is always the first participant.
+ */
+export const createPicnic = async (input: NewPicnic): Promise<Picnic> => {
+  try {
+    const status = input.status || (input.date ? 'planning' : 'active');
+    if (status === 'planning') {
+      const scheduleError = validatePicnicSchedule({
+        date: input.date ?? null,
+        endDate: input.endDate ?? null,
+        rsvpDeadline: input.rsvpDeadline ?? null,
+      });
+      if (scheduleError) throw new Error(scheduleError);
+    }
+
+    const picnicRef = input.id ? doc(picnicsCollection, input.id) : doc(picnicsCollection);
+    const invitedUsers = (input.invitedUsers || []).filter(id => id !== input.hostId);
+
+    const picnic: Picnic = {
+      id: picnicRef.id,
+      name: input.name || `${input.hostName}'s Picnic`,
+      description: input.description || '',
+      hostId: input.hostId,
+      hostName: input.hostName,
+      hostPhotoURL: input.hostPhotoURL,
+      restaurantName: input.location.name,
+      location: input.location,
+      geohash: locationGeohash(input.location),
+      participantIds: [input.hostId],
+      participantCount: 1,
+      invitedUsers,
+      capacity: input.capacity ?? null,
+      waitlistIds: [],
+      status,
+      visibility: input.visibility ?? 'private',
+      date: input.date ?? null,
+      endDate: input.endDate ?? null,
+      rsvpDeadline: input.rsvpDeadline ?? null,
+      cancellationReason: null,
+      cancelledAt: null,
+      vote: null,
+      potluck: null,
+      checkInRadius: null,
+      seriesId: input.seriesId ?? null,
+      occurrence: input.occurrence ?? null,
+      archived: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...(input.photoURL && { photoURL: input.photoURL }),
+      ...(input.photoPath && { photoPath: input.photoPath }),
+    };
+
+    // The picnic and its first participants go in together so counts never disagree
+    const batch = writeBatch(db);
+    batch.set(picnicRef, {
+      ...picnic,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    batch.set(participantRef(picnicRef.id, input.hostId), {
+      id: input.hostId,
+      name: input.hostName,
+      photoURL: input.hostPhotoURL,
+      picnicPhotoURL: input.photoURL ?? null,
+      rsvpStatus: 'going',
+      joinedAt: serverTimestamp(),
+      lastReadAt: null,
+      checkedInAt: null,
+      waitlistedAt: null,
+      updatedAt: serverTimestamp(),
+    });
+    invitedUsers.forEach(userId => {
+      batch.set(participantRef(picnicRef.id, userId), {
+        id: userId,
+        name: null,
+        photoURL: null,
+        picnicPhotoURL: null,
+        rsvpStatus: 'invited',
+        joinedAt: null,
+        lastReadAt: null,
+        checkedInAt: null,
+        waitlistedAt: null,
+        updatedAt: serverTimestamp(),
+      });
+    });
+    await batch.commit();
+
+    return picnic;
+  } catch (error) {
+    console.error('Error creating picnic:', error);
+    throw error;
+  }
+};
+
+/**
+ * Persist the status a scheduled picnic should have by now. The scheduled
+ * Cloud Function does the same in the background; this keeps clients from
+ * showing a stale status in between runs.
+ */
+export const syncPicnicStatus = async (picnic: Picnic): Promise<Picnic> => {
+  const status = resolvePicnicStatus(picnic);
+  if (status === picnic.status) return picnic;
+
+  try {
+    await updateDoc(doc(db, 'picnics', picnic.id), { status, updatedAt: serverTimestamp() });
+  } catch (error) {
+    // Not fatal, the background job will catch up
+    console.error('Error syncing picnic status:', error);
+  }
+  return { ...picnic, status };
+};
+
+/**
+ * Get a single picnic by ID
+ */
+export const getPicnic = async (picnicId: string): Promise<Picnic | null> => {
+  try {
+    const picnicDoc = await getDoc(doc(picnicsCollection, picnicId));
+    return picnicDoc.exists() ? syncPicnicStatus(picnicDoc.data()) : null;
+  } catch (error) {
+    console.error('Error getting picnic:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to a single picnic, with its status resolved for the current time.
+ * The callback receives null if the picnic doesn't exist or is deleted.
+ */
+export const subscribeToPicnic = (
+  picnicId: string,
+  onChange: (picnic: Picnic | null) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    doc(picnicsCollection, picnicId),
+    (snapshot) => {
+      const picnic = snapshot.data();
+      onChange(picnic ? { ...picnic, status: resolvePicnicStatus(picnic) } : null);
+    },
+    (error) => {
+      console.error('Error in picnic listener:', error);
+      onError(error);
+    }
+  );
+
+/**
+ * List the picnics a user hosts or participates in, newest first
+ */
+export const listUserPicnics = async (
+  userId: string,
+  options: { status?: PicnicStatus[]; includeArchived?: boolean } = {}
+): Promise<Picnic[]> => {
+  try {
+    const picnicsQuery = query(
+      picnicsCollection,
+      where('participantIds', 'array-contains', userId),
+      orderBy('createdAt', 'desc')
+    );
+
+    const snapshot = await getDocs(picnicsQuery);
+    const picnics = await Promise.all(snapshot.docs.map(picnicDoc => syncPicnicStatus(picnicDoc.data())));
+    return picnics
+      .filter(picnic => options.includeArchived || !picnic.archived)
+      .filter(picnic => !options.status || options.status.includes(picnic.status));
+  } catch (error) {
+    console.error('Error listing picnics:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to every picnic a user hosts, has joined, has been invited to or is
+ * waiting for a spot at. The callback receives the merged list, newest first,
+ * each time any of them changes.
+ */
+export const subscribeToUserPicnics = (
+  userId: string,
+  onChange: (picnics: Picnic[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  // Hosts are always participants, so joined covers them too
+  const sources = {
+    joined: query(picnicsCollection, where('participantIds', 'array-contains', userId)),
+    invited: query(picnicsCollection, where('invitedUsers', 'array-contains', userId)),
+    waitlisted: query(picnicsCollection, where('waitlistIds', 'array-contains', userId)),
+  };
+  const results: Record<keyof typeof sources, Picnic[] | null> = { joined: null, invited: null, waitlisted: null };
+
+  const emit = () => {
+    // Wait for the first snapshot of each listener so the feed doesn't flicker
+    if (!results.joined || !results.invited || !results.waitlisted) return;
+
+    const byId = new Map<string, Picnic>();
+    [...results.joined, ...results.invited, ...results.waitlisted].forEach(picnic => byId.set(picnic.id, picnic));
+    onChange(
+      Array.from(byId.values())
+        .filter(picnic => !picnic.archived)
+        .map(picnic => ({ ...picnic, status: resolvePicnicStatus(picnic) }))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    );
+  };
+
+  const unsubscribers = (Object.keys(sources) as Array<keyof typeof sources>).map(key =>
+    onSnapshot(
+      sources[key],
+      snapshot => {
+        results[key] = snapshot.docs.map(picnicDoc => picnicDoc.data());
+        emit();
+      },
+      error => {
+        console.error(`Error in ${key} picnics listener:`, error);
+        onError(error);
+      }
+    )
+  );
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+/**
+ * Update the editable fields of a picnic. Any new location gets its geohash worked
+ * out again, even for the same place, so the picnic is found where its pin is.
+ */
+export const updatePicnic = async (picnicId: string, updates: PicnicUpdate): Promise<void> => {
+  try {
+    const data: DocumentData = { ...updates, updatedAt: serverTimestamp() };
+    if (updates.location) {
+      data.geohash = locationGeohash(updates.location);
+      if (!updates.restaurantName) data.restaurantName = updates.location.name;
+    }
+
+    await updateDoc(doc(db, 'picnics', picnicId), data);
+  } catch (error) {
+    console.error('Error updating picnic:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel a picnic that hasn't finished yet. Only the host can.
+ */
+export const cancelPicnic = async (picnicId: string, userId: string, reason: string): Promise<Picnic> => {
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const ref = doc(picnicsCollection, picnicId);
+      const picnicSnap = await transaction.get(ref);
+      const picnic = picnicSnap.data();
+      if (!picnic) throw new Error('Picnic not found');
+      if (picnic.hostId !== userId) throw new Error('Only the host can cancel a picnic');
+      if (picnic.status === 'cancelled' || picnic.status === 'completed') {
+        throw new Error(`This picnic is already ${picnic.status}`);
+      }
+
+      const cancellationReason = reason.trim() || null;
+      transaction.update(doc(db, 'picnics', picnicId), {
+        status: 'cancelled',
+        cancellationReason,
+        cancelledAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      return { ...picnic, status: 'cancelled', cancellationReason, cancelledAt: new Date() };
+    });
+  } catch (error) {
+    console.error('Error cancelling picnic:', error);
+    throw error;
+  }
+};
+
+/**
+ * Forget a picnic's photo once it has been deleted from Storage
+ */
+export const clearPicnicPhoto = async (picnicId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'picnics', picnicId), {
+      photoURL: deleteField(),
+      photoPath: deleteField(),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error clearing picnic photo:', error);
+    throw error;
+  }
+};
+
+/**
+ * Archive a picnic so it no longer shows up in listings. The document is kept for history.
+ */
+export const archivePicnic = async (picnicId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'picnics', picnicId), {
+      archived: true,
+      archivedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error archiving picnic:', error);
+    throw error;
+  }
+};
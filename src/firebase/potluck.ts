@@ -0,0 +1,326 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Transaction,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './config';
+import { picnicConverter, type Picnic } from './picnics';
+import { isAttending, participantRef, type ParticipantProfile } from './participants';
+
+// Types
+export interface PicnicPotluck {
+  categories: string[];
+  reminderSentAt: Date | null; // Set once the unclaimed essentials reminder has gone out, see functions/src/potluck.ts
+}
+
+export interface PotluckClaim {
+  userId: string;
+  name: string;
+  quantity: number;
+}
+
+export interface PotluckItem {
+  id: string;
+  name: string;
+  category: string;
+  quantity: number; // How many the group needs
+  essential: boolean; // Flagged by the host, unclaimed essentials trigger a reminder the day before
+  claims: PotluckClaim[];
+  addedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewPotluckItem = Pick<PotluckItem, 'name' | 'category' | 'quantity'> & Partial<Pick<PotluckItem, 'essential'>>;
+
+// A potluck list without the claims, for starting new picnics from, see picnicSeries.ts and picnicTemplates.ts
+export interface PotluckTemplate {
+  categories: string[];
+  items: NewPotluckItem[];
+}
+
+export const DEFAULT_POTLUCK_CATEGORIES = ['Mains', 'Drinks', 'Blanket', 'Utensils'];
+
+export const potluckItemConverter: FirestoreDataConverter<PotluckItem> = {
+  toFirestore(item: WithFieldValue<PotluckItem>): DocumentData {
+    const { id, ...data } = item;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): PotluckItem {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      name: data.name ?? '',
+      category: data.category ?? '',
+      quantity: data.quantity ?? 1,
+      essential: data.essential ?? false,
+      claims: data.claims ?? [],
+      addedBy: data.addedBy,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
+    };
+  },
+};
+
+const potluckItemsCollection = (picnicId: string) =>
+  collection(db, 'picnics', picnicId, 'potluckItems').withConverter(potluckItemConverter);
+
+const picnicRef = (picnicId: string) => doc(db, 'picnics', picnicId).withConverter(picnicConverter);
+
+// "Paper Plates " and "paper plates" are the same thing on a shopping list
+const normalizeItemName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * How many of an item people have said they'll bring
+ */
+export const claimedQuantity = (item: Pick<PotluckItem, 'claims'>): number =>
+  item.claims.reduce((total, claim) => total + claim.quantity, 0);
+
+/**
+ * Items listed more than once under the same name, or claimed more times than the group needs
+ */
+export const findDuplicateItems = (items: PotluckItem[]): Set<string> => {
+  const byName = new Map<string, string[]>();
+  items.forEach(item => {
+    const key = normalizeItemName(item.name);
+    byName.set(key, [...(byName.get(key) ?? []), item.id]);
+  });
+
+  const duplicates = new Set<string>();
+  byName.forEach(ids => {
+    if (ids.length > 1) ids.forEach(id => duplicates.add(id));
+  });
+  items
+    .filter(item => claimedQuantity(item) > item.quantity)
+    .forEach(item => duplicates.add(item.id));
+  return duplicates;
+};
+
+// Only people coming can change the list
+const assertAttending = async (
+  transaction: Transaction,
+  picnicId: string,
+  userId: string
+): Promise<Picnic> => {
+  const picnicSnap = await transaction.get(picnicRef(picnicId));
+  const picnic = picnicSnap.data();
+  if (!picnic) throw new Error('Picnic not found');
+  if (picnic.status === 'cancelled' || picnic.status === 'completed') {
+    throw new Error('This picnic is over');
+  }
+  if (!picnic.potluck) throw new Error("This picnic doesn't have a potluck list");
+
+  const participantSnap = await transaction.get(participantRef(picnicId, userId));
+  if (!isAttending(participantSnap.data()?.rsvpStatus)) {
+    throw new Error('Only people coming to this picnic can change the potluck list');
+  }
+  return picnic;
+};
+
+/**
+ * Start a potluck list or change its categories. Only the host can.
+ */
+export const setPotluckCategories = async (
+  picnicId: string,
+  userId: string,
+  categories: string[] = DEFAULT_POTLUCK_CATEGORIES
+): Promise<void> => {
+  try {
+    const cleaned = Array.from(new Set(categories.map(category => category.trim()).filter(Boolean)));
+    if (cleaned.length === 0) throw new Error('Add at least one category');
+
+    await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const picnic = picnicSnap.data();
+      if (!picnic) throw new Error('Picnic not found');
+      if (picnic.hostId !== userId) throw new Error('Only the host can set up the potluck list');
+
+      transaction.update(picnicSnap.ref, {
+        potluck: {
+          categories: cleaned,
+          reminderSentAt: picnic.potluck?.reminderSentAt ?? null,
+        },
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error setting potluck categories:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add something to a picnic's potluck list. Only the host can mark items as essential.
+ */
+export const addPotluckItem = async (
+  picnicId: string,
+  userId: string,
+  input: NewPotluckItem
+): Promise<void> => {
+  try {
+    const name = input.name.trim();
+    if (!name) throw new Error('Give the item a name');
+    if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+      throw new Error('Quantity has to be a whole number of at least 1');
+    }
+
+    const itemRef = doc(potluckItemsCollection(picnicId));
+    await runTransaction(db, async (transaction) => {
+      const picnic = await assertAttending(transaction, picnicId, userId);
+      if (!picnic.potluck?.categories.includes(input.category)) {
+        throw new Error('Pick one of the categories on the list');
+      }
+      if (input.essential && picnic.hostId !== userId) {
+        throw new Error('Only the host can mark items as essential');
+      }
+
+      transaction.set(itemRef, {
+        id: itemRef.id,
+        name,
+        category: input.category,
+        quantity: input.quantity,
+        essential: input.essential ?? false,
+        claims: [],
+        addedBy: userId,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error adding potluck item:', error);
+    throw error;
+  }
+};
+
+/**
+ * Take an item off the list. The host and whoever added it can.
+ */
+export const removePotluckItem = async (picnicId: string, itemId: string, userId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const picnic = await assertAttending(transaction, picnicId, userId);
+      const itemSnap = await transaction.get(doc(potluckItemsCollection(picnicId), itemId));
+      const item = itemSnap.data();
+      if (!item) return;
+      if (item.addedBy !== userId && picnic.hostId !== userId) {
+        throw new Error('Only the host or whoever added an item can remove it');
+      }
+
+      transaction.delete(itemSnap.ref);
+    });
+  } catch (error) {
+    console.error('Error removing potluck item:', error);
+    throw error;
+  }
+};
+
+/**
+ * Say how many of an item you're bringing, replacing your previous claim. Zero drops the claim.
+ */
+export const claimPotluckItem = async (
+  picnicId: string,
+  itemId: string,
+  profile: ParticipantProfile,
+  quantity: number
+): Promise<void> => {
+  try {
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new Error('Quantity has to be a whole number');
+    }
+
+    await runTransaction(db, async (transaction) => {
+      await assertAttending(transaction, picnicId, profile.id);
+      const itemSnap = await transaction.get(doc(potluckItemsCollection(picnicId), itemId));
+      const item = itemSnap.data();
+      if (!item) throw new Error('That item is no longer on the list');
+
+      const otherClaims = item.claims.filter(claim => claim.userId !== profile.id);
+      transaction.update(itemSnap.ref, {
+        claims: quantity > 0
+          ? [...otherClaims, { userId: profile.id, name: profile.name ?? 'Friend', quantity }]
+          : otherClaims,
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error claiming potluck item:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to a picnic's potluck items in the order they were added
+ */
+export const subscribeToPotluckItems = (
+  picnicId: string,
+  onChange: (items: PotluckItem[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    query(potluckItemsCollection(picnicId), orderBy('createdAt', 'asc')),
+    (snapshot) => {
+      onChange(snapshot.docs.map(itemDoc => itemDoc.data()));
+    },
+    (error) => {
+      console.error('Error in potluck items listener:', error);
+      onError(error);
+    }
+  );
+
+/**
+ * Get everything on a picnic's potluck list
+ */
+export const getPotluckItems = async (picnicId: string): Promise<PotluckItem[]> => {
+  try {
+    const itemsSnap = await getDocs(potluckItemsCollection(picnicId));
+    return itemsSnap.docs.map(itemDoc => itemDoc.data());
+  } catch (error) {
+    console.error('Error getting potluck items:', error);
+    throw error;
+  }
+};
+
+/**
+ * Copy a picnic's potluck list without who's bringing what, or null if it doesn't have one
+ */
+export const potluckTemplateOf = async (picnic: Pick<Picnic, 'id' | 'potluck'>): Promise<PotluckTemplate | null> => {
+  if (!picnic.potluck) return null;
+
+  const items = await getPotluckItems(picnic.id);
+  return {
+    categories: picnic.potluck.categories,
+    items: items.map(item => ({
+      name: item.name,
+      category: item.category,
+      quantity: item.quantity,
+      essential: item.essential,
+    })),
+  };
+};
+
+/**
+ * Set up a new picnic's potluck list from a template. Only the host can.
+ */
+export const applyPotluckTemplate = async (
+  picnicId: string,
+  hostId: string,
+  template: PotluckTemplate
+): Promise<void> => {
+  await setPotluckCategories(picnicId, hostId, template.categories);
+  for (const item of template.items) {
+    await addPotluckItem(picnicId, hostId, item);
+  }
+};
@@ -0,0 +1,201 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './config';
+import { picnicConverter, type Picnic } from './picnics';
+import { isAttending, participantRef, type ParticipantProfile } from './participants';
+import type { CheckInPosition } from './checkIn';
+
+// Types
+export interface ParticipantPresence {
+  id: string; // User ID, also the document ID
+  name: string | null;
+  photoURL: string | null;
+  latitude: number;
+  longitude: number;
+  accuracy: number; // In metres, as reported by the device
+  updatedAt: Date;
+  expiresAt: Date; // Sharing stops by itself after this
+}
+
+// How long someone can share their location for, in minutes
+export const SHARING_WINDOW_OPTIONS = [15, 30, 60];
+
+export const DEFAULT_SHARING_WINDOW = 30;
+
+// Security rules refuse positions shared for longer than this, keep them in step
+const MAX_SHARING_WINDOW_MS = Math.max(...SHARING_WINDOW_OPTIONS) * 60 * 1000;
+
+// Sharing opens this long before a scheduled picnic starts
+export const SHARING_OPENS_MS = 2 * 60 * 60 * 1000;
+
+// Positions are written at most this often, unless someone has moved a long way
+export const PRESENCE_THROTTLE_MS = 30 * 1000;
+export const PRESENCE_MIN_MOVE_METRES = 200;
+
+// Rough travel speeds for the ETA, since we only know the straight-line distance
+const WALKING_KMH = 5;
+const DRIVING_KMH = 30;
+const WALKING_LIMIT_KM = 2;
+
+export const presenceConverter: FirestoreDataConverter<ParticipantPresence> = {
+  toFirestore(presence: WithFieldValue<ParticipantPresence>): DocumentData {
+    const { id, ...data } = presence;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): ParticipantPresence {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      name: data.name ?? null,
+      photoURL: data.photoURL ?? null,
+      latitude: data.latitude ?? 0,
+      longitude: data.longitude ?? 0,
+      accuracy: data.accuracy ?? 0,
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
+      expiresAt: data.expiresAt instanceof Timestamp ? data.expiresAt.toDate() : new Date(0),
+    };
+  },
+};
+
+const presenceCollection = (picnicId: string) =>
+  collection(db, 'picnics', picnicId, 'presence').withConverter(presenceConverter);
+
+const presenceRef = (picnicId: string, userId: string) =>
+  doc(presenceCollection(picnicId), userId);
+
+const picnicRef = (picnicId: string) => doc(db, 'picnics', picnicId).withConverter(picnicConverter);
+
+/**
+ * Whether people can share their location on the way to a picnic right now
+ */
+export const isSharingOpen = (
+  picnic: Pick<Picnic, 'status' | 'date' | 'location'>,
+  now: Date = new Date()
+): boolean => {
+  if (!picnic.location.coordinates) return false;
+  if (picnic.status === 'active') return true;
+  return picnic.status === 'planning' && !!picnic.date && now.getTime() >= picnic.date.getTime() - SHARING_OPENS_MS;
+};
+
+/**
+ * Rough minutes to cover a straight-line distance in km, walking when it's
+ * close and driving when it isn't
+ */
+export const estimateEtaMinutes = (distanceKm: number): number => {
+  const speed = distanceKm <= WALKING_LIMIT_KM ? WALKING_KMH : DRIVING_KMH;
+  return Math.max(1, Math.round((distanceKm / speed) * 60));
+};
+
+export const formatEta = (minutes: number): string => {
+  if (minutes < 60) return `~${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `~${hours}h ${rest}m` : `~${hours}h`;
+};
+
+/**
+ * When sharing for `minutes` from now ends. Only the windows people are offered are allowed.
+ */
+export const sharingExpiresAt = (minutes: number, now: Date = new Date()): Date => {
+  if (!SHARING_WINDOW_OPTIONS.includes(minutes)) {
+    throw new Error(`Location can be shared for ${SHARING_WINDOW_OPTIONS.join(', ')} minutes`);
+  }
+  return new Date(now.getTime() + minutes * 60 * 1000);
+};
+
+/**
+ * Share or update someone's position until `expiresAt`, which must be within the
+ * longest sharing window and while sharing is open for the picnic. Resolves to
+ * false, removing any shared position, once they've checked in or left the picnic.
+ */
+export const sharePresence = async (
+  picnicId: string,
+  profile: ParticipantProfile,
+  position: CheckInPosition,
+  expiresAt: Date
+): Promise<boolean> => {
+  const remaining = expiresAt.getTime() - Date.now();
+  if (remaining <= 0) throw new Error('Your location sharing has ended');
+  if (remaining > MAX_SHARING_WINDOW_MS) throw new Error('Location can only be shared for an hour at a time');
+
+  try {
+    const [picnicSnap, participantSnap] = await Promise.all([
+      getDoc(picnicRef(picnicId)),
+      getDoc(participantRef(picnicId, profile.id)),
+    ]);
+    const picnic = picnicSnap.data();
+    if (!picnic || !isSharingOpen(picnic)) throw new Error("Location sharing isn't open for this picnic");
+
+    const participant = participantSnap.data();
+    if (!participant || !isAttending(participant.rsvpStatus) || participant.rsvpStatus === 'checked-in') {
+      await deleteDoc(presenceRef(picnicId, profile.id));
+      return false;
+    }
+
+    await setDoc(presenceRef(picnicId, profile.id), {
+      id: profile.id,
+      name: profile.name,
+      photoURL: participant.picnicPhotoURL || profile.photoURL,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      accuracy: position.accuracy,
+      updatedAt: serverTimestamp(),
+      expiresAt: Timestamp.fromDate(expiresAt),
+    });
+    return true;
+  } catch (error) {
+    console.error('Error sharing location:', error);
+    throw error;
+  }
+};
+
+/**
+ * Stop sharing someone's location with the picnic
+ */
+export const stopPresence = async (picnicId: string, userId: string): Promise<void> => {
+  try {
+    await deleteDoc(presenceRef(picnicId, userId));
+  } catch (error) {
+    console.error('Error stopping location sharing:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to everyone sharing their location with a picnic. Only the host and people
+ * coming can. Positions past their window are left out until the scheduled cleanup deletes them.
+ */
+export const subscribeToPresence = (
+  picnicId: string,
+  onChange: (presence: ParticipantPresence[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    presenceCollection(picnicId),
+    (snapshot) => {
+      const now = Date.now();
+      onChange(
+        snapshot.docs
+          .map(presenceDoc => presenceDoc.data())
+          .filter(presence => presence.expiresAt.getTime() > now)
+      );
+    },
+    (error) => {
+      console.error('Error in presence listener:', error);
+      onError(error);
+    }
+  );
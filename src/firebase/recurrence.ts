@@ -0,0 +1,40 @@
+import { weekOfMonth, type RecurrenceFrequency, type RecurrenceRule } from '../../functions/src/shared/recurrence';
+
+/**
+ * How recurring picnics are offered and described. The date rules themselves
+ * live in functions/src/shared/recurrence.ts.
+ */
+
+// Occurrence dates are worked out the same way by the function that creates them
+export {
+  occurrenceDate,
+  occurrencesBetween,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from '../../functions/src/shared/recurrence';
+
+export const RECURRENCE_FREQUENCIES: { id: RecurrenceFrequency; label: string }[] = [
+  { id: 'weekly', label: 'Every week' },
+  { id: 'biweekly', label: 'Every other week' },
+  { id: 'monthly', label: 'Every month' },
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS = ['1st', '2nd', '3rd', '4th'];
+
+/**
+ * How a series repeats, in words, e.g. "Every other Friday"
+ */
+export const describeRecurrence = (rule: Pick<RecurrenceRule, 'frequency' | 'startDate'>): string => {
+  const weekday = WEEKDAYS[rule.startDate.getDay()];
+  switch (rule.frequency) {
+    case 'weekly':
+      return `Every ${weekday}`;
+    case 'biweekly':
+      return `Every other ${weekday}`;
+    case 'monthly': {
+      const week = weekOfMonth(rule.startDate.getDate());
+      return `The ${week > ORDINALS.length ? 'last' : ORDINALS[week - 1]} ${weekday} of every month`;
+    }
+  }
+};
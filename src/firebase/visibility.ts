@@ -0,0 +1,73 @@
+import { doc, getDoc, type DocumentSnapshot, type Transaction } from 'firebase/firestore';
+import { db } from './config';
+import type { Picnic, PicnicVisibility } from './picnics';
+
+// Types
+export interface PicnicAudience {
+  hostFriendIds: string[];
+  viewerFriendIds: string[];
+}
+
+export const PICNIC_VISIBILITIES: { value: PicnicVisibility; label: string; description: string }[] = [
+  { value: 'private', label: 'Private', description: 'Only people you invite or send a link to' },
+  { value: 'friends', label: 'Friends', description: 'Your friends can find and join it' },
+  { value: 'friends-of-friends', label: 'Friends of friends', description: 'Your friends and their friends can find and join it' },
+  { value: 'public', label: 'Public', description: 'Anyone nearby can find and join it' },
+];
+
+const CLOSED_ERRORS: Record<Exclude<PicnicVisibility, 'public'>, string> = {
+  private: 'This picnic is invite-only, ask someone going for an invite link',
+  friends: "Only the host's friends can join this picnic without an invite",
+  'friends-of-friends': "Only the host's friends and their friends can join this picnic without an invite",
+};
+
+/**
+ * Whether someone who isn't part of a picnic can see and join it without an
+ * invite. firestore.rules enforces the same thing in canSeePicnic, keep the two in step.
+ */
+export const isOpenTo = (
+  picnic: Pick<Picnic, 'visibility'>,
+  userId: string,
+  audience: PicnicAudience
+): boolean => {
+  switch (picnic.visibility) {
+    case 'public':
+      return true;
+    case 'friends':
+      return audience.hostFriendIds.includes(userId);
+    case 'friends-of-friends':
+      return audience.hostFriendIds.includes(userId) ||
+        audience.viewerFriendIds.some(friendId => audience.hostFriendIds.includes(friendId));
+    default:
+      return false;
+  }
+};
+
+const friendIdsOf = (userSnap: DocumentSnapshot): string[] => userSnap.data()?.friends ?? [];
+
+/**
+ * Why a user who isn't part of a picnic can't join it without an invite, or
+ * null if they can. Reads the friend lists it depends on, inside `transaction`
+ * when given so it can run before the transaction writes.
+ */
+export const checkPicnicOpenTo = async (
+  picnic: Pick<Picnic, 'hostId' | 'visibility'>,
+  userId: string,
+  transaction?: Transaction
+): Promise<string | null> => {
+  if (picnic.visibility === 'public') return null;
+  if (picnic.visibility === 'private') return CLOSED_ERRORS.private;
+
+  try {
+    const read = (id: string) => {
+      const ref = doc(db, 'users', id);
+      return transaction ? transaction.get(ref) : getDoc(ref);
+    };
+    const [hostSnap, viewerSnap] = await Promise.all([read(picnic.hostId), read(userId)]);
+    const audience = { hostFriendIds: friendIdsOf(hostSnap), viewerFriendIds: friendIdsOf(viewerSnap) };
+    return isOpenTo(picnic, userId, audience) ? null : CLOSED_ERRORS[picnic.visibility];
+  } catch (error) {
+    console.error('Error checking picnic visibility:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,242 @@
+import type { Vote } from './db';
+
+/**
+ * Pure tallying for restaurant votes. Nothing here touches Firebase, so
+ * outcomes can be unit tested and re-computed anywhere from the ballots.
+ */
+
+// Types
+export type TallyMethod = 'plurality' | 'approval' | 'borda' | 'instant-runoff';
+
+export interface TallyCandidate {
+  id: string;
+  name?: string; // Alphabetically first wins a tie the other rules leave standing
+  rating?: number; // Higher wins a tie
+  distance?: number; // In km from the picnic, closer wins a tie
+}
+
+export type TallyBallot = Pick<Vote, 'choices'>;
+
+export type TieBreakRule = 'rating' | 'distance' | 'name';
+
+export interface TieBreak {
+  candidateIds: string[]; // The tied candidates, in the order they were ranked
+  decidedBy: TieBreakRule;
+}
+
+export interface TallyRound {
+  round: number;
+  scores: Record<string, number>; // Only candidates still in the running
+  activeBallots: number; // Ballots that counted towards someone this round
+  exhaustedBallots: number; // Ballots with none of their choices still in the running
+  eliminated: string | null; // Instant-runoff only
+  tieBreak: TieBreak | null;
+}
+
+export interface TallyResult {
+  method: TallyMethod;
+  winnerId: string | null;
+  ranking: string[]; // Every candidate, best first
+  rounds: TallyRound[];
+  totalBallots: number;
+}
+
+// Keep only choices that are on the shortlist, and each one only once
+const cleanChoices = (ballot: TallyBallot, candidateIds: Set<string>): string[] =>
+  ballot.choices.filter((choice, index) =>
+    candidateIds.has(choice) && ballot.choices.indexOf(choice) === index
+  );
+
+const compareByRule = (rule: TieBreakRule, a: TallyCandidate, b: TallyCandidate): number => {
+  switch (rule) {
+    case 'rating':
+      return (b.rating ?? 0) - (a.rating ?? 0);
+    case 'distance':
+      return (a.distance ?? Infinity) - (b.distance ?? Infinity);
+    case 'name': {
+      // Same names fall back to the ID, so the order is always fixed
+      const [nameA, nameB] = [a.name ?? a.id, b.name ?? b.id];
+      if (nameA !== nameB) return nameA < nameB ? -1 : 1;
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    }
+  }
+};
+
+const TIE_BREAK_RULES: TieBreakRule[] = ['rating', 'distance', 'name'];
+
+/**
+ * Order tied candidates best first: by rating, then distance, then name so the
+ * result never depends on the order ballots or candidates arrived in.
+ * Reports the first rule that separated the best (or worst) candidate from the rest.
+ */
+export const breakTie = (tied: TallyCandidate[], position: 'best' | 'worst' = 'best'): TieBreak => {
+  const sorted = [...tied].sort((a, b) => {
+    for (const rule of TIE_BREAK_RULES) {
+      const result = compareByRule(rule, a, b);
+      if (result !== 0 && !Number.isNaN(result)) return result;
+    }
+    return 0;
+  });
+
+  const [first, second] = position === 'best' ? sorted : sorted.slice(-2);
+  const decidedBy = TIE_BREAK_RULES.find(rule => {
+    const result = compareByRule(rule, first, second);
+    return result !== 0 && !Number.isNaN(result);
+  }) ?? 'name';
+
+  return { candidateIds: sorted.map(c => c.id), decidedBy };
+};
+
+// Rank candidates by score, breaking ties. Returns the tie break that decided the top spot, if any.
+const rankByScore = (
+  candidates: TallyCandidate[],
+  scores: Record<string, number>
+): { ranking: string[]; tieBreak: TieBreak | null } => {
+  const groups = new Map<number, TallyCandidate[]>();
+  candidates.forEach(candidate => {
+    const score = scores[candidate.id] ?? 0;
+    groups.set(score, [...(groups.get(score) ?? []), candidate]);
+  });
+
+  let tieBreak: TieBreak | null = null;
+  const ranking = Array.from(groups.keys())
+    .sort((a, b) => b - a)
+    .flatMap((score, index) => {
+      const group = groups.get(score)!;
+      if (group.length === 1) return [group[0].id];
+      const result = breakTie(group);
+      if (index === 0) tieBreak = result;
+      return result.candidateIds;
+    });
+
+  return { ranking, tieBreak };
+};
+
+// One round methods: every ballot is counted once and the scores decide
+const scoreBallots = (
+  method: Exclude<TallyMethod, 'instant-runoff'>,
+  candidates: TallyCandidate[],
+  ballots: string[][]
+): Record<string, number> => {
+  const scores: Record<string, number> = Object.fromEntries(candidates.map(c => [c.id, 0]));
+
+  ballots.forEach(choices => {
+    if (method === 'plurality') {
+      if (choices.length > 0) scores[choices[0]] += 1;
+    } else if (method === 'approval') {
+      choices.forEach(choice => { scores[choice] += 1; });
+    } else {
+      // Borda: first place gets one point per other candidate, unranked candidates get nothing
+      choices.forEach((choice, rank) => { scores[choice] += candidates.length - 1 - rank; });
+    }
+  });
+
+  return scores;
+};
+
+const tallySingleRound = (
+  method: Exclude<TallyMethod, 'instant-runoff'>,
+  candidates: TallyCandidate[],
+  ballots: string[][]
+): Pick<TallyResult, 'winnerId' | 'ranking' | 'rounds'> => {
+  const scores = scoreBallots(method, candidates, ballots);
+  const { ranking, tieBreak } = rankByScore(candidates, scores);
+  const activeBallots = ballots.filter(choices => choices.length > 0).length;
+  const hasVotes = Object.values(scores).some(score => score > 0);
+
+  return {
+    winnerId: hasVotes ? ranking[0] : null,
+    ranking,
+    rounds: [{
+      round: 1,
+      scores,
+      activeBallots,
+      exhaustedBallots: ballots.length - activeBallots,
+      eliminated: null,
+      tieBreak: hasVotes ? tieBreak : null,
+    }],
+  };
+};
+
+/**
+ * Instant-runoff: count each ballot for its highest choice still in the running,
+ * and drop the last place candidate until someone has a majority of active ballots.
+ */
+const tallyInstantRunoff = (
+  candidates: TallyCandidate[],
+  ballots: string[][]
+): Pick<TallyResult, 'winnerId' | 'ranking' | 'rounds'> => {
+  const rounds: TallyRound[] = [];
+  const eliminated: string[] = [];
+  let remaining = [...candidates];
+
+  while (remaining.length > 0) {
+    const remainingIds = new Set(remaining.map(c => c.id));
+    const scores: Record<string, number> = Object.fromEntries(remaining.map(c => [c.id, 0]));
+    let activeBallots = 0;
+
+    ballots.forEach(choices => {
+      const choice = choices.find(id => remainingIds.has(id));
+      if (choice) {
+        scores[choice] += 1;
+        activeBallots += 1;
+      }
+    });
+
+    const { ranking, tieBreak } = rankByScore(remaining, scores);
+    const round: TallyRound = {
+      round: rounds.length + 1,
+      scores,
+      activeBallots,
+      exhaustedBallots: ballots.length - activeBallots,
+      eliminated: null,
+      tieBreak: null,
+    };
+    rounds.push(round);
+
+    if (activeBallots === 0) {
+      return { winnerId: null, ranking: [...ranking, ...eliminated.slice().reverse()], rounds };
+    }
+
+    const leader = ranking[0];
+    if (scores[leader] * 2 > activeBallots || remaining.length === 1) {
+      round.tieBreak = tieBreak;
+      return { winnerId: leader, ranking: [...ranking, ...eliminated.slice().reverse()], rounds };
+    }
+
+    // Drop the last place candidate. If several share last place, the tie break picks who goes.
+    const lowest = Math.min(...remaining.map(c => scores[c.id]));
+    const lastPlace = remaining.filter(c => scores[c.id] === lowest);
+    if (lastPlace.length > 1) {
+      const lastPlaceTie = breakTie(lastPlace, 'worst');
+      round.tieBreak = lastPlaceTie;
+      round.eliminated = lastPlaceTie.candidateIds[lastPlaceTie.candidateIds.length - 1];
+    } else {
+      round.eliminated = lastPlace[0].id;
+    }
+
+    eliminated.push(round.eliminated);
+    remaining = remaining.filter(c => c.id !== round.eliminated);
+  }
+
+  return { winnerId: null, ranking: eliminated.slice().reverse(), rounds };
+};
+
+/**
+ * Tally a restaurant vote. Choices that aren't on the shortlist are ignored,
+ * and the same restaurant picked twice on one ballot only counts once.
+ */
+export const tallyVotes = (
+  method: TallyMethod,
+  candidates: TallyCandidate[],
+  ballots: TallyBallot[]
+): TallyResult => {
+  const candidateIds = new Set(candidates.map(c => c.id));
+  const cleanBallots = ballots.map(ballot => cleanChoices(ballot, candidateIds));
+
+  const result = method === 'instant-runoff'
+    ? tallyInstantRunoff(candidates, cleanBallots)
+    : tallySingleRound(method, candidates, cleanBallots);
+
+  return { method, totalBallots: ballots.length, ...result };
+};
@@ -0,0 +1,326 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  type DocumentData,
+  type FirestoreDataConverter,
+  type QueryDocumentSnapshot,
+  type SnapshotOptions,
+  type Unsubscribe,
+  type WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './config';
+import type { Vote, VotingMethod } from './db';
+import { tallyVotes, type TallyCandidate, type TallyMethod, type TallyResult } from './voteTally';
+import { picnicConverter, locationGeohash, type PicnicLocation } from './picnics';
+import { calculateDistance, type Coordinates } from '../utils/geo';
+import { participantRef, isAttending } from './participants';
+
+// Types
+export interface VoteCandidate {
+  id: string; // Google place ID
+  name: string;
+  address: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+  rating?: number;
+  photoUrl?: string;
+  addedBy: string;
+}
+
+export interface PicnicVote {
+  method: VotingMethod;
+  status: 'open' | 'closed';
+  candidates: VoteCandidate[];
+  winnerId: string | null;
+  round: number; // Goes up each time a vote is opened, so ballots from earlier votes don't count
+  openedAt: Date | null;
+  closedAt: Date | null;
+}
+
+export const VOTING_METHOD_LABELS: Record<VotingMethod, string> = {
+  single: 'One pick each',
+  approval: 'Pick all you like',
+  ranked: 'Rank your favorites',
+  borda: 'Rank them, points per place',
+};
+
+const TALLY_METHODS: Record<VotingMethod, TallyMethod> = {
+  single: 'plurality',
+  approval: 'approval',
+  ranked: 'instant-runoff',
+  borda: 'borda',
+};
+
+export const isRankedMethod = (method: VotingMethod): boolean => method === 'ranked' || method === 'borda';
+
+export const voteConverter: FirestoreDataConverter<Vote> = {
+  toFirestore(vote: WithFieldValue<Vote>): DocumentData {
+    const { id, ...data } = vote;
+    return data;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Vote {
+    const data = snapshot.data(options);
+    return {
+      id: snapshot.id,
+      userId: data.userId ?? snapshot.id,
+      picnicId: data.picnicId,
+      restaurantId: data.restaurantId,
+      choices: data.choices ?? [data.restaurantId],
+      round: data.round ?? 0,
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(),
+    };
+  },
+};
+
+const votesCollection = (picnicId: string) =>
+  collection(db, 'picnics', picnicId, 'votes').withConverter(voteConverter);
+
+const picnicRef = (picnicId: string) => doc(db, 'picnics', picnicId).withConverter(picnicConverter);
+
+/**
+ * Check a ballot against the voting method, returning an error message if it isn't valid
+ */
+export const validateBallot = (
+  vote: Pick<PicnicVote, 'method' | 'candidates'>,
+  choices: string[]
+): string | null => {
+  if (choices.length === 0) return 'Pick at least one restaurant';
+  if (new Set(choices).size !== choices.length) return 'Each restaurant can only be picked once';
+  if (vote.method === 'single' && choices.length > 1) return 'Pick just one restaurant';
+
+  const candidateIds = new Set(vote.candidates.map(c => c.id));
+  if (choices.some(choice => !candidateIds.has(choice))) {
+    return 'That restaurant is no longer on the shortlist';
+  }
+  return null;
+};
+
+/**
+ * Tally the ballots cast so far with the vote's method. Ties go to the
+ * restaurant closest to `origin`, where the picnic is planned for now.
+ */
+export const tallyPicnicVote = (
+  vote: Pick<PicnicVote, 'method' | 'candidates'>,
+  ballots: Vote[],
+  origin?: Coordinates
+): TallyResult => {
+  const candidates: TallyCandidate[] = vote.candidates.map(candidate => ({
+    id: candidate.id,
+    name: candidate.name,
+    rating: candidate.rating,
+    ...(origin && candidate.coordinates && {
+      distance: calculateDistance(
+        origin.latitude,
+        origin.longitude,
+        candidate.coordinates.latitude,
+        candidate.coordinates.longitude
+      ),
+    }),
+  }));
+  return tallyVotes(TALLY_METHODS[vote.method], candidates, ballots);
+};
+
+/**
+ * Open a vote on where to have a picnic. Only the host can, and only while the picnic is being planned.
+ * The picnic's current location starts on the shortlist.
+ */
+export const openVote = async (picnicId: string, userId: string, method: VotingMethod): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const picnic = picnicSnap.data();
+      if (!picnic) throw new Error('Picnic not found');
+      if (picnic.hostId !== userId) throw new Error('Only the host can start a vote');
+      if (picnic.status !== 'planning') throw new Error('Votes can only be held while a picnic is being planned');
+      if (picnic.vote?.status === 'open') throw new Error('A vote is already open');
+
+      const candidates: VoteCandidate[] = picnic.location.placeId
+        ? [{
+            id: picnic.location.placeId,
+            name: picnic.location.name,
+            address: picnic.location.address,
+            ...(picnic.location.coordinates && { coordinates: picnic.location.coordinates }),
+            addedBy: userId,
+          }]
+        : [];
+
+      transaction.update(doc(db, 'picnics', picnicId), {
+        vote: {
+          method,
+          status: 'open',
+          candidates,
+          winnerId: null,
+          round: (picnic.vote?.round ?? 0) + 1,
+          openedAt: serverTimestamp(),
+          closedAt: null,
+        },
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error opening vote:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add a restaurant to an open vote's shortlist. Any participant can suggest one.
+ */
+export const addCandidate = async (picnicId: string, candidate: VoteCandidate): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const participantSnap = await transaction.get(participantRef(picnicId, candidate.addedBy));
+      const vote = picnicSnap.data()?.vote;
+      if (!vote || vote.status !== 'open') throw new Error('There is no open vote for this picnic');
+      if (!participantSnap.exists() || !isAttending(participantSnap.data().rsvpStatus)) {
+        throw new Error('Only participants can suggest restaurants');
+      }
+      if (vote.candidates.some(c => c.id === candidate.id)) return;
+
+      transaction.update(doc(db, 'picnics', picnicId), {
+        'vote.candidates': [...vote.candidates, candidate],
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error adding vote candidate:', error);
+    throw error;
+  }
+};
+
+/**
+ * Take a restaurant off the shortlist. Only the host can.
+ */
+export const removeCandidate = async (picnicId: string, userId: string, candidateId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const picnic = picnicSnap.data();
+      if (!picnic?.vote || picnic.vote.status !== 'open') throw new Error('There is no open vote for this picnic');
+      if (picnic.hostId !== userId) throw new Error('Only the host can remove restaurants');
+
+      transaction.update(doc(db, 'picnics', picnicId), {
+        'vote.candidates': picnic.vote.candidates.filter(c => c.id !== candidateId),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error removing vote candidate:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cast or replace a participant's ballot
+ */
+export const castBallot = async (picnicId: string, userId: string, choices: string[]): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const ballotRef = doc(votesCollection(picnicId), userId);
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const participantSnap = await transaction.get(participantRef(picnicId, userId));
+      const ballotSnap = await transaction.get(ballotRef);
+
+      const vote = picnicSnap.data()?.vote;
+      if (!vote || vote.status !== 'open') throw new Error('Voting is closed');
+      if (!participantSnap.exists() || !isAttending(participantSnap.data().rsvpStatus)) {
+        throw new Error('Only participants can vote');
+      }
+      const ballotError = validateBallot(vote, choices);
+      if (ballotError) throw new Error(ballotError);
+
+      transaction.set(ballotRef, {
+        id: userId,
+        userId,
+        picnicId,
+        restaurantId: choices[0],
+        choices,
+        round: vote.round,
+        createdAt: ballotSnap.exists() ? ballotSnap.data().createdAt : serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    });
+  } catch (error) {
+    console.error('Error casting ballot:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribe to the ballots cast in one round of a picnic's vote. Ballots left over from earlier rounds are ignored.
+ */
+export const subscribeToBallots = (
+  picnicId: string,
+  round: number,
+  onChange: (ballots: Vote[]) => void,
+  onError: (error: Error) => void = () => {}
+): Unsubscribe =>
+  onSnapshot(
+    votesCollection(picnicId),
+    (snapshot) => onChange(
+      snapshot.docs.map(ballotDoc => ballotDoc.data()).filter(ballot => ballot.round === round)
+    ),
+    (error) => {
+      console.error('Error in ballots listener:', error);
+      onError(error);
+    }
+  );
+
+/**
+ * Close the vote and move the picnic to the winning restaurant. Only the host can.
+ * Counts the ballots as stored, leaving out anyone who is no longer coming and any left from earlier votes.
+ */
+export const closeVote = async (picnicId: string, userId: string): Promise<VoteCandidate | null> => {
+  try {
+    // Transactions can't run queries, so find who voted first and read each ballot again inside
+    const ballotIds = (await getDocs(votesCollection(picnicId))).docs.map(ballotDoc => ballotDoc.id);
+
+    return await runTransaction(db, async (transaction) => {
+      const picnicSnap = await transaction.get(picnicRef(picnicId));
+      const picnic = picnicSnap.data();
+      if (!picnic?.vote || picnic.vote.status !== 'open') throw new Error('There is no open vote for this picnic');
+      if (picnic.hostId !== userId) throw new Error('Only the host can close the vote');
+
+      const ballots: Vote[] = [];
+      for (const ballotId of ballotIds) {
+        const ballotSnap = await transaction.get(doc(votesCollection(picnicId), ballotId));
+        if (!ballotSnap.exists()) continue;
+        const ballot = ballotSnap.data();
+        if (ballot.round !== picnic.vote.round) continue;
+        const participantSnap = await transaction.get(participantRef(picnicId, ballot.userId));
+        if (participantSnap.exists() && isAttending(participantSnap.data().rsvpStatus)) ballots.push(ballot);
+      }
+
+      const { winnerId } = tallyPicnicVote(picnic.vote, ballots, picnic.location.coordinates);
+      const winner = picnic.vote.candidates.find(c => c.id === winnerId) ?? null;
+
+      const location: PicnicLocation | null = winner && {
+        name: winner.name,
+        address: winner.address,
+        placeId: winner.id,
+        ...(winner.coordinates && { coordinates: winner.coordinates }),
+      };
+
+      transaction.update(doc(db, 'picnics', picnicId), {
+        'vote.status': 'closed',
+        'vote.winnerId': winner?.id ?? null,
+        'vote.closedAt': serverTimestamp(),
+        ...(location && { location, geohash: locationGeohash(location), restaurantName: location.name }),
+        updatedAt: serverTimestamp(),
+      });
+      return winner;
+    });
+  } catch (error) {
+    console.error('Error closing vote:', error);
+    throw error;
+  }
+};
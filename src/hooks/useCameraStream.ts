@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Stream a camera into a <video> element while `active` is true, stopping
+ * every track when it turns false or the component unmounts.
+ * A `deviceId` picks a specific camera from `devices`, otherwise `facingMode` does.
+ */
+export const useCameraStream = (
+  active: boolean,
+  facingMode: 'user' | 'environment' = 'user',
+  deviceId: string | null = null
+) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let isMounted = true;
+    let mediaStream: MediaStream | null = null;
+
+    const startCamera = async () => {
+      try {
+        if (!navigator.mediaDevices?.getUserMedia) {
+          throw new Error('This browser cannot use the camera');
+        }
+
+        mediaStream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }),
+            width: { ideal: 1280 },
+            height: { ideal: 720 }
+          },
+          audio: false,
+        });
+
+        if (!isMounted) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        setError(null);
+        setPermissionDenied(false);
+        setStream(mediaStream);
+
+        // Camera names are only filled in once access has been granted
+        const allDevices = await navigator.mediaDevices.enumerateDevices();
+        if (isMounted) setDevices(allDevices.filter(device => device.kind === 'videoinput'));
+      } catch (err) {
+        if (!isMounted) return;
+        console.error('Error accessing camera:', err);
+        const denied = err instanceof Error && err.name === 'NotAllowedError';
+        setPermissionDenied(denied);
+        setError(denied
+          ? 'Camera access was denied. Allow it in your browser settings to continue.'
+          : 'Camera not available');
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      isMounted = false;
+      mediaStream?.getTracks().forEach(track => track.stop());
+      setStream(null);
+    };
+  }, [active, facingMode, deviceId]);
+
+  // Attach the stream once both it and the video element exist
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !stream) return;
+
+    videoElement.srcObject = stream;
+    videoElement.play().catch(err => {
+      console.error('Error playing video:', err);
+      setError(`Error starting camera: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    });
+
+    return () => {
+      videoElement.pause();
+      videoElement.srcObject = null;
+    };
+  }, [stream]);
+
+  return { videoRef, stream, devices, error, permissionDenied };
+};
+
+export default useCameraStream;
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { subscribeToUserExpenses, type Expense } from '../firebase/expenses';
+import { balancesWith } from '../firebase/expenseLedger';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Where the current user stands with each person they've shared picnic expenses with,
+ * netted across every picnic. Keyed by friend ID, then currency; positive means they owe us.
+ * Also returns the expenses themselves, which settling up works through picnic by picnic.
+ */
+export const useFriendBalances = () => {
+  const { currentUser } = useAuth();
+  const { data: expenses, loading, error } = useSubscription<Expense[]>(
+    currentUser ? (onChange, onError) => subscribeToUserExpenses(currentUser.uid, onChange, onError) : null,
+    [currentUser],
+    { initialValue: [], errorMessage: 'Failed to load balances' }
+  );
+
+  const balances = useMemo(() => {
+    const byFriend: Record<string, Record<string, number>> = {};
+    if (!currentUser) return byFriend;
+
+    Object.entries(balancesWith(expenses, currentUser.uid)).forEach(([currency, friends]) => {
+      Object.entries(friends).forEach(([friendId, amount]) => {
+        if (amount === 0) return;
+        byFriend[friendId] = { ...byFriend[friendId], [currency]: amount };
+      });
+    });
+    return byFriend;
+  }, [expenses, currentUser]);
+
+  return { balances, expenses, loading, error };
+};
+
+export default useFriendBalances;
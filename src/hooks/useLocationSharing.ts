@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  sharePresence,
+  sharingExpiresAt,
+  stopPresence,
+  PRESENCE_MIN_MOVE_METRES,
+  PRESENCE_THROTTLE_MS,
+  type ParticipantPresence,
+} from '../firebase/presence';
+import type { ParticipantProfile } from '../firebase/participants';
+import { calculateDistance, getCurrentPosition } from '../utils/geo';
+
+const toPosition = (position: GeolocationPosition) => ({
+  latitude: position.coords.latitude,
+  longitude: position.coords.longitude,
+  accuracy: position.coords.accuracy,
+});
+
+/**
+ * Share the device's location with a picnic while `myPresence` says we are.
+ * Positions are throttled, and sharing stops by itself when the window ends
+ * or once `finished` turns true, when they've checked in or the picnic is over.
+ */
+export const useLocationSharing = (
+  picnicId: string,
+  profile: ParticipantProfile | null,
+  myPresence: ParticipantPresence | undefined,
+  finished: boolean
+) => {
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  const lastSentRef = useRef<{ at: number; latitude: number; longitude: number } | null>(null);
+
+  const userId = profile?.id ?? null;
+  const expiresAt = myPresence?.expiresAt.getTime() ?? null;
+
+  const start = useCallback(async (minutes: number) => {
+    if (!profileRef.current) return;
+
+    try {
+      setIsStarting(true);
+      setError(null);
+      const expiresAt = sharingExpiresAt(minutes);
+      const position = toPosition(await getCurrentPosition());
+      const shared = await sharePresence(picnicId, profileRef.current, position, expiresAt);
+      if (!shared) {
+        setError("You're already checked in");
+        return;
+      }
+      lastSentRef.current = { at: Date.now(), latitude: position.latitude, longitude: position.longitude };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to share your location. Please try again.');
+    } finally {
+      setIsStarting(false);
+    }
+  }, [picnicId]);
+
+  const stop = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setError(null);
+      await stopPresence(picnicId, userId);
+    } catch {
+      setError('Failed to stop sharing your location. Please try again.');
+    }
+  }, [picnicId, userId]);
+
+  useEffect(() => {
+    if (!userId || expiresAt === null) return;
+
+    if (finished) {
+      stopPresence(picnicId, userId).catch(() => {});
+      return;
+    }
+
+    const expiryTimer = window.setTimeout(() => {
+      stopPresence(picnicId, userId).catch(() => {});
+    }, Math.max(0, expiresAt - Date.now()));
+
+    if (!navigator.geolocation) {
+      return () => window.clearTimeout(expiryTimer);
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (geoPosition) => {
+        const position = toPosition(geoPosition);
+        const lastSent = lastSentRef.current;
+        const now = Date.now();
+        const movedMetres = lastSent
+          ? calculateDistance(lastSent.latitude, lastSent.longitude, position.latitude, position.longitude) * 1000
+          : Infinity;
+
+        if (lastSent && now - lastSent.at < PRESENCE_THROTTLE_MS && movedMetres < PRESENCE_MIN_MOVE_METRES) return;
+        if (!profileRef.current || now >= expiresAt) return;
+
+        lastSentRef.current = { at: now, latitude: position.latitude, longitude: position.longitude };
+        sharePresence(picnicId, profileRef.current, position, new Date(expiresAt)).catch(() => {
+          setError('Lost connection while sharing your location');
+        });
+      },
+      (geoError) => {
+        console.error('Error watching location:', geoError);
+        setError(geoError.code === geoError.PERMISSION_DENIED
+          ? 'Location access was denied, so your location stopped updating'
+          : "Couldn't update your location");
+      },
+      { enableHighAccuracy: true, maximumAge: 15000 }
+    );
+
+    return () => {
+      window.clearTimeout(expiryTimer);
+      navigator.geolocation.clearWatch(watchId);
+    };
+  }, [picnicId, userId, expiresAt, finished]);
+
+  return { isSharing: expiresAt !== null, isStarting, error, start, stop };
+};
+
+export default useLocationSharing;
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import { findNearbyPublicPicnics, picnicStartTime, type NearbyPicnic } from '../firebase/discovery';
+import { getWeatherAt, isGoodWeatherForPicnic } from '../services/weatherService';
+import type { Coordinates } from '../utils/geo';
+
+/**
+ * Public picnics around a spot, with whether the weather suits each one once
+ * the forecasts come in. `goodWeather` is null for a picnic past the end of the
+ * forecast or whose weather couldn't be loaded.
+ */
+export const useNearbyPicnics = (center: Coordinates | null, radiusKm: number) => {
+  const [nearby, setNearby] = useState<NearbyPicnic[]>([]);
+  const [goodWeather, setGoodWeather] = useState<Record<string, boolean | null>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const refresh = useCallback(() => setRefreshKey(key => key + 1), []);
+
+  useEffect(() => {
+    if (!center) return;
+
+    let isMounted = true;
+    setLoading(true);
+    setError(null);
+
+    findNearbyPublicPicnics(center, radiusKm)
+      .then(async (found) => {
+        if (!isMounted) return;
+        setNearby(found);
+        setLoading(false);
+
+        // Forecasts are nice to have, a failed one just leaves the picnic unrated
+        const forecasts = await Promise.allSettled(found.map(({ picnic }) => {
+          const coordinates = picnic.location.coordinates!;
+          return getWeatherAt(coordinates.latitude, coordinates.longitude, picnicStartTime(picnic));
+        }));
+        if (!isMounted) return;
+        setGoodWeather(Object.fromEntries(found.map(({ picnic }, index) => {
+          const forecast = forecasts[index];
+          return [
+            picnic.id,
+            forecast.status === 'fulfilled' && forecast.value ? isGoodWeatherForPicnic(forecast.value) : null,
+          ];
+        })));
+      })
+      .catch(() => {
+        if (!isMounted) return;
+        setError('Failed to find picnics nearby. Please try again.');
+        setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [center, radiusKm, refreshKey]);
+
+  return { nearby, goodWeather, loading, error, refresh };
+};
+
+export default useNearbyPicnics;
@@ -0,0 +1,17 @@
+import { subscribeToPicnic, type Picnic } from '../firebase/picnics';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live view of a single picnic, null once it's loaded if it doesn't exist
+ */
+export const usePicnic = (picnicId: string | undefined) => {
+  const { data: picnic, loading, error } = useSubscription<Picnic | null>(
+    picnicId ? (onChange, onError) => subscribeToPicnic(picnicId, onChange, onError) : null,
+    [picnicId],
+    { initialValue: null, errorMessage: 'Failed to load picnic' }
+  );
+
+  return { picnic, loading, error };
+};
+
+export default usePicnic;
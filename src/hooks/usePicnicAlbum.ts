@@ -0,0 +1,17 @@
+import { subscribeToAlbum, type AlbumPhoto } from '../firebase/album';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live list of the photos in a picnic's album, newest first
+ */
+export const usePicnicAlbum = (picnicId: string | undefined) => {
+  const { data: photos, loading, error } = useSubscription<AlbumPhoto[]>(
+    picnicId ? (onChange, onError) => subscribeToAlbum(picnicId, onChange, onError) : null,
+    [picnicId],
+    { initialValue: [], errorMessage: 'Failed to load the album' }
+  );
+
+  return { photos, loading, error };
+};
+
+export default usePicnicAlbum;
@@ -0,0 +1,20 @@
+import type { Vote } from '../firebase/db';
+import { subscribeToBallots } from '../firebase/votes';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live list of the ballots cast in one round of a picnic's restaurant vote
+ */
+export const usePicnicBallots = (picnicId: string | undefined, round: number | undefined) => {
+  const { data: ballots, loading, error } = useSubscription<Vote[]>(
+    picnicId && round !== undefined
+      ? (onChange, onError) => subscribeToBallots(picnicId, round, onChange, onError)
+      : null,
+    [picnicId, round],
+    { initialValue: [], errorMessage: 'Failed to load votes' }
+  );
+
+  return { ballots, loading, error };
+};
+
+export default usePicnicBallots;
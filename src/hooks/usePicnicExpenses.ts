@@ -0,0 +1,21 @@
+import { useAuth } from '../contexts/AuthContext';
+import { subscribeToPicnicExpenses, type Expense } from '../firebase/expenses';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live list of the current user's expenses and settle-ups on a picnic, newest first
+ */
+export const usePicnicExpenses = (picnicId: string | undefined) => {
+  const { currentUser } = useAuth();
+  const { data: expenses, loading, error } = useSubscription<Expense[]>(
+    picnicId && currentUser
+      ? (onChange, onError) => subscribeToPicnicExpenses(picnicId, currentUser.uid, onChange, onError)
+      : null,
+    [picnicId, currentUser],
+    { initialValue: [], errorMessage: 'Failed to load expenses' }
+  );
+
+  return { expenses, loading, error };
+};
+
+export default usePicnicExpenses;
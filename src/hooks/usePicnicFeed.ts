@@ -0,0 +1,63 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { subscribeToUserPicnics, type Picnic } from '../firebase/picnics';
+
+const byStartDate = (a: Picnic, b: Picnic) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0);
+
+/**
+ * Live feed of the current user's picnics: the ones they host, joined or were invited to
+ */
+export const usePicnicFeed = () => {
+  const { currentUser } = useAuth();
+  const [picnics, setPicnics] = useState<Picnic[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setPicnics([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const unsubscribe = subscribeToUserPicnics(
+      currentUser.uid,
+      (updatedPicnics) => {
+        setPicnics(updatedPicnics);
+        setError(null);
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load picnics. Please refresh the page.');
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [currentUser]);
+
+  const groups = useMemo(() => {
+    const uid = currentUser?.uid;
+    const isParticipant = (picnic: Picnic) => !!uid && picnic.participantIds.includes(uid);
+
+    return {
+      active: picnics.filter(p => p.status === 'active' && isParticipant(p)),
+      upcoming: picnics.filter(p => p.status === 'planning' && isParticipant(p)).sort(byStartDate),
+      invited: picnics.filter(p =>
+        (p.status === 'active' || p.status === 'planning') && !isParticipant(p)
+      ),
+    };
+  }, [picnics, currentUser]);
+
+  return {
+    picnics,
+    ...groups,
+    loading,
+    error,
+  };
+};
+
+export default usePicnicFeed;
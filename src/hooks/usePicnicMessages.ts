@@ -0,0 +1,17 @@
+import { subscribeToMessages, type PicnicMessage } from '../firebase/messages';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live list of the latest messages in a picnic's chat, oldest first
+ */
+export const usePicnicMessages = (picnicId: string | undefined) => {
+  const { data: messages, loading, error } = useSubscription<PicnicMessage[]>(
+    picnicId ? (onChange, onError) => subscribeToMessages(picnicId, onChange, onError) : null,
+    [picnicId],
+    { initialValue: [], errorMessage: 'Failed to load messages' }
+  );
+
+  return { messages, loading, error };
+};
+
+export default usePicnicMessages;
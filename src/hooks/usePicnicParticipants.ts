@@ -0,0 +1,17 @@
+import { subscribeToParticipants, type PicnicParticipant } from '../firebase/participants';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live list of a picnic's participants, in the order they joined
+ */
+export const usePicnicParticipants = (picnicId: string | undefined) => {
+  const { data: participants, loading, error } = useSubscription<PicnicParticipant[]>(
+    picnicId ? (onChange, onError) => subscribeToParticipants(picnicId, onChange, onError) : null,
+    [picnicId],
+    { initialValue: [], errorMessage: 'Failed to load participants' }
+  );
+
+  return { participants, loading, error };
+};
+
+export default usePicnicParticipants;
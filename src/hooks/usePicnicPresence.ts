@@ -0,0 +1,18 @@
+import { subscribeToPresence, type ParticipantPresence } from '../firebase/presence';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live positions of the people sharing their location on the way to a picnic.
+ * Only the host and people coming can see them, so pass no ID for anyone else.
+ */
+export const usePicnicPresence = (picnicId: string | undefined) => {
+  const { data: presence, loading, error } = useSubscription<ParticipantPresence[]>(
+    picnicId ? (onChange, onError) => subscribeToPresence(picnicId, onChange, onError) : null,
+    [picnicId],
+    { initialValue: [], errorMessage: 'Failed to load who is on the way' }
+  );
+
+  return { presence, loading, error };
+};
+
+export default usePicnicPresence;
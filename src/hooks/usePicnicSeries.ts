@@ -0,0 +1,17 @@
+import { subscribeToPicnicSeries, type PicnicSeries } from '../firebase/picnicSeries';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live view of the series a recurring picnic belongs to
+ */
+export const usePicnicSeries = (seriesId: string | null | undefined) => {
+  const { data: series, loading, error } = useSubscription<PicnicSeries | null>(
+    seriesId ? (onChange, onError) => subscribeToPicnicSeries(seriesId, onChange, onError) : null,
+    [seriesId],
+    { initialValue: null, errorMessage: 'Failed to load how this picnic repeats' }
+  );
+
+  return { series, loading, error };
+};
+
+export default usePicnicSeries;
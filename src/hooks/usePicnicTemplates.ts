@@ -0,0 +1,17 @@
+import { subscribeToPicnicTemplates, type PicnicTemplate } from '../firebase/picnicTemplates';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live list of the picnic templates a user has saved, most recently used first
+ */
+export const usePicnicTemplates = (userId: string | undefined) => {
+  const { data: templates, loading, error } = useSubscription<PicnicTemplate[]>(
+    userId ? (onChange, onError) => subscribeToPicnicTemplates(userId, onChange, onError) : null,
+    [userId],
+    { initialValue: [], errorMessage: 'Failed to load your templates' }
+  );
+
+  return { templates, loading, error };
+};
+
+export default usePicnicTemplates;
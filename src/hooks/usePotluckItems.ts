@@ -0,0 +1,17 @@
+import { subscribeToPotluckItems, type PotluckItem } from '../firebase/potluck';
+import { useSubscription } from './useSubscription';
+
+/**
+ * Live list of the items on a picnic's potluck list
+ */
+export const usePotluckItems = (picnicId: string | undefined) => {
+  const { data: items, loading, error } = useSubscription<PotluckItem[]>(
+    picnicId ? (onChange, onError) => subscribeToPotluckItems(picnicId, onChange, onError) : null,
+    [picnicId],
+    { initialValue: [], errorMessage: 'Failed to load the potluck list' }
+  );
+
+  return { items, loading, error };
+};
+
+export default usePotluckItems;
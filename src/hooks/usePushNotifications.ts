@@ -3,19 +3,7 @@ import { messagingService } from '../services/messaging';
 import { useAuth } from '../contexts/AuthContext';
 import { doc, onSnapshot, setDoc } from 'firebase/firestore';
 import { db } from '../firebase/config';
-
-export interface NotificationPreferences {
-  enabled: boolean;
-  sound: boolean;
-  email: boolean;
-  push: boolean;
-  types: {
-    picnicInvites: boolean;
-    friendRequests: boolean;
-    messages: boolean;
-    updates: boolean;
-  };
-}
+import type { NotificationPreferences } from '../firebase/notifications';
 
 const DEFAULT_PREFERENCES: NotificationPreferences = {
   enabled: true,
@@ -0,0 +1,52 @@
+import { useEffect, useState, type DependencyList } from 'react';
+import type { Unsubscribe } from 'firebase/firestore';
+
+// Types
+export type Subscribe<T> = (onChange: (value: T) => void, onError: (error: Error) => void) => Unsubscribe;
+
+interface SubscriptionOptions<T> {
+  initialValue: T; // Shown while loading, and when there is nothing to subscribe to
+  errorMessage: string;
+}
+
+/**
+ * Live value from one of the `subscribeTo…` listeners in src/firebase. Pass
+ * null instead of `subscribe` when there is nothing to listen to yet; the
+ * listener is swapped whenever `deps` change, like an effect's.
+ */
+export const useSubscription = <T>(
+  subscribe: Subscribe<T> | null,
+  deps: DependencyList,
+  { initialValue, errorMessage }: SubscriptionOptions<T>
+) => {
+  const [data, setData] = useState<T>(initialValue);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!subscribe) {
+      setData(initialValue);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = subscribe(
+      (value) => {
+        setData(value);
+        setError(null);
+        setLoading(false);
+      },
+      () => {
+        setError(errorMessage);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, deps);
+
+  return { data, loading, error };
+};
+
+export default useSubscription;
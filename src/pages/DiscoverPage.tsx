@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowPathIcon,
+  CalendarDaysIcon,
+  MapPinIcon,
+  SunIcon,
+  UserGroupIcon,
+} from '@heroicons/react/24/outline';
+import LoadingSpinner from '../components/LoadingSpinner';
+import NearbyPicnicsMap from '../components/NearbyPicnicsMap';
+import { useNearbyPicnics } from '../hooks/useNearbyPicnics';
+import { DEFAULT_AVATAR_URL } from '../firebase/picnics';
+import {
+  filterNearbyPicnics,
+  DEFAULT_DISCOVERY_RADIUS_KM,
+  DEFAULT_NEARBY_FILTERS,
+  DISCOVERY_RADII_KM,
+  START_WINDOWS,
+  type NearbyPicnicFilters,
+  type StartWindow,
+} from '../firebase/discovery';
+import { formatDistance, getCurrentPosition, type Coordinates } from '../utils/geo';
+
+// Default to New York when we can't get the device's location, like the home tab
+const DEFAULT_CENTER: Coordinates = { latitude: 40.7128, longitude: -74.0060 };
+
+const MAX_GROUP_SIZE = 10;
+
+const selectClassName = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+// Public picnics around you that you can join without an invite
+const DiscoverPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [center, setCenter] = useState<Coordinates | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_DISCOVERY_RADIUS_KM);
+  const [filters, setFilters] = useState<NearbyPicnicFilters>(DEFAULT_NEARBY_FILTERS);
+  const { nearby, goodWeather, loading, error, refresh } = useNearbyPicnics(center, radiusKm);
+
+  useEffect(() => {
+    getCurrentPosition()
+      .then(position => setCenter({ latitude: position.coords.latitude, longitude: position.coords.longitude }))
+      .catch((err: Error) => {
+        setLocationError(`${err.message} Showing picnics around New York for now.`);
+        setCenter(DEFAULT_CENTER);
+      });
+  }, []);
+
+  const results = useMemo(
+    () => filterNearbyPicnics(nearby, filters, goodWeather),
+    [nearby, filters, goodWeather]
+  );
+
+  const openPicnic = useCallback((picnicId: string) => navigate(`/picnic/${picnicId}`), [navigate]);
+
+  const updateFilters = (changes: Partial<NearbyPicnicFilters>) => setFilters(current => ({ ...current, ...changes }));
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-xl font-semibold text-gray-900 dark:text-white">Picnics nearby</h1>
+        <button
+          onClick={refresh}
+          disabled={!center || loading}
+          className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+          aria-label="Refresh"
+        >
+          <ArrowPathIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {locationError && <p className="text-sm text-yellow-700 dark:text-yellow-400">{locationError}</p>}
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={radiusKm}
+          onChange={(e) => setRadiusKm(Number(e.target.value))}
+          className={selectClassName}
+          aria-label="How far to look"
+        >
+          {DISCOVERY_RADII_KM.map(radius => (
+            <option key={radius} value={radius}>Within {radius} km</option>
+          ))}
+        </select>
+        <select
+          value={filters.startWindow}
+          onChange={(e) => updateFilters({ startWindow: e.target.value as StartWindow })}
+          className={selectClassName}
+          aria-label="When it starts"
+        >
+          {START_WINDOWS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.groupSize}
+          onChange={(e) => updateFilters({ groupSize: Number(e.target.value) })}
+          className={selectClassName}
+          aria-label="How many of you are coming"
+        >
+          {Array.from({ length: MAX_GROUP_SIZE }, (_, index) => index + 1).map(size => (
+            <option key={size} value={size}>{size === 1 ? 'Just me' : `Room for ${size}`}</option>
+          ))}
+        </select>
+        <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={filters.goodWeatherOnly}
+            onChange={(e) => updateFilters({ goodWeatherOnly: e.target.checked })}
+            className="mr-2 rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+          />
+          Good weather only
+        </label>
+      </div>
+
+      {center && <NearbyPicnicsMap center={center} radiusKm={radiusKm} nearby={results} onSelect={openPicnic} />}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {!center || loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : results.length === 0 ? (
+        <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow text-center">
+          <p className="text-gray-500 dark:text-gray-400">
+            {nearby.length === 0
+              ? 'No public picnics nearby yet. Try looking further away, or host one yourself.'
+              : 'No picnics match those filters.'}
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {results.map(({ picnic, distance }) => {
+            const spotsLeft = picnic.capacity === null ? null : picnic.capacity - picnic.participantCount;
+            return (
+              <li key={picnic.id}>
+                <button
+                  onClick={() => openPicnic(picnic.id)}
+                  className="w-full text-left p-4 bg-white dark:bg-gray-800 rounded-lg shadow flex items-start space-x-3 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <img
+                    src={picnic.hostPhotoURL || DEFAULT_AVATAR_URL}
+                    alt={picnic.hostName}
+                    className="h-10 w-10 rounded-full object-cover flex-shrink-0"
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{picnic.name}</p>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {formatDistance(distance)}
+                      </span>
+                    </div>
+                    <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                      <MapPinIcon className="flex-shrink-0 mr-1 h-4 w-4" />
+                      <span className="truncate">{picnic.restaurantName}</span>
+                    </div>
+                    <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                      <CalendarDaysIcon className="flex-shrink-0 mr-1 h-4 w-4" />
+                      <span>
+                        {picnic.status === 'active' ? 'Happening now' : picnic.date && format(picnic.date, "EEE, MMM d 'at' h:mm a")}
+                      </span>
+                    </div>
+                    <div className="flex items-center text-sm text-gray-500 dark:text-gray-400 space-x-3">
+                      <span className="flex items-center">
+                        <UserGroupIcon className="flex-shrink-0 mr-1 h-4 w-4" />
+                        {picnic.participantCount} going
+                        {spotsLeft !== null && ` · ${spotsLeft} ${spotsLeft === 1 ? 'spot' : 'spots'} left`}
+                      </span>
+                      {goodWeather[picnic.id] && (
+                        <span className="flex items-center text-green-600 dark:text-green-400">
+                          <SunIcon className="flex-shrink-0 mr-1 h-4 w-4" />
+                          Good weather
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DiscoverPage;
@@ -15,6 +15,9 @@ import {
   respondToFriendRequest,
   removeFriend as removeFriendApi
 } from '../firebase/friends';
+import { settleUpWithFriend } from '../firebase/expenses';
+import { useFriendBalances } from '../hooks/useFriendBalances';
+import { formatMoney } from '../utils/currency';
 import { 
   MagnifyingGlassIcon, 
   UserPlusIcon as UserPlusOutline, 
@@ -65,10 +68,12 @@ interface FriendItemProps {
   userId?: string;
   onAction?: (id: string, action: 'accept' | 'decline' | 'remove' | 'add') => void;
   isProcessing?: boolean;
+  balance?: Record<string, number>; // Currency -> minor units, positive when they owe us
+  onSettle?: (friendId: string) => void;
 }
 
 
-const FriendItem = ({ friend, userId, onAction, isProcessing }: FriendItemProps) => (
+const FriendItem = ({ friend, userId, onAction, isProcessing, balance, onSettle }: FriendItemProps) => (
   <div className="flex items-center p-3 hover:bg-gray-50 rounded-xl transition-colors">
     <div className="relative mr-3">
       {friend.photoURL ? (
@@ -95,6 +100,26 @@ const FriendItem = ({ friend, userId, onAction, isProcessing }: FriendItemProps)
         }`}>
           {friend.online ? 'Online' : 'Offline'}
         </p>
+        {balance && Object.keys(balance).length > 0 && (
+          <p className="text-xs truncate">
+            {Object.entries(balance).map(([currency, amount], index) => (
+              <span key={currency} className={amount > 0 ? 'text-green-600' : 'text-red-600'}>
+                {index > 0 && ' · '}
+                {amount > 0
+                  ? `Owes you ${formatMoney(amount, currency)}`
+                  : `You owe ${formatMoney(-amount, currency)}`}
+              </span>
+            ))}
+            {onSettle && (
+              <button
+                onClick={() => onSettle(friend.id)}
+                className="ml-2 text-primary-500 hover:underline"
+              >
+                Settle up
+              </button>
+            )}
+          </p>
+        )}
       </div>
     </div>
     {friend.isRequest && onAction && friend.requestId && (
@@ -159,6 +184,8 @@ export const FriendsTab = () => {
   const [isProcessing, setIsProcessing] = useState<Record<string, boolean>>({});
   const [email, setEmail] = useState('');
   const [showAddFriend, setShowAddFriend] = useState(false);
+  const { balances, expenses } = useFriendBalances();
+  const [settleError, setSettleError] = useState<string | null>(null);
 
   // Filter friends and requests based on search query
   const filteredFriends = useMemo(() => 
@@ -209,6 +236,24 @@ export const FriendsTab = () => {
     }
   }, [user?.uid, isProcessing, setFriends, setRawRequests]);
 
+  // Record that everything between us and a friend has been paid back, in every currency and picnic
+  const handleSettle = useCallback(async (friendId: string) => {
+    const balance = balances[friendId];
+    if (!currentUser || !balance) return;
+
+    const summary = Object.entries(balance)
+      .map(([currency, amount]) => formatMoney(Math.abs(amount), currency))
+      .join(' and ');
+    if (!window.confirm(`Mark ${summary} as paid back?`)) return;
+
+    try {
+      setSettleError(null);
+      await settleUpWithFriend(expenses, currentUser.uid, friendId);
+    } catch (error) {
+      setSettleError(error instanceof Error ? error.message : 'Failed to settle up');
+    }
+  }, [balances, expenses, currentUser]);
+
   const handleAddFriend = async () => {
     if (!email || !user?.uid) return;
 
@@ -528,6 +573,9 @@ export const FriendsTab = () => {
           </div>
         ) : (
           <>
+            {activeTab === 'friends' && settleError && (
+              <p className="px-4 pt-3 text-sm text-red-500">{settleError}</p>
+            )}
             {activeTab === 'friends' && (
               <div className="divide-y divide-gray-100">
                 {filteredFriends.length > 0 ? (
@@ -538,6 +586,8 @@ export const FriendsTab = () => {
                       userId={user?.uid}
                       onAction={handleAction}
                       isProcessing={isProcessing[`remove-${friend.id}`]}
+                      balance={balances[friend.id]}
+                      onSettle={handleSettle}
                     />
                   ))
                 ) : (
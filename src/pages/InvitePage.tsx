@@ -0,0 +1,165 @@
+import { useParams, useNavigate, useLocation, Link } from 'react-router-dom';
+import { useEffect, useState, useCallback } from 'react';
+import { MapPinIcon, CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import JoinPicnicFlow from '../components/JoinPicnicFlow';
+import LoadingSpinner from '../components/LoadingSpinner';
+import ProfileCompleteRoute from '../components/ProfileCompleteRoute';
+import { checkInviteLink, claimInviteLink, getInviteLink, type InviteLinkPreview } from '../firebase/inviteLinks';
+import { getPicnic, isRsvpOpen, DEFAULT_AVATAR_URL, type Picnic } from '../firebase/picnics';
+
+/**
+ * Landing page for /invite/:token links. Signed out guests see a preview of
+ * what they're invited to and are sent back here after logging in or signing
+ * up, when the link lets them see the picnic itself.
+ */
+const InvitePage = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { currentUser, loading } = useAuth();
+  const [picnic, setPicnic] = useState<Picnic | null>(null);
+  const [preview, setPreview] = useState<InviteLinkPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      if (!token) {
+        setError('Invalid invite link');
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        // Only signed in users can see picnics, guests get the preview saved with the link
+        if (!currentUser) {
+          const link = await getInviteLink(token);
+          if (!link) {
+            throw new Error('This invite link does not exist');
+          }
+          const linkError = checkInviteLink(link);
+          if (linkError) {
+            throw new Error(linkError);
+          }
+          setPreview(link.preview);
+          setError(null);
+          return;
+        }
+
+        const link = await claimInviteLink(token, currentUser.uid);
+        const data = await getPicnic(link.picnicId);
+        if (!data || data.archived) {
+          throw new Error('Picnic not found');
+        }
+        if (data.status !== 'active' && !isRsvpOpen(data)) {
+          throw new Error(data.status === 'planning'
+            ? 'RSVPs for this picnic are closed'
+            : 'This picnic is no longer active');
+        }
+
+        setPicnic(data);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading invite:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load invite');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (!loading) loadInvite();
+  }, [token, currentUser, loading]);
+
+  const handleComplete = useCallback(() => {
+    navigate('/');
+  }, [navigate]);
+
+  if (loading || isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !token || (currentUser && !picnic)) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen p-4">
+        <div className="bg-red-50 text-red-700 p-4 rounded-lg max-w-md w-full text-center">
+          <h2 className="text-xl font-bold mb-2">Cannot Join Picnic</h2>
+          <p className="mb-4">{error || 'Invalid invite link'}</p>
+          <button
+            onClick={() => navigate('/')}
+            className="px-4 py-2 bg-red-100 hover:bg-red-200 rounded-md text-red-700"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Signed in users without a username finish their profile first, then come back here
+  if (currentUser && picnic) {
+    return (
+      <ProfileCompleteRoute>
+        <div className="max-w-md mx-auto p-4">
+          <JoinPicnicFlow
+            picnicId={picnic.id}
+            inviteToken={token}
+            onComplete={handleComplete}
+          />
+        </div>
+      </ProfileCompleteRoute>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg max-w-md w-full text-center space-y-4">
+        <img
+          className="h-16 w-16 rounded-full mx-auto"
+          src={preview?.hostPhotoURL || DEFAULT_AVATAR_URL}
+          alt={preview?.hostName || 'Host'}
+        />
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+          {preview ? `${preview.hostName} invited you to a picnic` : "You've been invited to a picnic"}
+        </h2>
+        {preview && (
+          <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <p className="flex items-center justify-center">
+              <MapPinIcon className="mr-1 h-4 w-4" />
+              {preview.restaurantName}
+            </p>
+            {preview.date && (
+              <p className="flex items-center justify-center">
+                <CalendarDaysIcon className="mr-1 h-4 w-4" />
+                {format(preview.date, "EEE, MMM d 'at' h:mm a")}
+              </p>
+            )}
+          </div>
+        )}
+        <div className="flex flex-col space-y-2 pt-2">
+          <Link
+            to="/signup"
+            state={{ from: location }}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+          >
+            Sign up to join
+          </Link>
+          <Link
+            to="/login"
+            state={{ from: location }}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            I already have an account
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvitePage;
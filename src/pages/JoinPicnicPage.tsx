@@ -1,34 +1,50 @@
 import { useParams, useNavigate } from 'react-router-dom';
 import { useEffect, useState, useCallback } from 'react';
-import { useFirebase } from '../contexts/FirebaseContext';
 import JoinPicnicFlow from '../components/JoinPicnicFlow';
-import { DocumentData } from 'firebase/firestore';
+import { getDoc } from 'firebase/firestore';
+import { useAuth } from '../contexts/AuthContext';
+import { getPicnic, isRsvpOpen } from '../firebase/picnics';
+import { participantRef } from '../firebase/participants';
+import { checkPicnicOpenTo } from '../firebase/visibility';
 
 const JoinPicnicPage = () => {
   const { picnicId } = useParams<{ picnicId: string }>();
   const navigate = useNavigate();
-  const firebase = useFirebase();
+  const { currentUser } = useAuth();
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Verify the picnic exists when the component mounts
   useEffect(() => {
     const verifyPicnic = async () => {
-      if (!picnicId) {
+      if (!picnicId || !currentUser) {
         setError('Invalid picnic link');
         setIsLoading(false);
         return;
       }
 
       try {
-        const data = await firebase.getDocument<DocumentData>('picnics', picnicId);
+        // Picnics the user isn't allowed to see can't be read at all
+        const data = await getPicnic(picnicId).catch((err) => {
+          if (err?.code === 'permission-denied') throw new Error("You can't see this picnic, ask someone going for an invite link");
+          throw err;
+        });
         if (!data) {
           throw new Error('Picnic not found');
         }
         
-        // Check if picnic is still active
-        if (data.status !== 'active') {
-          throw new Error('This picnic is no longer active');
+        // Check if picnic is still active, or still taking RSVPs if it is scheduled
+        if (data.archived || (data.status !== 'active' && !isRsvpOpen(data))) {
+          throw new Error(data.status === 'planning'
+            ? 'RSVPs for this picnic are closed'
+            : 'This picnic is no longer active');
+        }
+
+        // Without an invite link, people who weren't invited can only join if its visibility lets them
+        const participantDoc = await getDoc(participantRef(picnicId, currentUser.uid));
+        if (!participantDoc.exists() && data.hostId !== currentUser.uid) {
+          const closedError = await checkPicnicOpenTo(data, currentUser.uid);
+          if (closedError) throw new Error(closedError);
         }
         
         setError(null);
@@ -42,7 +58,7 @@ const JoinPicnicPage = () => {
     };
 
     verifyPicnic();
-  }, [picnicId, firebase]);
+  }, [picnicId, currentUser]);
 
   const handleComplete = useCallback(() => {
     // Navigate to home after joining
@@ -1,9 +1,10 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 
 import { useAuth } from '../contexts/AuthContext';
 import { Logo } from '../components/Logo';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { redirectPathFrom } from '../utils/redirect';
 
 export const LoginPage = () => {
   const [email, setEmail] = useState('');
@@ -14,6 +15,7 @@ export const LoginPage = () => {
   const { signIn } = useAuth();
 // TODO: Replace signIn logic with real Firebase signIn if needed
   const navigate = useNavigate();
+  const location = useLocation();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,7 +28,8 @@ export const LoginPage = () => {
       setError('');
       setLoading(true);
       await signIn(email, password);
-      navigate('/');
+      // Back to wherever they were headed, e.g. an invite link
+      navigate(redirectPathFrom(location.state), { replace: true });
     } catch (err) {
       console.error('Failed to sign in', err);
       setError('Failed to sign in. Please check your credentials.');
@@ -49,6 +52,7 @@ export const LoginPage = () => {
             Or{' '}
             <Link 
               to="/signup" 
+              state={location.state}
               className="font-medium text-primary-400 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
             >
               create a new account
@@ -0,0 +1,429 @@
+import { useState, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowLeftIcon,
+  BookmarkIcon,
+  CalendarDaysIcon,
+  EyeIcon,
+  LinkIcon,
+  PencilSquareIcon,
+  QrCodeIcon,
+  TrashIcon,
+  UserGroupIcon,
+} from '@heroicons/react/24/outline';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_AVATAR_URL, isRsvpOpen, type Picnic, type PicnicUpdate } from '../firebase/picnics';
+import { isAttending, isCounted, setRsvpStatus, type RsvpStatus } from '../firebase/participants';
+import { savePicnicAsTemplate } from '../firebase/picnicTemplates';
+import { PICNIC_VISIBILITIES } from '../firebase/visibility';
+import { cancelPicnicAndNotify, editPicnicDetails } from '../firebase/picnicLifecycle';
+import { usePicnic } from '../hooks/usePicnic';
+import { usePicnicParticipants } from '../hooks/usePicnicParticipants';
+import { usePicnicPresence } from '../hooks/usePicnicPresence';
+import { downloadPicnicIcs } from '../utils/ics';
+import { ParticipantStrip } from '../components/PicnicWidget';
+import PicnicMap from '../components/PicnicMap';
+import PicnicWeatherCard from '../components/PicnicWeatherCard';
+import PicnicGallery from '../components/PicnicGallery';
+import CheckInPanel from '../components/CheckInPanel';
+import PicnicSeriesPanel from '../components/PicnicSeriesPanel';
+import OnTheWayPanel from '../components/OnTheWayPanel';
+import WaitlistPanel from '../components/WaitlistPanel';
+import RestaurantVotePanel from '../components/RestaurantVotePanel';
+import PicnicChatPanel from '../components/PicnicChatPanel';
+import PotluckPanel from '../components/PotluckPanel';
+import PicnicExpensesPanel from '../components/PicnicExpensesPanel';
+import EditPicnicModal from '../components/EditPicnicModal';
+import CancelPicnicModal from '../components/CancelPicnicModal';
+import InviteLinksModal from '../components/InviteLinksModal';
+import PicnicQRCodeModal from '../components/PicnicQRCodeModal';
+import SaveTemplateModal from '../components/SaveTemplateModal';
+
+type DetailTab = 'chat' | 'potluck' | 'expenses' | 'photos';
+
+const TABS: { id: DetailTab; label: string }[] = [
+  { id: 'chat', label: 'Chat' },
+  { id: 'potluck', label: 'Potluck' },
+  { id: 'expenses', label: 'Expenses' },
+  { id: 'photos', label: 'Photos' },
+];
+
+const RSVP_OPTIONS: { status: RsvpStatus; label: string }[] = [
+  { status: 'going', label: 'Going' },
+  { status: 'maybe', label: 'Maybe' },
+  { status: 'declined', label: "Can't go" },
+];
+
+const STATUS_STYLES: Record<Picnic['status'], string> = {
+  planning: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  active: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  completed: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const STATUS_LABELS: Record<Picnic['status'], string> = {
+  planning: 'Scheduled',
+  active: 'Happening now',
+  completed: 'Finished',
+  cancelled: 'Cancelled',
+};
+
+// Everything about one picnic: where, when, who, and the chat, potluck, expenses and photos
+const PicnicDetailPage = () => {
+  const { picnicId } = useParams<{ picnicId: string }>();
+  const navigate = useNavigate();
+  const { currentUser } = useAuth();
+  const { picnic, loading, error: loadError } = usePicnic(picnicId);
+  const { participants, loading: participantsLoading } = usePicnicParticipants(picnicId);
+  // Where people are is only shared with the host and whoever's coming
+  const seesPresence = !!currentUser && !!picnic
+    && (picnic.hostId === currentUser.uid || picnic.participantIds.includes(currentUser.uid));
+  const { presence } = usePicnicPresence(seesPresence ? picnicId : undefined);
+  const [activeTab, setActiveTab] = useState<DetailTab>('chat');
+  const [showEdit, setShowEdit] = useState(false);
+  const [showCancel, setShowCancel] = useState(false);
+  const [showInviteLinks, setShowInviteLinks] = useState(false);
+  const [showQRCode, setShowQRCode] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const myParticipant = participants.find(participant => participant.id === currentUser?.uid);
+
+  const handleRsvp = useCallback(async (rsvpStatus: RsvpStatus) => {
+    if (!currentUser || !picnic) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await setRsvpStatus(picnic.id, {
+        id: currentUser.uid,
+        name: currentUser.displayName || null,
+        photoURL: currentUser.photoURL || null,
+      }, rsvpStatus);
+    } catch (err) {
+      console.error('Error updating RSVP:', err);
+      setError('Failed to update your RSVP. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [currentUser, picnic]);
+
+  const handleEditPicnic = useCallback(async (updates: PicnicUpdate) => {
+    if (!currentUser || !picnic) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await editPicnicDetails(picnic, currentUser.uid, updates);
+      setShowEdit(false);
+    } catch (err) {
+      console.error('Error editing picnic:', err);
+      setError('Failed to update picnic. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [currentUser, picnic]);
+
+  const handleCancelPicnic = useCallback(async (reason: string) => {
+    if (!currentUser || !picnic) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await cancelPicnicAndNotify({ picnicId: picnic.id, hostId: currentUser.uid, reason });
+      setShowCancel(false);
+    } catch (err) {
+      console.error('Error cancelling picnic:', err);
+      setError('Failed to cancel picnic. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [currentUser, picnic]);
+
+  const handleSaveTemplate = useCallback(async (name: string) => {
+    if (!currentUser || !picnic) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await savePicnicAsTemplate(currentUser.uid, picnic, name);
+      setShowSaveTemplate(false);
+      setNotice('Saved. Start it again from the home screen.');
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setError('Failed to save the template. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [currentUser, picnic]);
+
+  if (loading || participantsLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  // Only the host, people invited and people who've answered can see a picnic
+  const canView = !!picnic && !!currentUser && (
+    picnic.hostId === currentUser.uid ||
+    picnic.participantIds.includes(currentUser.uid) ||
+    picnic.invitedUsers.includes(currentUser.uid) ||
+    !!myParticipant
+  );
+
+  if (loadError || !picnic || !canView) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen p-4">
+        <div className="bg-red-50 text-red-700 p-4 rounded-lg max-w-md w-full text-center">
+          <h2 className="text-xl font-bold mb-2">Cannot Open Picnic</h2>
+          <p className="mb-4">
+            {loadError || (!picnic ? 'Picnic not found' : "You haven't been invited to this picnic")}
+          </p>
+          <button
+            onClick={() => navigate('/')}
+            className="px-4 py-2 bg-red-100 hover:bg-red-200 rounded-md text-red-700"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isHost = picnic.hostId === currentUser!.uid;
+  const isOver = picnic.status === 'completed' || picnic.status === 'cancelled';
+  // Once someone has checked in, changing their RSVP would undo it
+  const canRsvp = !isHost && myParticipant?.rsvpStatus !== 'checked-in' && (picnic.status === 'active' || isRsvpOpen(picnic));
+  const isFull = picnic.capacity !== null && picnic.participantCount >= picnic.capacity;
+  const isWaitlisted = myParticipant?.rsvpStatus === 'waitlisted';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => navigate(-1)}
+            className="p-2 -ml-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            aria-label="Back"
+          >
+            <ArrowLeftIcon className="h-5 w-5" />
+          </button>
+          {!isOver && (
+            <div className="flex items-center space-x-1">
+              {picnic.date && (
+                <button
+                  onClick={() => downloadPicnicIcs(picnic, participants)}
+                  className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                  aria-label="Add to calendar"
+                >
+                  <CalendarDaysIcon className="h-5 w-5" />
+                </button>
+              )}
+              <button
+                onClick={() => setShowQRCode(true)}
+                className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                aria-label="Show QR code"
+              >
+                <QrCodeIcon className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setShowInviteLinks(true)}
+                className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                aria-label="Share invite link"
+              >
+                <LinkIcon className="h-5 w-5" />
+              </button>
+              {isHost && (
+                <>
+                  <button
+                    onClick={() => setShowEdit(true)}
+                    className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                    aria-label="Edit picnic"
+                  >
+                    <PencilSquareIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => setShowCancel(true)}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                    aria-label="Cancel picnic"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          {picnic.photoURL && (
+            <img src={picnic.photoURL} alt={picnic.name} className="w-full h-48 object-cover" />
+          )}
+          <div className="p-4 space-y-2">
+            <div className="flex items-start justify-between">
+              <h1 className="text-xl font-bold text-gray-900 dark:text-white">{picnic.name}</h1>
+              <span className={`ml-2 px-2 py-1 text-xs rounded-full whitespace-nowrap ${STATUS_STYLES[picnic.status]}`}>
+                {STATUS_LABELS[picnic.status]}
+              </span>
+            </div>
+            {picnic.date && (
+              <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                <CalendarDaysIcon className="flex-shrink-0 mr-1 h-4 w-4" />
+                <span>
+                  {format(picnic.date, "EEE, MMM d 'at' h:mm a")}
+                  {picnic.rsvpDeadline && picnic.status === 'planning' && ` · RSVP by ${format(picnic.rsvpDeadline, 'MMM d, h:mm a')}`}
+                </span>
+              </div>
+            )}
+            {picnic.description && (
+              <p className="text-sm text-gray-700 dark:text-gray-300">{picnic.description}</p>
+            )}
+            {picnic.status === 'cancelled' && picnic.cancellationReason && (
+              <p className="text-sm text-red-600 dark:text-red-400">Cancelled: {picnic.cancellationReason}</p>
+            )}
+            <div className="flex items-center pt-2">
+              <img
+                className="h-8 w-8 rounded-full"
+                src={picnic.hostPhotoURL || DEFAULT_AVATAR_URL}
+                alt={picnic.hostName}
+                onError={(e: React.SyntheticEvent<HTMLImageElement>) => {
+                  const target = e.target as HTMLImageElement;
+                  target.src = DEFAULT_AVATAR_URL;
+                }}
+              />
+              <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">Hosted by {picnic.hostName}</span>
+            </div>
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <UserGroupIcon className="flex-shrink-0 mr-1.5 h-4 w-4" />
+              <span>
+                {picnic.participantCount}{picnic.capacity !== null && ` of ${picnic.capacity}`} going
+                {picnic.waitlistIds.length > 0 && ` · ${picnic.waitlistIds.length} on the waitlist`}
+              </span>
+            </div>
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+              <EyeIcon className="flex-shrink-0 mr-1.5 h-4 w-4" />
+              <span>{PICNIC_VISIBILITIES.find(option => option.value === picnic.visibility)?.label}</span>
+            </div>
+            <ParticipantStrip picnicId={picnic.id} />
+          </div>
+        </div>
+
+        {canRsvp && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Are you coming?</p>
+            <div className="flex space-x-2">
+              {RSVP_OPTIONS.map(option => {
+                // Waiting for a spot shows as the going option
+                const selected = myParticipant?.rsvpStatus === option.status || (option.status === 'going' && isWaitlisted);
+                const label = option.status === 'going' && isWaitlisted
+                  ? 'On the waitlist'
+                  : option.status === 'going' && isFull && !isCounted(myParticipant?.rsvpStatus)
+                    ? 'Join waitlist'
+                    : option.label;
+                return (
+                  <button
+                    key={option.status}
+                    onClick={() => handleRsvp(option.status)}
+                    disabled={isSaving || selected}
+                    className={`flex-1 px-3 py-2 text-sm rounded-lg disabled:cursor-not-allowed ${
+                      selected
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <WaitlistPanel picnic={picnic} participants={participants} />
+        <PicnicSeriesPanel picnic={picnic} />
+        {picnic.status !== 'cancelled' && (isHost || isAttending(myParticipant?.rsvpStatus)) && (
+          <button
+            onClick={() => setShowSaveTemplate(true)}
+            className="w-full flex items-center justify-center px-4 py-2 text-sm text-blue-500 hover:text-blue-600 bg-white dark:bg-gray-800 rounded-lg shadow"
+          >
+            <BookmarkIcon className="h-4 w-4 mr-1" />
+            Save as a template
+          </button>
+        )}
+        {notice && <p className="text-sm text-green-600 dark:text-green-400">{notice}</p>}
+        <CheckInPanel picnic={picnic} participants={participants} />
+        <OnTheWayPanel picnic={picnic} participants={participants} presence={presence} />
+        <PicnicMap location={picnic.location} presence={presence} />
+        <PicnicWeatherCard picnic={picnic} />
+        {picnic.status === 'planning' && <RestaurantVotePanel picnic={picnic} />}
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <div className="flex border-b border-gray-200 dark:border-gray-700">
+            {TABS.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`flex-1 py-3 text-sm font-medium ${
+                  activeTab === tab.id
+                    ? 'text-blue-600 border-b-2 border-blue-500 dark:text-blue-400'
+                    : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          {activeTab === 'chat' && (
+            <div className="h-[60vh] flex flex-col">
+              <PicnicChatPanel picnic={picnic} />
+            </div>
+          )}
+          {activeTab === 'potluck' && <PotluckPanel picnic={picnic} />}
+          {activeTab === 'expenses' && <PicnicExpensesPanel picnic={picnic} />}
+          {activeTab === 'photos' && <PicnicGallery picnic={picnic} />}
+        </div>
+      </div>
+
+      <EditPicnicModal
+        picnic={showEdit ? picnic : null}
+        onClose={() => setShowEdit(false)}
+        onSave={handleEditPicnic}
+        isLoading={isSaving}
+      />
+
+      <CancelPicnicModal
+        isOpen={showCancel}
+        onClose={() => setShowCancel(false)}
+        onCancelPicnic={handleCancelPicnic}
+        isLoading={isSaving}
+        picnicName={picnic.name}
+      />
+
+      <InviteLinksModal
+        picnic={showInviteLinks ? picnic : null}
+        onClose={() => setShowInviteLinks(false)}
+      />
+
+      <SaveTemplateModal
+        picnic={showSaveTemplate ? picnic : null}
+        onClose={() => setShowSaveTemplate(false)}
+        onSave={handleSaveTemplate}
+        isLoading={isSaving}
+      />
+
+      <PicnicQRCodeModal
+        picnic={showQRCode ? picnic : null}
+        onClose={() => setShowQRCode(false)}
+      />
+    </div>
+  );
+};
+
+export default PicnicDetailPage;
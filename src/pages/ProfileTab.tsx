@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { PencilIcon, Cog6ToothIcon, ClockIcon, UserGroupIcon, XMarkIcon, MapPinIcon, UserCircleIcon, QuestionMarkCircleIcon, ArrowRightOnRectangleIcon, BellAlertIcon, SunIcon, MoonIcon } from '@heroicons/react/24/outline';
+import { PencilIcon, Cog6ToothIcon, ClockIcon, UserGroupIcon, XMarkIcon, MapPinIcon, UserCircleIcon, QuestionMarkCircleIcon, ArrowRightOnRectangleIcon, BellAlertIcon, CalendarDaysIcon, SunIcon, MoonIcon } from '@heroicons/react/24/outline';
 import { BookmarkIcon as BookmarkIconSolid, StarIcon } from '@heroicons/react/24/solid';
 import { collection, query, where, getDocs, doc, deleteDoc, orderBy } from 'firebase/firestore';
 import { useFirebase } from '../contexts/FirebaseContext';
@@ -9,6 +9,9 @@ import { useNavigate } from 'react-router-dom';
 // Remove duplicate import
 import { Dialog, DialogContent, DialogTitle, IconButton } from '@mui/material';
 import { NotificationPreferences } from '../components/notifications/NotificationPreferences';
+import CalendarFeedModal from '../components/CalendarFeedModal';
+import { listUserPicnics } from '../firebase/picnics';
+import { uploadImage } from '../firebase/images';
 
 interface EditProfileModalProps {
   isOpen: boolean;
@@ -140,18 +143,6 @@ interface UserProfile {
   };
 }
 
-interface PicnicData {
-  id: string;
-  restaurantRef: string;
-  participants: string[];
-  createdAt: { toDate: () => Date };
-}
-
-interface RestaurantData {
-  name: string;
-  photos?: string[];
-}
-
 interface Picnic {
   id: string;
   restaurant: string;
@@ -165,13 +156,15 @@ import { useAuth } from '../contexts/AuthContext';
 export function ProfileTab() {
   const navigate = useNavigate();
   const { darkMode, toggleDarkMode, temperatureUnit, toggleTemperatureUnit } = useTheme();
-  const { auth, getDocument, getDocuments, updateDocument, uploadFile, db } = useFirebase();
+  const { auth, getDocument, updateDocument, db } = useFirebase();
   const { currentUser, signOut } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showNotificationPrefs, setShowNotificationPrefs] = useState(false);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
   const [isUserLoading, setIsUserLoading] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   
   // State declarations - all hooks must be called in the same order on every render
   const [activeTab, setActiveTab] = useState<'picniks' | 'saved' | 'reviews'>('picniks');
@@ -310,8 +303,14 @@ export function ProfileTab() {
     if (!file || !currentUser?.uid) return;
 
     setIsUploading(true);
+    setUploadProgress(0);
     try {
-      const downloadURL = await uploadFile(`profilePics/${currentUser.uid}`, file);
+      // Profile pictures only ever show small, so they don't need to be big
+      const { url: downloadURL } = await uploadImage(`profilePics/${currentUser.uid}`, file, {
+        maxDimension: 512,
+        maxBytes: 200 * 1024,
+        onProgress: setUploadProgress,
+      });
       await updateDocument('users', currentUser.uid, { photoURL: downloadURL });
       setProfile((prev: UserProfile | null) => prev ? { ...prev, photoURL: downloadURL } : null);
     } catch (error) {
@@ -363,58 +362,15 @@ export function ProfileTab() {
 
       try {
         setIsPicnicsLoading(true);
-        const userPicnics: Picnic[] = [];
-        
-        // Only fetch picnics if we have a valid user
-        if (currentUser.uid) {
-          // First, try to get picnics where user is a participant
-          const picnicsQuery = query(
-            collection(db, 'picnics'),
-            where('participants', 'array-contains', currentUser.uid),
-            orderBy('createdAt', 'desc')
-          );
-          
-          console.log('Fetching picnics with query:', {
-            collection: 'picnics',
-            where: ['participants', 'array-contains', currentUser.uid],
-            orderBy: ['createdAt', 'desc']
-          });
-          
-          const querySnapshot = await getDocs(picnicsQuery).catch(error => {
-            console.error('Error fetching picnics (participants):', error);
-            throw error;
-          });
-          
-          // Convert to array of PicnicData
-          const picnicsData = querySnapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          })) as PicnicData[];
-          
-          console.log('Fetched picnics:', picnicsData);
-          
-          // Process each picnic
-          for (const picnic of picnicsData) {
-            try {
-              // Get restaurant details
-              const restaurant = await getDocument<RestaurantData>('restaurants', picnic.restaurantRef);
-              
-              if (restaurant) {
-                userPicnics.push({
-                  id: picnic.id,
-                  restaurant: restaurant.name || 'Unknown Restaurant',
-                  date: picnic.createdAt?.toDate() || new Date(),
-                  image: restaurant.photos?.[0] || 'https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?ixlib=rb-1.2.1&auto=format&fit=crop&w=500&q=60',
-                  participants: picnic.participants || [],
-                });
-              }
-            } catch (error) {
-              console.error('Error processing picnic:', error);
-            }
-          }
-          
-          setPicnics(userPicnics);
-        }
+        const userPicnics = await listUserPicnics(currentUser.uid);
+
+        setPicnics(userPicnics.map(picnic => ({
+          id: picnic.id,
+          restaurant: picnic.restaurantName || 'Unknown Restaurant',
+          date: picnic.date || picnic.createdAt,
+          image: picnic.photoURL || 'https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?ixlib=rb-1.2.1&auto=format&fit=crop&w=500&q=60',
+          participants: picnic.participantIds,
+        })));
       } catch (error) {
         console.error('Error fetching picnics:', error);
         setError('Failed to load picnics');
@@ -424,7 +380,7 @@ export function ProfileTab() {
     };
 
     fetchUserPicnics();
-  }, [user, getDocument, getDocuments]);
+  }, [currentUser]);
 
   // Load saved restaurants when the tab changes or user changes
   useEffect(() => {
@@ -627,6 +583,30 @@ export function ProfileTab() {
                       </svg>
                     </div>
 
+                    {/* Calendar Subscription Button */}
+                    <div 
+                      className="flex items-center justify-between py-4 px-6 border-b border-gray-200 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800"
+                      onClick={() => setShowCalendarFeed(true)}
+                    >
+                      <div className="flex items-center">
+                        <CalendarDaysIcon className="h-5 w-5 text-gray-500 mr-3" />
+                        <span className="text-gray-900 dark:text-white">Calendar Subscription</span>
+                      </div>
+                      <svg
+                        className="h-5 w-5 text-gray-400"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M9 5l7 7-7 7"
+                        />
+                      </svg>
+                    </div>
+
                     {/* Temperature Unit Toggle */}
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-3">
@@ -724,6 +704,11 @@ export function ProfileTab() {
                   target.src = `https://ui-avatars.com/api/?name=${encodeURIComponent(profile && profile.displayName || 'User')}&background=random`;
                 }}
               />
+              {isUploading && (
+                <div className="absolute inset-0 rounded-full bg-black bg-opacity-50 flex items-center justify-center">
+                  <span className="text-white text-sm font-medium">{Math.round(uploadProgress * 100)}%</span>
+                </div>
+              )}
               <button 
                 onClick={() => fileInputRef.current?.click()}
                 disabled={isUploading}
@@ -980,6 +965,14 @@ export function ProfileTab() {
         onSave={handleUpdateProfile}
       />
 
+      {currentUser && (
+        <CalendarFeedModal
+          isOpen={showCalendarFeed}
+          onClose={() => setShowCalendarFeed(false)}
+          userId={currentUser.uid}
+        />
+      )}
+
       {/* Notification Preferences Dialog */}
       <Dialog
         open={showNotificationPrefs}
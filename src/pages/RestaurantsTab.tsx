@@ -1,9 +1,13 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { CameraIcon as CameraIconSolid, BookmarkIcon as BookmarkIconSolid, MapPinIcon } from '@heroicons/react/24/solid';
-import { BookmarkIcon } from '@heroicons/react/24/outline';
+import { BookmarkIcon, CalendarDaysIcon, HandThumbUpIcon } from '@heroicons/react/24/outline';
 import { Loader } from '@googlemaps/js-api-loader';
 import { useFirebase } from '../contexts/FirebaseContext';
+import { usePicnicFeed } from '../hooks/usePicnicFeed';
+import { addCandidate } from '../firebase/votes';
+import type { Picnic } from '../firebase/picnics';
+import { calculateDistance, formatDistance } from '../utils/geo';
 import { 
   collection, 
   getDocs,
@@ -66,25 +70,6 @@ interface Restaurant {
   saved?: boolean;
 }
 
-// Helper function to calculate distance between two coordinates (Haversine formula)
-const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-  const R = 6371; // Earth's radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c; // Distance in km
-};
-
-// Format distance with appropriate units
-const formatDistance = (distance: number): string => {
-  if (distance < 1) return `${Math.round(distance * 1000)}m`;
-  return `${distance.toFixed(1)}km`;
-};
-
 const fetchNearbyRestaurants = async (
   map: google.maps.Map,
   location: Location,
@@ -153,7 +138,12 @@ const RestaurantCard: React.FC<{
   onRemove: (r: Restaurant) => void; 
   isSaved: boolean;
   onStartPicnic: (r: Restaurant) => void;
-}> = ({ restaurant, onSave, onRemove, isSaved, onStartPicnic }) => {
+  onPlanPicnic: (r: Restaurant) => void;
+  votingPicnics: Picnic[];
+  onSuggest: (r: Restaurant, picnicId: string) => void;
+}> = ({ restaurant, onSave, onRemove, isSaved, onStartPicnic, onPlanPicnic, votingPicnics, onSuggest }) => {
+  const [showVoteMenu, setShowVoteMenu] = useState(false);
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
       <div className="flex justify-between items-center mb-4">
@@ -195,6 +185,47 @@ const RestaurantCard: React.FC<{
             <CameraIconSolid className="h-4 w-4" />
             <span>Start Picnic</span>
           </button>
+          <button 
+            onClick={() => onPlanPicnic(restaurant)}
+            className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+            aria-label="Plan a picnic for later"
+          >
+            <CalendarDaysIcon className="h-5 w-5" />
+          </button>
+          {votingPicnics.length > 0 && (
+            <div className="relative">
+              <button 
+                onClick={() => {
+                  // Skip the menu when there's only one vote to suggest it for
+                  if (votingPicnics.length === 1) {
+                    onSuggest(restaurant, votingPicnics[0].id);
+                  } else {
+                    setShowVoteMenu(prev => !prev);
+                  }
+                }}
+                className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+                aria-label="Suggest for a picnic vote"
+              >
+                <HandThumbUpIcon className="h-5 w-5" />
+              </button>
+              {showVoteMenu && (
+                <div className="absolute right-0 mt-1 w-48 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10 py-1">
+                  {votingPicnics.map((picnic) => (
+                    <button
+                      key={picnic.id}
+                      onClick={() => {
+                        onSuggest(restaurant, picnic.id);
+                        setShowVoteMenu(false);
+                      }}
+                      className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700 truncate"
+                    >
+                      {picnic.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           <button 
             onClick={(e) => {
               e.stopPropagation();
@@ -230,6 +261,8 @@ const RestaurantsTab: React.FC = (): JSX.Element => {
   const [nextPageToken, setNextPageToken] = useState<string | undefined>();
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [showFilters, setShowFilters] = useState<boolean>(false);
+  const { upcoming: upcomingPicnics } = usePicnicFeed();
+  const votingPicnics = upcomingPicnics.filter(picnic => picnic.vote?.status === 'open');
   
   // Refs
   const mapRef = useRef<HTMLDivElement>(null);
@@ -330,8 +363,8 @@ const RestaurantsTab: React.FC = (): JSX.Element => {
     }
   }, [auth.currentUser, db]);
 
-  // Handle starting a picnic at a restaurant
-  const handleStartPicnic = useCallback((restaurant: Restaurant) => {
+  // Handle starting a picnic at a restaurant, either right now or scheduled for later
+  const handleStartPicnic = useCallback((restaurant: Restaurant, planForLater: boolean = false) => {
     if (!restaurant?.place_id || !restaurant.geometry?.location) {
       console.error('Invalid restaurant data');
       setError('Invalid restaurant data. Please try again.');
@@ -354,7 +387,8 @@ const RestaurantsTab: React.FC = (): JSX.Element => {
                 : restaurant.geometry.location.lng
             }
           },
-          startPicnic: true
+          startPicnic: !planForLater,
+          planPicnic: planForLater
         } 
       });
     } catch (error) {
@@ -363,6 +397,29 @@ const RestaurantsTab: React.FC = (): JSX.Element => {
     }
   }, [navigate]);
 
+  // Suggest a restaurant for a picnic's open vote
+  const handleSuggestRestaurant = useCallback(async (restaurant: Restaurant, picnicId: string) => {
+    if (!auth.currentUser || !restaurant.geometry?.location) return;
+
+    try {
+      await addCandidate(picnicId, {
+        id: restaurant.place_id,
+        name: restaurant.name,
+        address: restaurant.vicinity || '',
+        coordinates: {
+          latitude: restaurant.geometry.location.lat(),
+          longitude: restaurant.geometry.location.lng(),
+        },
+        ...(restaurant.rating && { rating: restaurant.rating }),
+        ...(restaurant.photos?.[0] && { photoUrl: restaurant.photos[0].getUrl() }),
+        addedBy: auth.currentUser.uid,
+      });
+    } catch (error) {
+      console.error('Error suggesting restaurant:', error);
+      setError(error instanceof Error ? error.message : 'Failed to suggest restaurant. Please try again.');
+    }
+  }, [auth.currentUser]);
+
   // Load saved restaurants when user changes
   useEffect(() => {
     if (!auth?.currentUser) {
@@ -679,6 +736,9 @@ const RestaurantsTab: React.FC = (): JSX.Element => {
                   onRemove={toggleSaveRestaurant}
                   isSaved={savedRestaurants.has(restaurant.place_id)}
                   onStartPicnic={handleStartPicnic}
+                  onPlanPicnic={(r) => handleStartPicnic(r, true)}
+                  votingPicnics={votingPicnics}
+                  onSuggest={handleSuggestRestaurant}
                 />
               </div>
             ))}
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useFirebase } from '../contexts/FirebaseContext';
+import { redirectPathFrom } from '../utils/redirect';
 
 const SetUsernamePage: React.FC = () => {
   const { currentUser } = useAuth();
@@ -10,6 +11,7 @@ const SetUsernamePage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,7 +34,7 @@ const SetUsernamePage: React.FC = () => {
         return;
       }
       await updateDocument('users', user.uid, { username });
-      navigate('/'); // Redirect to main app
+      navigate(redirectPathFrom(location.state), { replace: true }); // Redirect to main app, or the invite they followed
     } catch (err: any) {
       setError('Failed to set username. Please try again.');
     } finally {
@@ -1,8 +1,9 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 
 import { useAuth } from '../contexts/AuthContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { redirectPathFrom } from '../utils/redirect';
 
 export const SignupPage = () => {
   const [email, setEmail] = useState('');
@@ -15,6 +16,7 @@ export const SignupPage = () => {
   const { signUp } = useAuth();
 // TODO: Replace signUp logic with real Firebase signUp if needed
   const navigate = useNavigate();
+  const location = useLocation();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,7 +46,8 @@ export const SignupPage = () => {
     try {
       setLoading(true);
       await signUp(email, password, name);
-      navigate('/');
+      // Back to wherever they were headed, e.g. an invite link
+      navigate(redirectPathFrom(location.state), { replace: true });
     } catch (err: any) {
       console.error('Signup error:', err);
       // The error message from AuthContext will be more specific
@@ -65,6 +68,7 @@ export const SignupPage = () => {
             Or{' '}
             <Link 
               to="/login" 
+              state={location.state}
               className="font-medium text-primary-400 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
             >
               sign in to your account
@@ -1,24 +1,41 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { useFirebase } from '../contexts/FirebaseContext';
-import { collection, doc, setDoc, deleteDoc, serverTimestamp, getDocs, query, where } from 'firebase/firestore';
 import { useLocation } from 'react-router-dom';
-import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { v4 as uuidv4 } from 'uuid';
 import PicnicWidget from '../components/PicnicWidget';
-import type { PicnicData } from '../components/PicnicWidget';
 import CameraModal from '../components/CameraModal';
-import { TrashIcon } from '@heroicons/react/24/outline';
-
-interface ExtendedPicnicData extends PicnicData {
-  status?: 'active' | 'completed';
-  createdAt?: any;
-  updatedAt?: any;
-  photoURL?: string;
-  photoPath?: string;
-  hostId?: string;
-}
+import SchedulePicnicModal, { type PicnicSchedule } from '../components/SchedulePicnicModal';
+import RestaurantVotePanel from '../components/RestaurantVotePanel';
+import CancelPicnicModal from '../components/CancelPicnicModal';
+import EditPicnicModal from '../components/EditPicnicModal';
+import InviteLinksModal from '../components/InviteLinksModal';
+import PicnicQRCodeModal from '../components/PicnicQRCodeModal';
+import QRScannerModal from '../components/QRScannerModal';
+import PicnicPanelModal from '../components/PicnicPanelModal';
+import PicnicChatPanel from '../components/PicnicChatPanel';
+import PotluckPanel from '../components/PotluckPanel';
+import PicnicExpensesPanel from '../components/PicnicExpensesPanel';
+import PicnicTemplateList from '../components/PicnicTemplateList';
+import { TrashIcon, PencilSquareIcon, ArrowRightOnRectangleIcon, LinkIcon, QrCodeIcon, ChatBubbleLeftRightIcon, ClipboardDocumentListIcon, BanknotesIcon } from '@heroicons/react/24/outline';
+import {
+  createPicnic,
+  newPicnicId,
+  DEFAULT_AVATAR_URL,
+  type Picnic,
+  type PicnicLocation,
+  type PicnicUpdate,
+} from '../firebase/picnics';
+import { leavePicnic } from '../firebase/participants';
+import { cancelPicnicAndNotify, editPicnicDetails, leaveAsHost } from '../firebase/picnicLifecycle';
+import {
+  deletePicnicTemplate,
+  nextStartFor,
+  startPicnicFromTemplate,
+  type PicnicTemplate,
+} from '../firebase/picnicTemplates';
+import { uploadImage } from '../firebase/images';
+import { usePicnicFeed } from '../hooks/usePicnicFeed';
+import { usePicnicTemplates } from '../hooks/usePicnicTemplates';
 
 interface Restaurant {
   id: string;
@@ -30,6 +47,16 @@ interface Restaurant {
   };
 }
 
+const toPicnicLocation = (restaurant: Restaurant): PicnicLocation => ({
+  name: restaurant.name,
+  address: restaurant.address,
+  placeId: restaurant.id,
+  coordinates: {
+    latitude: restaurant.location.lat,
+    longitude: restaurant.location.lng,
+  },
+});
+
 interface WeatherData {
   emoji: string;
   face: string;
@@ -44,22 +71,47 @@ export function StartPicnikTab() {
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [weatherLoading, setWeatherLoading] = useState(true);
   const [_, setUserLocation] = useState<{lat: number; lng: number} | null>(null);
-  const [activePicnics, setActivePicnics] = useState<ExtendedPicnicData[]>([]);
   // Define the shape of location state
   interface LocationState {
     restaurant?: Restaurant;
     showCamera?: boolean;
+    planPicnic?: boolean;
   }
 
   const location = useLocation();
   const locationState = location.state as LocationState | undefined;
   const [selectedRestaurant, setSelectedRestaurant] = useState<Restaurant | null>(null);
   const [showCameraModal, setShowCameraModal] = useState(false);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
   const [isCreatingPicnic, setIsCreatingPicnic] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [cancellingPicnic, setCancellingPicnic] = useState<Picnic | null>(null);
+  const [editingPicnic, setEditingPicnic] = useState<Picnic | null>(null);
+  const [sharingPicnic, setSharingPicnic] = useState<Picnic | null>(null);
+  const [qrCodePicnic, setQrCodePicnic] = useState<Picnic | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+  const [chattingPicnic, setChattingPicnic] = useState<Picnic | null>(null);
+  const [potluckPicnicId, setPotluckPicnicId] = useState<string | null>(null);
+  const [planningTemplate, setPlanningTemplate] = useState<PicnicTemplate | null>(null);
+  const [expensesPicnic, setExpensesPicnic] = useState<Picnic | null>(null);
+  const [isSavingPicnic, setIsSavingPicnic] = useState(false);
   const [errorState, setErrorState] = useState<string | null>(null);
   
-  const { db } = useFirebase();
   const { currentUser, loading } = useAuth();
+  const {
+    picnics,
+    active: activePicnics,
+    upcoming: upcomingPicnics,
+    invited: invitedPicnics,
+    loading: picnicsLoading,
+    error: picnicsError,
+  } = usePicnicFeed();
+  const { templates } = usePicnicTemplates(currentUser?.uid);
+  // Follows the feed, so claims made elsewhere show up while the list is open
+  const potluckPicnic = picnics.find(picnic => picnic.id === potluckPicnicId);
+  // Worked out once per template so the schedule modal keeps what the user types
+  const templateStart = useMemo(() => planningTemplate && nextStartFor(planningTemplate), [planningTemplate]);
+
   
   // Get weather emoji and face based on condition
   const getWeatherEmoji = (condition: string) => {
@@ -187,6 +239,10 @@ export function StartPicnikTab() {
       setShowCameraModal(true);
       // Clear the state to prevent reopening on refresh
       window.history.replaceState({}, '');
+    } else if (location.state?.planPicnic && location.state.restaurant) {
+      setSelectedRestaurant(location.state.restaurant);
+      setShowScheduleModal(true);
+      window.history.replaceState({}, '');
     }
   }, [location.state]);
 
@@ -200,45 +256,26 @@ export function StartPicnikTab() {
     try {
       setIsCreatingPicnic(true);
       
-      // Create a new picnic ID
-      const picnicId = uuidv4();
-      const storage = getStorage();
-      const fileName = `photo-${Date.now()}.jpg`;
-      const storagePath = `picnics/${currentUser.uid}/${picnicId}/${fileName}`;
-      const storageRef = ref(storage, storagePath);
-
-      // Convert base64 to blob and upload
-      const response = await fetch(imageData);
-      const blob = await response.blob();
-      const snapshot = await uploadBytes(storageRef, blob);
-      const photoURL = await getDownloadURL(snapshot.ref);
-
-      // Create picnic document
-      const picnicData: ExtendedPicnicData = {
+      // Reserve the picnic ID so the photo can live under it
+      const picnicId = newPicnicId();
+      const storagePath = `picnics/${currentUser.uid}/${picnicId}/photo-${Date.now()}.jpg`;
+
+      // Compress the shot and upload it with a thumbnail
+      setUploadProgress(0);
+      const { url: photoURL } = await uploadImage(storagePath, imageData, { onProgress: setUploadProgress });
+
+      // Create picnic document, the feed picks it up from there
+      await createPicnic({
         id: picnicId,
+        hostId: currentUser.uid,
         hostName: currentUser.displayName || 'You',
-        hostPhotoURL: currentUser.photoURL || 'https://www.gravatar.com/avatar/00000000000000000000000000000000?d=mp&f=y',
-        restaurantName: selectedRestaurant.name,
-        participants: [{
-          id: currentUser.uid,
-          name: currentUser.displayName || 'You',
-          photoURL: currentUser.photoURL || 'https://www.gravatar.com/avatar/00000000000000000000000000000000?d=mp&f=y',
-        }],
+        hostPhotoURL: currentUser.photoURL || DEFAULT_AVATAR_URL,
+        location: toPicnicLocation(selectedRestaurant),
         status: 'active',
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
         photoPath: storagePath,
         photoURL: photoURL,
-        hostId: currentUser.uid
-      };
-
-      // Save to Firestore
-      const picnicRef = doc(collection(db, 'picnics'), picnicId);
-      await setDoc(picnicRef, picnicData);
+      });
 
-      // Update local state
-      setActivePicnics(prev => [...prev, picnicData]);
-      
       // Close the camera modal and navigate
       setShowCameraModal(false);
       setSelectedRestaurant(null);
@@ -248,35 +285,68 @@ export function StartPicnikTab() {
       setErrorState('Failed to create picnic. Please try again.');
     } finally {
       setIsCreatingPicnic(false);
+      setUploadProgress(null);
     }
-  }, [currentUser, selectedRestaurant, db, navigate]);
+  }, [currentUser, selectedRestaurant, navigate]);
+
+  // Handle a picnic scheduled for later, it stays in planning until it starts
+  const handleSchedulePicnic = useCallback(async ({ date, rsvpDeadline, visibility }: PicnicSchedule) => {
+    if (!currentUser || !selectedRestaurant) return;
+
+    try {
+      setIsCreatingPicnic(true);
+
+      await createPicnic({
+        hostId: currentUser.uid,
+        hostName: currentUser.displayName || 'You',
+        hostPhotoURL: currentUser.photoURL || DEFAULT_AVATAR_URL,
+        location: toPicnicLocation(selectedRestaurant),
+        status: 'planning',
+        visibility,
+        date,
+        rsvpDeadline,
+      });
+
+      setShowScheduleModal(false);
+      setSelectedRestaurant(null);
+    } catch (error) {
+      console.error('Error scheduling picnic:', error);
+      setErrorState('Failed to schedule picnic. Please try again.');
+    } finally {
+      setIsCreatingPicnic(false);
+    }
+  }, [currentUser, selectedRestaurant]);
   
-  // Load active picnics on mount
-  useEffect(() => {
+  // Start a picnic from a saved template, straight away or scheduled, and open it
+  const handleStartFromTemplate = useCallback(async (template: PicnicTemplate, schedule: PicnicSchedule | null) => {
     if (!currentUser) return;
-    
-    const loadActivePicnics = async () => {
-      try {
-        const q = query(
-          collection(db, 'picnics'),
-          where('participants', 'array-contains', { id: currentUser.uid })
-        );
-        
-        const querySnapshot = await getDocs(q);
-        const picnics = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as ExtendedPicnicData[];
-        
-        setActivePicnics(picnics);
-      } catch (error) {
-        console.error('Error loading picnics:', error);
-        setErrorState('Failed to load picnics. Please refresh the page.');
-      }
-    };
-    
-    loadActivePicnics();
-  }, [currentUser, db]);
+
+    try {
+      setIsCreatingPicnic(true);
+      const picnic = await startPicnicFromTemplate(template, {
+        id: currentUser.uid,
+        name: currentUser.displayName || 'You',
+        photoURL: currentUser.photoURL || DEFAULT_AVATAR_URL,
+      }, schedule);
+      setPlanningTemplate(null);
+      navigate(`/picnic/${picnic.id}`);
+    } catch (error) {
+      console.error('Error starting picnic from template:', error);
+      setErrorState('Failed to start picnic. Please try again.');
+    } finally {
+      setIsCreatingPicnic(false);
+    }
+  }, [currentUser, navigate]);
+
+  const handleDeleteTemplate = useCallback(async (template: PicnicTemplate) => {
+    if (!currentUser || !window.confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      await deletePicnicTemplate(currentUser.uid, template.id);
+    } catch {
+      setErrorState('Failed to delete template. Please try again.');
+    }
+  }, [currentUser]);
 
   // Check for restaurant data in location state
   useEffect(() => {
@@ -288,29 +358,132 @@ export function StartPicnikTab() {
     }
   }, [locationState]);
 
-  // Handle picnic deletion
-  const handleDeletePicnic = useCallback(async (picnicId: string) => {
-    if (!currentUser) return;
+  // Cancel a picnic, participants are notified and its photos cleaned up
+  const handleCancelPicnic = useCallback(async (reason: string) => {
+    if (!currentUser || !cancellingPicnic) return;
     
     try {
-      // First find the document ID since we're querying by picnic ID
-      const picnicQuery = query(collection(db, 'picnics'), where('id', '==', picnicId));
-      const querySnapshot = await getDocs(picnicQuery);
-      
-      if (!querySnapshot.empty) {
-        const docId = querySnapshot.docs[0].id;
-        await deleteDoc(doc(db, 'picnics', docId));
-        
-        // Remove from local state
-        setActivePicnics(prev => prev.filter(p => p.id !== picnicId));
+      setIsSavingPicnic(true);
+      await cancelPicnicAndNotify({ picnicId: cancellingPicnic.id, hostId: currentUser.uid, reason });
+      setCancellingPicnic(null);
+    } catch (error) {
+      console.error('Error cancelling picnic:', error);
+      setErrorState('Failed to cancel picnic. Please try again.');
+    } finally {
+      setIsSavingPicnic(false);
+    }
+  }, [currentUser, cancellingPicnic]);
+
+  // Save changes to a picnic's details
+  const handleEditPicnic = useCallback(async (updates: PicnicUpdate) => {
+    if (!currentUser || !editingPicnic) return;
+
+    try {
+      setIsSavingPicnic(true);
+      await editPicnicDetails(editingPicnic, currentUser.uid, updates);
+      setEditingPicnic(null);
+    } catch (error) {
+      console.error('Error editing picnic:', error);
+      setErrorState('Failed to update picnic. Please try again.');
+    } finally {
+      setIsSavingPicnic(false);
+    }
+  }, [currentUser, editingPicnic]);
+
+  // Leave a picnic, hosts hand it over to another participant first
+  const handleLeavePicnic = useCallback(async (picnic: Picnic) => {
+    if (!currentUser) return;
+
+    const isHost = picnic.hostId === currentUser.uid;
+    const confirmation = isHost
+      ? 'Leave this picnic? Someone else who is going will become the host, or it will be cancelled if nobody is.'
+      : 'Are you sure you want to leave this picnic?';
+    if (!window.confirm(confirmation)) return;
+
+    try {
+      if (isHost) {
+        await leaveAsHost(picnic.id, currentUser.uid);
+      } else {
+        await leavePicnic(picnic.id, currentUser.uid);
       }
     } catch (error) {
-      console.error('Error deleting picnic:', error);
-      setErrorState('Failed to delete picnic. Please try again.');
+      console.error('Error leaving picnic:', error);
+      setErrorState('Failed to leave picnic. Please try again.');
     }
-  }, [currentUser, db]);
+  }, [currentUser]);
+
+  // A scanned QR code is an invite link, open it like any other
+  const handleScan = useCallback((inviteToken: string) => {
+    setShowScanner(false);
+    navigate(`/invite/${inviteToken}`);
+  }, [navigate]);
 
-  if (weatherLoading || loading) {
+  const renderPicnicActions = (picnic: Picnic) => (
+    <>
+      <button
+        onClick={() => setChattingPicnic(picnic)}
+        className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+        aria-label="Open chat"
+      >
+        <ChatBubbleLeftRightIcon className="h-4 w-4" />
+      </button>
+      <button
+        onClick={() => setPotluckPicnicId(picnic.id)}
+        className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+        aria-label="Potluck list"
+      >
+        <ClipboardDocumentListIcon className="h-4 w-4" />
+      </button>
+      <button
+        onClick={() => setExpensesPicnic(picnic)}
+        className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+        aria-label="Expenses"
+      >
+        <BanknotesIcon className="h-4 w-4" />
+      </button>
+      <button
+        onClick={() => setQrCodePicnic(picnic)}
+        className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+        aria-label="Show QR code"
+      >
+        <QrCodeIcon className="h-4 w-4" />
+      </button>
+      <button
+        onClick={() => setSharingPicnic(picnic)}
+        className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+        aria-label="Share invite link"
+      >
+        <LinkIcon className="h-4 w-4" />
+      </button>
+      {currentUser?.uid === picnic.hostId && (
+        <>
+          <button
+            onClick={() => setEditingPicnic(picnic)}
+            className="p-2 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400 transition-colors"
+            aria-label="Edit picnic"
+          >
+            <PencilSquareIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setCancellingPicnic(picnic)}
+            className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+            aria-label="Cancel picnic"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </>
+      )}
+      <button
+        onClick={() => handleLeavePicnic(picnic)}
+        className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+        aria-label="Leave picnic"
+      >
+        <ArrowRightOnRectangleIcon className="h-4 w-4" />
+      </button>
+    </>
+  );
+
+  if (weatherLoading || loading || picnicsLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
@@ -318,12 +491,12 @@ export function StartPicnikTab() {
     );
   }
 
-  if (errorState) {
+  if (errorState || picnicsError) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-red-500 text-center p-4">
           <p className="text-xl font-semibold">Error</p>
-          <p>{errorState}</p>
+          <p>{errorState || picnicsError}</p>
           <button 
             onClick={() => window.location.reload()}
             className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
@@ -364,42 +537,133 @@ export function StartPicnikTab() {
               </div>
             )}
 
+            <button
+              onClick={() => setShowScanner(true)}
+              className="w-full px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 rounded-lg shadow hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center justify-center space-x-2"
+            >
+              <QrCodeIcon className="h-5 w-5" />
+              <span>Scan a QR code to join a picnic</span>
+            </button>
+
             <div className="space-y-4">
               <PicnicWidget
                 picnics={activePicnics}
-                onJoinPicnic={(picnicId) => {
-                  // Handle joining a picnic
-                  console.log('Joining picnic:', picnicId);
-                }}
+                onJoinPicnic={(picnicId) => navigate(`/picnic/${picnicId}`)}
+                renderActions={renderPicnicActions}
               />
-              
-              {activePicnics.map((picnic) => (
-                currentUser?.uid === picnic.hostId && (
-                  <div key={`delete-${picnic.id}`} className="relative">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        if (window.confirm('Are you sure you want to delete this picnic?')) {
-                          handleDeletePicnic(picnic.id);
-                        }
-                      }}
-                      className="absolute top-2 right-2 p-2 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
-                      aria-label="Delete picnic"
-                    >
-                      <TrashIcon className="h-4 w-4" />
-                    </button>
-                  </div>
-                )
-              ))}
             </div>
 
+            {templates.length > 0 && (
+              <div className="space-y-4">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Your Templates</h2>
+                <PicnicTemplateList
+                  templates={templates}
+                  onStartNow={(template) => handleStartFromTemplate(template, null)}
+                  onPlan={setPlanningTemplate}
+                  onDelete={handleDeleteTemplate}
+                  isLoading={isCreatingPicnic}
+                />
+              </div>
+            )}
+
+            {invitedPicnics.length > 0 && (
+              <div className="space-y-4">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Invites</h2>
+                <PicnicWidget
+                  picnics={invitedPicnics}
+                  onJoinPicnic={(picnicId) => navigate(`/join-picnic/${picnicId}`)}
+                />
+              </div>
+            )}
+
+            {upcomingPicnics.length > 0 && (
+              <div className="space-y-4">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Upcoming Picnics</h2>
+                <PicnicWidget
+                  picnics={upcomingPicnics}
+                  onJoinPicnic={(picnicId) => navigate(`/picnic/${picnicId}`)}
+                  renderActions={renderPicnicActions}
+                />
+                {upcomingPicnics.map((picnic) => (
+                  <RestaurantVotePanel key={`vote-${picnic.id}`} picnic={picnic} />
+                ))}
+              </div>
+            )}
+
             <CameraModal
               isOpen={showCameraModal}
               onClose={() => setShowCameraModal(false)}
               onPhotoTaken={handlePhotoTaken}
               isLoading={isCreatingPicnic}
+              uploadProgress={uploadProgress}
               restaurantName={selectedRestaurant?.name || 'the park'}
             />
+
+            <SchedulePicnicModal
+              isOpen={showScheduleModal}
+              onClose={() => setShowScheduleModal(false)}
+              onSchedule={handleSchedulePicnic}
+              isLoading={isCreatingPicnic}
+              restaurantName={selectedRestaurant?.name || 'the park'}
+            />
+
+            <SchedulePicnicModal
+              isOpen={!!planningTemplate}
+              onClose={() => setPlanningTemplate(null)}
+              onSchedule={(schedule) => planningTemplate && handleStartFromTemplate(planningTemplate, schedule)}
+              isLoading={isCreatingPicnic}
+              restaurantName={planningTemplate?.location.name || 'the park'}
+              defaultStart={templateStart}
+            />
+
+            <CancelPicnicModal
+              isOpen={!!cancellingPicnic}
+              onClose={() => setCancellingPicnic(null)}
+              onCancelPicnic={handleCancelPicnic}
+              isLoading={isSavingPicnic}
+              picnicName={cancellingPicnic?.name}
+            />
+
+            <EditPicnicModal
+              picnic={editingPicnic}
+              onClose={() => setEditingPicnic(null)}
+              onSave={handleEditPicnic}
+              isLoading={isSavingPicnic}
+            />
+
+            <InviteLinksModal
+              picnic={sharingPicnic}
+              onClose={() => setSharingPicnic(null)}
+            />
+
+            <PicnicQRCodeModal
+              picnic={qrCodePicnic}
+              onClose={() => setQrCodePicnic(null)}
+            />
+
+            <QRScannerModal
+              isOpen={showScanner}
+              onClose={() => setShowScanner(false)}
+              onScan={handleScan}
+            />
+
+            {chattingPicnic && (
+              <PicnicPanelModal title={`${chattingPicnic.name} chat`} onClose={() => setChattingPicnic(null)} fixedHeight>
+                <PicnicChatPanel picnic={chattingPicnic} />
+              </PicnicPanelModal>
+            )}
+
+            {potluckPicnic && (
+              <PicnicPanelModal title={`Who brings what to ${potluckPicnic.name}`} onClose={() => setPotluckPicnicId(null)}>
+                <PotluckPanel picnic={potluckPicnic} />
+              </PicnicPanelModal>
+            )}
+
+            {expensesPicnic && (
+              <PicnicPanelModal title={`${expensesPicnic.name} expenses`} onClose={() => setExpensesPicnic(null)}>
+                <PicnicExpensesPanel picnic={expensesPicnic} />
+              </PicnicPanelModal>
+            )}
           </div>
         </div>
       </div>
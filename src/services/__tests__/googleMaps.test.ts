@@ -1,27 +1,30 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
 import { getNearbyRestaurants } from '../googleMaps';
 
 describe('Google Maps Service', () => {
   // Mock the Google Maps API
   beforeAll(() => {
     // Mock the Google Maps API
-    (window as any).google = {
-      maps: {
-        places: {
-          PlacesServiceStatus: {
-            OK: 'OK',
-            ZERO_RESULTS: 'ZERO_RESULTS',
-            ERROR: 'ERROR',
+    vi.stubGlobal('window', {
+      google: {
+        maps: {
+          places: {
+            PlacesServiceStatus: {
+              OK: 'OK',
+              ZERO_RESULTS: 'ZERO_RESULTS',
+              ERROR: 'ERROR',
+            },
+          },
+          Map: vi.fn(),
+          Marker: vi.fn(),
+          LatLng: vi.fn(),
+          LatLngBounds: vi.fn(),
+          event: {
+            clearInstanceListeners: vi.fn(),
           },
-        },
-        Map: jest.fn(),
-        Marker: jest.fn(),
-        LatLng: jest.fn(),
-        LatLngBounds: jest.fn(),
-        event: {
-          clearInstanceListeners: jest.fn(),
         },
       },
-    };
+    });
   });
 
   it('should be defined', () => {
@@ -151,7 +151,7 @@ export function isGoodWeatherForPicnic(weatherData: WeatherResponse): boolean {
 }
 
 // Get weather data for a specific location
-export async function getWeatherData(lat: number, lon: number, unit: 'metric' | 'imperial' = 'metric'): Promise<WeatherResponse> {
+export async function getWeatherData(lat: number, lon: number, unit: 'metric' | 'imperial' | 'standard' = 'metric'): Promise<WeatherResponse> {
   try {
     const response = await fetch(
       `${BASE_URL}/weather?lat=${lat}&lon=${lon}&units=${unit}&appid=${OPENWEATHER_API_KEY}`
@@ -203,6 +203,47 @@ export async function getForecast(lat: number, lon: number): Promise<ForecastRes
   }
 }
 
+// OpenWeather's free forecast covers the next five days in three hour steps
+const FORECAST_RANGE_MS = 5 * 24 * 60 * 60 * 1000;
+// Closer than this the current weather is a better guess than the forecast
+const CURRENT_WEATHER_WINDOW_MS = 90 * 60 * 1000;
+
+// Get the weather expected at a given time, shaped like the current weather and in Kelvin
+// so isGoodWeatherForPicnic works on it. Resolves to null past the end of the forecast.
+export async function getWeatherAt(lat: number, lon: number, when: Date): Promise<WeatherResponse | null> {
+  const msAway = when.getTime() - Date.now();
+  if (msAway <= CURRENT_WEATHER_WINDOW_MS) {
+    return getWeatherData(lat, lon, 'standard');
+  }
+  if (msAway > FORECAST_RANGE_MS) {
+    return null;
+  }
+
+  const forecast = await getForecast(lat, lon);
+  const closest = forecast.list.reduce<ForecastResponse['list'][number] | null>((best, entry) =>
+    !best || Math.abs(entry.dt * 1000 - when.getTime()) < Math.abs(best.dt * 1000 - when.getTime()) ? entry : best
+  , null);
+  if (!closest) return null;
+
+  return {
+    coord: { lat: forecast.city.coord.lat, lon: forecast.city.coord.lon },
+    weather: closest.weather,
+    base: 'forecast',
+    main: closest.main,
+    visibility: closest.visibility,
+    wind: closest.wind,
+    clouds: closest.clouds,
+    dt: closest.dt,
+    sys: { country: forecast.city.country, sunrise: forecast.city.sunrise, sunset: forecast.city.sunset },
+    timezone: forecast.city.timezone,
+    id: forecast.city.id,
+    name: forecast.city.name,
+    cod: 200,
+    ...(closest.rain && { rain: { '3h': closest.rain['3h'] } }),
+    ...(closest.snow && { snow: { '3h': closest.snow['3h'] } }),
+  };
+}
+
 // Get a user-friendly weather description
 export function getWeatherDescription(weatherData: WeatherResponse): string {
   const { weather, main, wind } = weatherData;
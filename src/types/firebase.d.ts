@@ -1,5 +1,6 @@
 import { User as FirebaseUser } from 'firebase/auth';
-import { User, Picnic, Vote, Restaurant } from '../firebase/db';
+import { User, Vote, Restaurant } from '../firebase/db';
+import { Picnic } from '../firebase/picnics';
 
 declare global {
   // Extend Window interface if needed
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGeohash, geohashQueryBounds } from '../geohash';
+import { calculateDistance } from '../geo';
+
+const inBounds = (hash: string, bounds: [string, string][]) =>
+  bounds.some(([start, end]) => hash >= start && hash <= end);
+
+describe('Geohash', () => {
+  describe('encodeGeohash', () => {
+    it('matches known hashes', () => {
+      expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj');
+      expect(encodeGeohash(40.7128, -74.006, 5)).toBe('dr5re');
+    });
+
+    it('gives nearby places a shared prefix', () => {
+      const bryantPark = encodeGeohash(40.7536, -73.9832);
+      const librarySteps = encodeGeohash(40.7532, -73.9822);
+      expect(bryantPark.slice(0, 6)).toBe(librarySteps.slice(0, 6));
+    });
+  });
+
+  describe('geohashQueryBounds', () => {
+    const center = { latitude: 40.7128, longitude: -74.006 };
+
+    it('needs at most four ranges', () => {
+      [0.5, 2, 10, 50, 300].forEach(radius => {
+        expect(geohashQueryBounds(center, radius).length <= 4).toBe(true);
+      });
+    });
+
+    it('covers every spot inside the radius', () => {
+      const radius = 5;
+      const bounds = geohashQueryBounds(center, radius);
+      for (let i = 0; i < 200; i++) {
+        const angle = (i / 200) * 2 * Math.PI;
+        const distance = radius * ((i % 10) / 10);
+        const latitude = center.latitude + (distance / 110.574) * Math.sin(angle);
+        const longitude = center.longitude + (distance / (111.32 * Math.cos(latitude * Math.PI / 180))) * Math.cos(angle);
+        if (calculateDistance(center.latitude, center.longitude, latitude, longitude) > radius) continue;
+        expect(inBounds(encodeGeohash(latitude, longitude), bounds)).toBe(true);
+      }
+    });
+
+    it('covers both sides of the antimeridian', () => {
+      const bounds = geohashQueryBounds({ latitude: -17.7, longitude: 179.99 }, 10);
+      expect(inBounds(encodeGeohash(-17.7, -179.99), bounds)).toBe(true);
+      expect(inBounds(encodeGeohash(-17.7, 179.95), bounds)).toBe(true);
+    });
+
+    it('falls back to everything when the circle is too big for any cell', () => {
+      expect(geohashQueryBounds({ latitude: 89.9, longitude: 0 }, 50)).toEqual([['', '~']]);
+    });
+  });
+});
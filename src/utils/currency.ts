@@ -0,0 +1,23 @@
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'JPY', 'MXN'];
+
+// Cents for most currencies, none for the yen
+const minorUnitDigits = (currency: string): number =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+
+/**
+ * Turn an amount typed by the user, like "12.50", into whole minor units
+ */
+export const toMinorUnits = (value: string | number, currency: string): number =>
+  Math.round(Number(value) * 10 ** minorUnitDigits(currency));
+
+/**
+ * Turn whole minor units back into the number a user would type
+ */
+export const fromMinorUnits = (amount: number, currency: string): number =>
+  amount / 10 ** minorUnitDigits(currency);
+
+/**
+ * Format an amount in minor units for display, e.g. 1250 USD as "$12.50"
+ */
+export const formatMoney = (amount: number, currency: string): string =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(fromMinorUnits(amount, currency));
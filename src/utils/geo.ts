@@ -0,0 +1,24 @@
+// Types
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Distances are shared with the checkIn function, see functions/src/shared/geo.ts
+export { calculateDistance, formatDistance } from '../../functions/src/shared/geo';
+
+/**
+ * Ask the device where it is, as a promise. Rejects with a message fit to show the user.
+ */
+export const getCurrentPosition = (options: PositionOptions = {}): Promise<GeolocationPosition> =>
+  new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("This device can't share its location"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, (error) => {
+      reject(new Error(error.code === error.PERMISSION_DENIED
+        ? 'Location access was denied. Allow it in your browser settings and try again.'
+        : "Couldn't find your location. Try again in a moment."));
+    }, { enableHighAccuracy: true, timeout: 15000, maximumAge: 30000, ...options });
+  });
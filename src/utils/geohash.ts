@@ -0,0 +1,2 @@
+// Geohashes are shared with functions that create picnics, see functions/src/shared/geohash.ts
+export { encodeGeohash, geohashQueryBounds, GEOHASH_PRECISION } from '../../functions/src/shared/geohash';
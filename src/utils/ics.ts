@@ -0,0 +1,50 @@
+import { DEFAULT_PICNIC_DURATION_MS, type Picnic } from '../firebase/picnics';
+import type { PicnicParticipant } from '../firebase/participants';
+import { buildCalendar, picnicEvent } from '../../functions/src/shared/ics';
+
+/**
+ * iCalendar (RFC 5545) files for scheduled picnics. Events are written by
+ * functions/src/shared/ics.ts, which the calendar feed function uses too.
+ */
+
+/**
+ * The VEVENT lines for a scheduled picnic, or null for picnics started on the spot
+ */
+export const picnicEventLines = (
+  picnic: Picnic,
+  participants: Pick<PicnicParticipant, 'id' | 'name' | 'rsvpStatus'>[],
+  appUrl: string,
+  now: Date = new Date()
+): string[] | null => {
+  if (!picnic.date) return null;
+
+  return picnicEvent(
+    {
+      ...picnic,
+      start: picnic.date,
+      end: picnic.endDate ?? new Date(picnic.date.getTime() + DEFAULT_PICNIC_DURATION_MS),
+    },
+    participants,
+    appUrl,
+    now
+  );
+};
+
+/**
+ * Save a picnic as an .ics file the device's calendar can open
+ */
+export const downloadPicnicIcs = (
+  picnic: Picnic,
+  participants: Pick<PicnicParticipant, 'id' | 'name' | 'rsvpStatus'>[]
+): void => {
+  const event = picnicEventLines(picnic, participants, window.location.origin);
+  if (!event) throw new Error("This picnic doesn't have a date to add to a calendar");
+
+  const blob = new Blob([buildCalendar([event])], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${(picnic.name || 'picnic').replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-') || 'picnic'}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,106 @@
+/**
+ * Browser-side image processing before photos go to Storage. Everything is redrawn
+ * onto a canvas and re-encoded as JPEG, which drops EXIF metadata like GPS location.
+ */
+
+// Types
+export interface ImageOptions {
+  maxDimension?: number; // Longest side in pixels
+  maxBytes?: number; // Size budget for the encoded image
+  thumbnailDimension?: number;
+}
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_MAX_DIMENSION = 2048;
+export const DEFAULT_MAX_BYTES = 1024 * 1024;
+export const DEFAULT_THUMBNAIL_DIMENSION = 320;
+
+// Quality steps tried in order before shrinking the image further
+const JPEG_QUALITIES = [0.85, 0.75, 0.65, 0.55];
+// Each time no quality fits the budget the image shrinks by this much
+const SHRINK_FACTOR = 0.8;
+// Below this the image is sent over budget rather than made unrecognisable
+const MIN_DIMENSION = 480;
+
+// Data URLs from the camera and files from a picker both end up as an <img>,
+// which applies the EXIF orientation before we draw it
+const loadImage = async (source: Blob | string): Promise<HTMLImageElement> => {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } catch {
+    throw new Error("That photo couldn't be read. Try a different one.");
+  } finally {
+    if (typeof source !== 'string') URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Fit width and height inside a square of the given size, never scaling up
+ */
+export const fitWithin = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const encode = (image: HTMLImageElement, width: number, height: number, quality: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Images are not supported in this browser'));
+
+  // JPEG has no transparency, fill it white rather than black
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("This browser couldn't process the image"))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
+
+/**
+ * Resize a photo, strip its metadata and re-encode it under the size budget,
+ * along with a small thumbnail for grids and avatars
+ */
+export const processImage = async (source: Blob | string, options: ImageOptions = {}): Promise<ProcessedImage> => {
+  const {
+    maxDimension = DEFAULT_MAX_DIMENSION,
+    maxBytes = DEFAULT_MAX_BYTES,
+    thumbnailDimension = DEFAULT_THUMBNAIL_DIMENSION,
+  } = options;
+
+  const image = await loadImage(source);
+  let { width, height } = fitWithin(image.naturalWidth, image.naturalHeight, maxDimension);
+
+  let encoded: Blob | null = null;
+  for (;;) {
+    for (const quality of JPEG_QUALITIES) {
+      encoded = await encode(image, width, height, quality);
+      if (encoded.size <= maxBytes) break;
+    }
+    if (!encoded) throw new Error("This browser couldn't process the image");
+    if (encoded.size <= maxBytes || Math.max(width, height) * SHRINK_FACTOR < MIN_DIMENSION) break;
+    width = Math.round(width * SHRINK_FACTOR);
+    height = Math.round(height * SHRINK_FACTOR);
+  }
+
+  const thumbnailSize = fitWithin(image.naturalWidth, image.naturalHeight, thumbnailDimension);
+  const thumbnail = await encode(image, thumbnailSize.width, thumbnailSize.height, 0.7);
+
+  return { image: encoded, thumbnail, width, height };
+};
@@ -0,0 +1,10 @@
+import type { Location } from 'react-router-dom';
+
+/**
+ * Where to send the user after signing in, from the `from` location that
+ * ProfileCompleteRoute and the invite page put in the router state
+ */
+export const redirectPathFrom = (state: unknown, fallback: string = '/'): string => {
+  const from = (state as { from?: Location } | null)?.from;
+  return from?.pathname ? `${from.pathname}${from.search ?? ''}` : fallback;
+};
@@ -0,0 +1,192 @@
+import { format } from 'date-fns';
+
+/**
+ * Colour filters, picnic frames and the place-and-date stamp for selfies.
+ * Filters work on the pixels directly since not every browser supports canvas filters.
+ */
+
+// Types
+export type SelfieFilter = 'none' | 'warm' | 'cool' | 'vivid' | 'vintage' | 'mono';
+export type SelfieFrame = 'none' | 'gingham' | 'polaroid' | 'garden';
+
+export interface SelfieStyle {
+  filter: SelfieFilter;
+  frame: SelfieFrame;
+  stamp: boolean;
+}
+
+export const SELFIE_FILTERS: { id: SelfieFilter; label: string }[] = [
+  { id: 'none', label: 'Original' },
+  { id: 'warm', label: 'Golden Hour' },
+  { id: 'cool', label: 'Lakeside' },
+  { id: 'vivid', label: 'Summer' },
+  { id: 'vintage', label: 'Vintage' },
+  { id: 'mono', label: 'Mono' },
+];
+
+export const SELFIE_FRAMES: { id: SelfieFrame; label: string }[] = [
+  { id: 'none', label: 'No frame' },
+  { id: 'gingham', label: 'Blanket' },
+  { id: 'polaroid', label: 'Polaroid' },
+  { id: 'garden', label: 'Garden' },
+];
+
+export const DEFAULT_SELFIE_STYLE: SelfieStyle = { filter: 'none', frame: 'none', stamp: true };
+
+const clamp = (value: number): number => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+/**
+ * Apply a colour filter to RGBA pixels in place
+ */
+export const applyFilter = (pixels: Uint8ClampedArray, filter: SelfieFilter): void => {
+  if (filter === 'none') return;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+
+    switch (filter) {
+      case 'warm':
+        pixels[i] = clamp(r * 1.1 + 10);
+        pixels[i + 1] = clamp(g * 1.02 + 4);
+        pixels[i + 2] = clamp(b * 0.85);
+        break;
+      case 'cool':
+        pixels[i] = clamp(r * 0.9);
+        pixels[i + 1] = clamp(g * 1.02);
+        pixels[i + 2] = clamp(b * 1.12 + 10);
+        break;
+      case 'vivid':
+        // Push each channel away from gray to saturate, with a little extra contrast
+        pixels[i] = clamp((gray + (r - gray) * 1.5 - 128) * 1.1 + 128);
+        pixels[i + 1] = clamp((gray + (g - gray) * 1.5 - 128) * 1.1 + 128);
+        pixels[i + 2] = clamp((gray + (b - gray) * 1.5 - 128) * 1.1 + 128);
+        break;
+      case 'vintage':
+        pixels[i] = clamp(0.393 * r + 0.769 * g + 0.189 * b);
+        pixels[i + 1] = clamp(0.349 * r + 0.686 * g + 0.168 * b);
+        pixels[i + 2] = clamp(0.272 * r + 0.534 * g + 0.131 * b);
+        break;
+      case 'mono':
+        pixels[i] = pixels[i + 1] = pixels[i + 2] = gray;
+        break;
+    }
+  }
+};
+
+// How much room each frame takes around the photo, as a fraction of the photo's shorter side
+const frameInsets = (frame: SelfieFrame): { side: number; bottom: number } => {
+  switch (frame) {
+    case 'gingham': return { side: 0.06, bottom: 0.06 };
+    case 'polaroid': return { side: 0.05, bottom: 0.22 };
+    case 'garden': return { side: 0.08, bottom: 0.08 };
+    default: return { side: 0, bottom: 0 };
+  }
+};
+
+const drawGingham = (context: CanvasRenderingContext2D, width: number, height: number, cell: number) => {
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.fillStyle = 'rgba(220, 38, 38, 0.45)';
+  for (let x = 0; x < width; x += cell * 2) context.fillRect(x, 0, cell, height);
+  for (let y = 0; y < height; y += cell * 2) context.fillRect(0, y, width, cell);
+};
+
+const drawGarden = (context: CanvasRenderingContext2D, width: number, height: number, inset: number) => {
+  context.fillStyle = '#4d7c0f';
+  context.fillRect(0, 0, width, height);
+  context.font = `${Math.round(inset * 0.8)}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  const decorations = ['🌼', '🍓', '🧺', '🌿', '🍉', '🥪'];
+  const step = inset * 1.6;
+  let n = 0;
+  for (let x = inset / 2; x < width; x += step) {
+    context.fillText(decorations[n++ % decorations.length], x, inset / 2);
+    context.fillText(decorations[n++ % decorations.length], x, height - inset / 2);
+  }
+  for (let y = inset / 2 + step; y < height - step / 2; y += step) {
+    context.fillText(decorations[n++ % decorations.length], inset / 2, y);
+    context.fillText(decorations[n++ % decorations.length], width - inset / 2, y);
+  }
+};
+
+const loadImage = async (source: string): Promise<HTMLImageElement> => {
+  const image = new Image();
+  image.src = source;
+  await image.decode();
+  return image;
+};
+
+/**
+ * Draw a selfie with its filter, frame and stamp, returning a JPEG data URL
+ */
+export const renderSelfie = async (
+  imageData: string,
+  style: SelfieStyle,
+  stampText: { place: string; date: Date }
+): Promise<string> => {
+  const photo = await loadImage(imageData);
+  const photoWidth = photo.naturalWidth;
+  const photoHeight = photo.naturalHeight;
+  const shortSide = Math.min(photoWidth, photoHeight);
+  const insets = frameInsets(style.frame);
+  const side = Math.round(shortSide * insets.side);
+  const bottom = Math.round(shortSide * insets.bottom);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = photoWidth + side * 2;
+  canvas.height = photoHeight + side + bottom;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Images are not supported in this browser');
+
+  if (style.frame === 'gingham') drawGingham(context, canvas.width, canvas.height, Math.max(4, Math.round(side / 2)));
+  if (style.frame === 'polaroid') {
+    context.fillStyle = '#fafaf9';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  if (style.frame === 'garden') drawGarden(context, canvas.width, canvas.height, side);
+
+  // Filter the photo on its own so the frame keeps its colours
+  const photoCanvas = document.createElement('canvas');
+  photoCanvas.width = photoWidth;
+  photoCanvas.height = photoHeight;
+  const photoContext = photoCanvas.getContext('2d');
+  if (!photoContext) throw new Error('Images are not supported in this browser');
+  photoContext.drawImage(photo, 0, 0);
+  if (style.filter !== 'none') {
+    const pixels = photoContext.getImageData(0, 0, photoWidth, photoHeight);
+    applyFilter(pixels.data, style.filter);
+    photoContext.putImageData(pixels, 0, 0);
+  }
+  context.drawImage(photoCanvas, side, side);
+
+  if (style.stamp) {
+    const text = `${stampText.place} · ${format(stampText.date, 'MMM d, yyyy')}`;
+    const fontSize = Math.max(12, Math.round(shortSide * 0.045));
+    context.font = `600 ${fontSize}px sans-serif`;
+    context.textBaseline = 'middle';
+
+    if (style.frame === 'polaroid') {
+      // Handwritten-style caption in the polaroid's bottom band
+      context.fillStyle = '#44403c';
+      context.textAlign = 'center';
+      context.fillText(text, canvas.width / 2, photoHeight + side + bottom / 2, canvas.width - side * 2);
+    } else {
+      const padding = Math.round(fontSize * 0.6);
+      const maxWidth = photoWidth - padding * 4;
+      const textWidth = Math.min(context.measureText(text).width, maxWidth);
+      const x = side + padding;
+      const y = side + photoHeight - padding - fontSize;
+      context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      context.fillRect(x, y - fontSize * 0.8, textWidth + padding * 2, fontSize * 1.6);
+      context.fillStyle = '#ffffff';
+      context.textAlign = 'left';
+      context.fillText(text, x + padding, y, maxWidth);
+    }
+  }
+
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so the tests don't load the app's Tailwind and PostCSS setup
+export default defineConfig({
+  css: {
+    postcss: {},
+  },
+  test: {
+    include: ['src/**/*.test.ts', 'functions/src/**/*.test.ts'],
+    environment: 'node',
+  },
+});